@@ -0,0 +1,64 @@
+import { parseDateRange } from "@/lib/analytic.service";
+import { isAuthorized } from "@/lib/auth";
+import { invalidateAnalyticsSnapshots } from "@/lib/cache";
+import { ConfigError, getConfig } from "@/lib/config";
+import { isValidTimeZone } from "@/lib/timezone";
+
+// DELETE /api/cache            -> drop every cached snapshot
+// DELETE /api/cache?from=&to=  -> drop the snapshot for that range only
+//                                 (&tz= for a range requested in that zone)
+export async function DELETE(request: Request) {
+  let config;
+  try {
+    config = getConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid analytics configuration",
+          issues: error.issues,
+        }),
+        {
+          status: 500,
+          headers: { "content-type": "application/json" },
+        }
+      );
+    }
+    throw error;
+  }
+
+  if (!isAuthorized(request, config.adminToken)) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "content-type": "application/json" },
+    });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const from = searchParams.get("from");
+  const to = searchParams.get("to");
+  if (!from && !to) {
+    return Response.json({ invalidated: invalidateAnalyticsSnapshots() });
+  }
+
+  const timeZone = searchParams.get("tz") || config.timeZone;
+  if (!isValidTimeZone(timeZone)) {
+    return new Response(
+      JSON.stringify({ error: `Invalid 'tz' time zone: ${timeZone}` }),
+      {
+        status: 400,
+        headers: { "content-type": "application/json" },
+      }
+    );
+  }
+  const parsed = parseDateRange(from, to, timeZone);
+  if (!parsed.ok) {
+    return new Response(JSON.stringify({ error: parsed.error }), {
+      status: 400,
+      headers: { "content-type": "application/json" },
+    });
+  }
+  return Response.json({
+    invalidated: invalidateAnalyticsSnapshots(parsed.range, timeZone),
+  });
+}
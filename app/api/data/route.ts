@@ -1,33 +1,57 @@
-import { MongoClient } from "mongodb";
-import { computeAnalyticsFromMongo } from "@/lib/analytic.service";
+import { parseDateRange } from "@/lib/analytic.service";
+import { getAnalyticsSnapshot } from "@/lib/cache";
+import { ConfigError, getConfig } from "@/lib/config";
+import { isValidTimeZone } from "@/lib/timezone";
 
-const MONGO_URI = process.env.MONGO_URI;
-const DB_NAME = process.env.DB_NAME ?? "BMR";
-
-if (!MONGO_URI) {
-  console.warn(
-    "[api/data] MONGO_URI is not defined. Requests will fail until it is provided."
-  );
-}
+export async function GET(request: Request) {
+  let config;
+  try {
+    config = getConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error("[api/data]", error.message);
+      return new Response(
+        JSON.stringify({
+          error: "Invalid analytics configuration",
+          issues: error.issues,
+        }),
+        {
+          status: 500,
+          headers: { "content-type": "application/json" },
+        }
+      );
+    }
+    throw error;
+  }
 
-export async function GET() {
-  if (!MONGO_URI) {
+  const { searchParams } = new URL(request.url);
+  const timeZone = searchParams.get("tz") || config.timeZone;
+  if (!isValidTimeZone(timeZone)) {
     return new Response(
-      JSON.stringify({ error: "Missing MONGO_URI environment variable" }),
+      JSON.stringify({ error: `Invalid 'tz' time zone: ${timeZone}` }),
       {
-        status: 500,
+        status: 400,
         headers: { "content-type": "application/json" },
       }
     );
   }
+  const parsed = parseDateRange(
+    searchParams.get("from"),
+    searchParams.get("to"),
+    timeZone
+  );
+  if (!parsed.ok) {
+    return new Response(JSON.stringify({ error: parsed.error }), {
+      status: 400,
+      headers: { "content-type": "application/json" },
+    });
+  }
 
-  let client: MongoClient | undefined;
   try {
-    client = new MongoClient(MONGO_URI, { maxPoolSize: 5 });
-    await client.connect();
-    const db = client.db(DB_NAME);
-    const analytics = await computeAnalyticsFromMongo(db);
-    return Response.json(analytics);
+    const analytics = await getAnalyticsSnapshot(parsed.range, timeZone);
+    return Response.json(analytics, {
+      headers: { "x-analytics-cache": analytics.cache?.status ?? "bypass" },
+    });
   } catch (error) {
     console.error("[api/data] error", error);
     return new Response(
@@ -40,9 +64,5 @@ export async function GET() {
         headers: { "content-type": "application/json" },
       }
     );
-  } finally {
-    if (client) {
-      await client.close().catch(() => undefined);
-    }
   }
 }
@@ -0,0 +1,31 @@
+import { ConfigError, getConfig } from "@/lib/config";
+import { checkMongoHealth } from "@/lib/mongo";
+
+export async function GET() {
+  try {
+    getConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          config: { ok: false, issues: error.issues },
+        }),
+        {
+          status: 503,
+          headers: { "content-type": "application/json" },
+        }
+      );
+    }
+    throw error;
+  }
+
+  const mongo = await checkMongoHealth();
+  return new Response(
+    JSON.stringify({ ok: mongo.ok, config: { ok: true }, mongo }),
+    {
+      status: mongo.ok ? 200 : 503,
+      headers: { "content-type": "application/json" },
+    }
+  );
+}
@@ -0,0 +1,123 @@
+import { parseDateRange, recommendForItems } from "@/lib/analytic.service";
+import { getAnalyticsSnapshot } from "@/lib/cache";
+import { ConfigError, getConfig } from "@/lib/config";
+
+const MAX_K = 50;
+const MAX_SEEDS = 50;
+
+function badRequest(error: string) {
+  return new Response(JSON.stringify({ error }), {
+    status: 400,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+function readFlag(value: string | null) {
+  return value === "1" || value === "true";
+}
+
+// GET /api/recommendations/<itemId>?k=10
+// GET /api/recommendations/<id1>,<id2>,...   -> merged scores for a cart
+//   &excludeCategory=1  drop items in any seed's category
+//   &inStock=1          drop items whose listing is out of stock
+//   &profile=<name>     use a weightedRecos profile instead of the cosine
+//   &from=&to=          same date range as /api/data
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ itemId: string }> }
+) {
+  let config;
+  try {
+    config = getConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error("[api/recommendations]", error.message);
+      return new Response(
+        JSON.stringify({
+          error: "Invalid analytics configuration",
+          issues: error.issues,
+        }),
+        {
+          status: 500,
+          headers: { "content-type": "application/json" },
+        }
+      );
+    }
+    throw error;
+  }
+
+  const { itemId } = await params;
+  const seeds = [
+    ...new Set(
+      itemId
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean)
+    ),
+  ];
+  if (!seeds.length) return badRequest("No item id given");
+  if (seeds.length > MAX_SEEDS) {
+    return badRequest(`At most ${MAX_SEEDS} items per lookup`);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const rawK = searchParams.get("k");
+  const k = rawK == null ? 10 : Number(rawK);
+  if (!Number.isInteger(k) || k < 1 || k > MAX_K) {
+    return badRequest(`k must be a whole number between 1 and ${MAX_K}`);
+  }
+  const parsed = parseDateRange(
+    searchParams.get("from"),
+    searchParams.get("to"),
+    config.timeZone
+  );
+  if (!parsed.ok) return badRequest(parsed.error);
+
+  try {
+    const analytics = await getAnalyticsSnapshot(parsed.range);
+    const profile = searchParams.get("profile");
+    if (
+      profile != null &&
+      !analytics.weightedRecos.profiles.some((p) => p.name === profile)
+    ) {
+      return badRequest(`Unknown weighting profile "${profile}"`);
+    }
+    if (!seeds.some((id) => analytics.itemMeta[id] || analytics.recos[id])) {
+      return new Response(JSON.stringify({ error: "Unknown item", seeds }), {
+        status: 404,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const filters = {
+      profile,
+      excludeSeedCategories: readFlag(searchParams.get("excludeCategory")),
+      inStockOnly: readFlag(searchParams.get("inStock")),
+    };
+    return Response.json(
+      {
+        seeds,
+        k,
+        filters,
+        recommendations: recommendForItems(analytics, seeds, k, filters),
+        range: analytics.range,
+        generatedAt: analytics.generatedAt,
+      },
+      {
+        headers: { "x-analytics-cache": analytics.cache?.status ?? "bypass" },
+      }
+    );
+  } catch (error) {
+    console.error("[api/recommendations] error", error);
+    return new Response(
+      JSON.stringify({
+        error: "Failed to load recommendations",
+        details: String((error as Error)?.message ?? error),
+      }),
+      {
+        status: 500,
+        headers: { "content-type": "application/json" },
+      }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { parseDateRange, runDailyRollups } from "@/lib/analytic.service";
+import { isAuthorized } from "@/lib/auth";
+import { invalidateAnalyticsSnapshots } from "@/lib/cache";
+import {
+  analyticsOptionsFromConfig,
+  ConfigError,
+  getConfig,
+} from "@/lib/config";
+import { getDb } from "@/lib/mongo";
+
+// One request recomputes at most this many days
+const MAX_DAYS = 366;
+
+// POST /api/rollups?from=YYYY-MM-DD&to=YYYY-MM-DD -> (re)build daily rollups
+export async function POST(request: Request) {
+  let config;
+  try {
+    config = getConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid analytics configuration",
+          issues: error.issues,
+        }),
+        {
+          status: 500,
+          headers: { "content-type": "application/json" },
+        }
+      );
+    }
+    throw error;
+  }
+
+  if (!isAuthorized(request, config.adminToken)) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "content-type": "application/json" },
+    });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const parsed = parseDateRange(
+    searchParams.get("from"),
+    searchParams.get("to"),
+    config.timeZone
+  );
+  if (!parsed.ok) {
+    return new Response(JSON.stringify({ error: parsed.error }), {
+      status: 400,
+      headers: { "content-type": "application/json" },
+    });
+  }
+  const { from, to } = parsed.range;
+  if (!from || !to) {
+    return new Response(
+      JSON.stringify({ error: "Both `from` and `to` are required" }),
+      { status: 400, headers: { "content-type": "application/json" } }
+    );
+  }
+  if ((to.getTime() - from.getTime()) / 86_400_000 > MAX_DAYS) {
+    return new Response(
+      JSON.stringify({ error: `Range must not exceed ${MAX_DAYS} days` }),
+      { status: 400, headers: { "content-type": "application/json" } }
+    );
+  }
+
+  try {
+    const db = await getDb();
+    const result = await runDailyRollups(
+      db,
+      { from, to },
+      analyticsOptionsFromConfig(config)
+    );
+    // Snapshots built from the previous rollups are now out of date
+    return Response.json({
+      ...result,
+      invalidated: invalidateAnalyticsSnapshots(),
+    });
+  } catch (error) {
+    console.error("[rollups] run failed", error);
+    return new Response(JSON.stringify({ error: "Failed to build rollups" }), {
+      status: 500,
+      headers: { "content-type": "application/json" },
+    });
+  }
+}
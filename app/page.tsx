@@ -1,36 +1,50 @@
-import { MongoClient } from "mongodb";
 import AnalyticsDashboard from "@/components/AnalyticsDashboard";
 import type { AnalyticsResponse } from "@/lib/analytic.service";
-import { computeAnalyticsFromMongo } from "@/lib/analytic.service";
+import { getAnalyticsSnapshot } from "@/lib/cache";
+import type { ConfigIssue } from "@/lib/config";
+import { ConfigError, getConfig } from "@/lib/config";
 
-const DB_NAME = process.env.DB_NAME ?? "BMR";
-const MONGO_URI = process.env.MONGO_URI;
+// Render per request so the snapshot cache (not the build) decides freshness
+export const dynamic = "force-dynamic";
 
-async function getAnalytics(): Promise<AnalyticsResponse | null> {
-  if (!MONGO_URI) {
-    console.warn("[page] Missing MONGO_URI - skipping analytics fetch.");
-    return null;
+async function getAnalytics(): Promise<
+  | { analytics: AnalyticsResponse; issues?: undefined }
+  | { analytics: null; issues?: ConfigIssue[] }
+> {
+  try {
+    getConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.warn("[page]", error.message);
+      return { analytics: null, issues: error.issues };
+    }
+    throw error;
   }
 
-  let client: MongoClient | undefined;
   try {
-    client = new MongoClient(MONGO_URI, { maxPoolSize: 5 });
-    await client.connect();
-    const db = client.db(DB_NAME);
-    const analytics = await computeAnalyticsFromMongo(db);
-    return analytics;
+    const analytics = await getAnalyticsSnapshot({ from: null, to: null });
+    return { analytics };
   } catch (error) {
     console.error("[page] Failed to fetch analytics", error);
-    return null;
-  } finally {
-    if (client) {
-      await client.close().catch(() => undefined);
-    }
+    return { analytics: null };
+  }
+}
+
+function describeFreshness(analytics: AnalyticsResponse) {
+  const generated = analytics.generatedAt.replace("T", " ").slice(0, 19);
+  const cache = analytics.cache;
+  if (!cache || cache.status === "bypass" || cache.status === "miss") {
+    return `Generated ${generated} UTC`;
   }
+  const age =
+    cache.ageSeconds < 120
+      ? `${cache.ageSeconds}s`
+      : `${Math.round(cache.ageSeconds / 60)} min`;
+  return `Generated ${generated} UTC (cache ${cache.status}, ${age} old)`;
 }
 
 export default async function Page() {
-  const analytics = await getAnalytics();
+  const { analytics, issues } = await getAnalytics();
 
   if (!analytics) {
     return (
@@ -38,8 +52,19 @@ export default async function Page() {
         <header className="flex flex-col gap-2">
           <h1 className="text-3xl font-bold">Advanced Analytics Dashboard</h1>
           <p className="text-slate-400">
-            Unable to load analytics. Check database credentials.
+            {issues?.length
+              ? "Unable to load analytics. Fix these configuration settings:"
+              : "Unable to load analytics. Check database credentials."}
           </p>
+          {issues?.length ? (
+            <ul className="list-disc pl-6 text-sm text-slate-400">
+              {issues.map((issue) => (
+                <li key={issue.key}>
+                  <code>{issue.key}</code> ({issue.problem}): {issue.message}
+                </li>
+              ))}
+            </ul>
+          ) : null}
         </header>
       </main>
     );
@@ -54,8 +79,9 @@ export default async function Page() {
             Behavioral models with clear narratives.
           </p>
         </div>
-        <div className="text-sm text-slate-400">
-          Backend: {analytics.__version}
+        <div className="flex flex-col text-sm text-slate-400 sm:items-end">
+          <span>Backend: {analytics.__version}</span>
+          <span className="text-xs">{describeFreshness(analytics)}</span>
         </div>
       </header>
 
@@ -1,6 +1,6 @@
 "use client";
 
-import { useMemo, useState, useCallback } from "react";
+import { useMemo, useState, useCallback, useEffect } from "react";
 import { ResponsiveHeatMap } from "@nivo/heatmap";
 import { ResponsiveSankey } from "@nivo/sankey";
 import { ResponsiveBar } from "@nivo/bar";
@@ -12,7 +12,27 @@ import {
   isWithinInterval,
   format,
 } from "date-fns";
-import { AnalyticsResponse } from "@/lib/analytic.service";
+import {
+  AnalyticsResponse,
+  AnomalyDetectorName,
+  CohortPeriod,
+  DailyAnomaly,
+  DailyMetric,
+  DataQualityCode,
+  ForecastMetric,
+  LatencyStats,
+  LatencyStep,
+  RateEstimate,
+} from "@/lib/analytic.service";
+import {
+  alignToRange,
+  baselineRange,
+  ComparisonMode,
+  DayRange,
+  Delta,
+  delta,
+} from "@/lib/compare";
+import { WEEKDAYS, zonedDay } from "@/lib/timezone";
 // Removed reactstrap dependency - using standard HTML elements instead
 
 interface AnalyticsDashboardProps {
@@ -21,12 +41,38 @@ interface AnalyticsDashboardProps {
 
 type ChartProps = { data: AnalyticsResponse };
 
+/** Second response for the baseline range, with both ranges it spans. */
+type Comparison = {
+  range: DayRange;
+  current: DayRange;
+  data: AnalyticsResponse;
+};
+
+type CompareProps = ChartProps & { comparison: Comparison | null };
+
 type PriceTier = "Low" | "Mid" | "High" | "All"; // local mirror of lib type for safe indexing
 
 // -------------------- tiny utils --------------------
 const clamp = (v: number, min = 0, max = 1e12) =>
   Math.min(Math.max(v, min), max);
 const pct = (v: number, p = 1) => `${(v * 100).toFixed(p)}%`;
+const money = (v: number) =>
+  `£${v.toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const signedPct = (v: number, p = 1) => `${v > 0 ? "+" : ""}${pct(v, p)}`;
+const signedPoints = (v: number, p = 1) =>
+  `${v > 0 ? "+" : ""}${(v * 100).toFixed(p)} pp`;
+
+const duration = (seconds: number | null) => {
+  if (seconds == null) return "–";
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  if (seconds < 3600) return `${(seconds / 60).toFixed(1)}m`;
+  if (seconds < 86400) return `${(seconds / 3600).toFixed(1)}h`;
+  return `${(seconds / 86400).toFixed(1)}d`;
+};
 
 const statePhrases: Record<string, string> = {
   cart_add: "add an item to their cart",
@@ -61,187 +107,41 @@ function validateDateRange(
   return { isValid: true };
 }
 
-// Largest Remainder method so scaled integers sum to an exact target
-function distributeToTotal(total: number, weights: number[]) {
-  const nonneg = weights.map((w) => (w > 0 ? w : 0));
-  const sum = nonneg.reduce((a, b) => a + b, 0) || 1;
-  const raw = nonneg.map((w) => (w / sum) * total);
-  const base = raw.map((x) => Math.floor(x));
-  let rem = total - base.reduce((a, b) => a + b, 0);
-  const order = raw
-    .map((x, i) => ({ i, frac: x - base[i] }))
-    .sort((a, b) => b.frac - a.frac);
-  const out = base.slice();
-  for (let k = 0; k < rem; k += 1) out[order[k % order.length].i] += 1;
-  return out;
-}
-
-// -------------------- canonical reprojection --------------------
-// Recompute a self-consistent dataset for the chosen date range.
-function reprojectForDateRange(
-  data: AnalyticsResponse,
-  fromDate: string,
-  toDate: string
-): AnalyticsResponse {
-  const sessions = data.sessions.filter((s) => {
-    const d = s.ts.split("T")[0];
-    return d >= fromDate && d <= toDate;
-  });
-
-  // No data -> return empty-shaped object
-  if (sessions.length === 0) {
-    return {
-      ...data,
-      sessions: [],
-      daily: { ...data.daily, series: [] },
-      leak: { overall: 0, items: [] },
-      categoryInteractions: [],
-      recos: {},
-      frequentBundles: [],
-      priceRangeData: {
-        viewFromPrices: [],
-        viewToCartFromPrices: [],
-        cartAddPrices: [],
-        cartRemovePrices: [],
-      },
-      priceBands: { bands: [] },
-      transitions: {
-        states: [
-          "cart_add",
-          "cart_remove",
-          "view",
-          "wishlist_add",
-          "wishlist_remove",
-        ],
-        counts: Array.from({ length: 5 }, () => Array(5).fill(0)),
-        probs: Array.from({ length: 5 }, () => Array(5).fill(0)),
-      },
-      sankey: {
-        nodes: [
-          "cart_add",
-          "cart_remove",
-          "view",
-          "wishlist_add",
-          "wishlist_remove",
-        ],
-        links: [],
-      },
-    };
-  }
-
-  const ratio = clamp(sessions.length / data.sessions.length, 0, 1);
+const rangeLabel = (range: DayRange) =>
+  range.from === range.to ? range.from : `${range.from} to ${range.to}`;
 
-  // --- Daily series: exact filter
-  const daily = {
-    ...data.daily,
-    series: data.daily.series.filter(
-      (r) => r.date >= fromDate && r.date <= toDate
-    ),
-  };
-
-  // --- Session-derived totals (ground truth for the range)
-  const totalAdds = sessions.reduce((a, s) => a + s.nCartAdd, 0);
-  const totalRemoves = sessions.reduce((a, s) => a + s.nCartRemove, 0);
-
-  // --- Transitions: scale counts by ratio, then recompute probs from those counts.
-  const scaledCounts = data.transitions.counts.map((row) =>
-    row.map((c) => Math.round(c * ratio))
+// Change against the comparison baseline; rates change in percentage points
+function ChangeNote({
+  change,
+  rate = false,
+  lowerIsBetter = false,
+  formatValue = (v) => v.toLocaleString(),
+}: {
+  change: Delta;
+  rate?: boolean;
+  lowerIsBetter?: boolean;
+  formatValue?: (v: number) => string;
+}) {
+  const better = lowerIsBetter ? change.change < 0 : change.change > 0;
+  const tone = !change.change
+    ? "tw-text-slate-500"
+    : better
+    ? "tw-text-emerald-600"
+    : "tw-text-rose-600";
+  const amount = !change.change
+    ? "No change"
+    : rate
+    ? signedPoints(change.change)
+    : change.relative == null
+    ? `+${formatValue(change.change)}`
+    : signedPct(change.relative);
+  const arrow = change.change > 0 ? "▲ " : change.change < 0 ? "▼ " : "";
+  return (
+    <p className={`tw-text-xs tw-font-medium tw-mt-1 ${tone}`}>
+      {arrow}
+      {amount} vs {formatValue(change.baseline)}
+    </p>
   );
-  const probs = scaledCounts.map((row) => {
-    const sum = row.reduce((a, b) => a + b, 0);
-    return sum ? row.map((v) => v / sum) : row.map(() => 0);
-  });
-
-  // Build Sankey directly from counts so both charts are in lockstep
-  const links: Array<{ source: number; target: number; value: number }> = [];
-  for (let i = 0; i < scaledCounts.length; i += 1) {
-    for (let j = 0; j < scaledCounts[i].length; j += 1) {
-      const v = scaledCounts[i][j];
-      if (v > 0 && i !== j) links.push({ source: i, target: j, value: v }); // drop self-loops; they cause circular link errors
-    }
-  }
-  const transitions = {
-    states: data.transitions.states,
-    counts: scaledCounts,
-    probs,
-  };
-  const sankey = { nodes: data.sankey.nodes, links };
-
-  // --- Leak: redistribute to match exact adds/removes via largest-remainder
-  const origAdds = data.leak.items.map((r) => r.adds);
-  const origRems = data.leak.items.map((r) => r.removes);
-  const addsAlloc = distributeToTotal(totalAdds, origAdds);
-  const remsAlloc = distributeToTotal(totalRemoves, origRems);
-  const leakItems = data.leak.items
-    .map((r, idx) => {
-      const adds = addsAlloc[idx] || 0;
-      const removes = remsAlloc[idx] || 0;
-      return {
-        item: r.item,
-        adds,
-        removes,
-        leak: adds > 0 ? removes / adds : 0,
-      };
-    })
-    .sort((a, b) => b.leak - a.leak || b.removes - a.removes);
-  const leak = {
-    overall: totalAdds > 0 ? totalRemoves / totalAdds : 0,
-    items: leakItems,
-  };
-
-  // --- Category interactions: scale views & wish by ratio; force carts to sum to totalAdds
-  const catViews = data.categoryInteractions.map((c) => c.views);
-  const catCarts = data.categoryInteractions.map((c) => c.carts);
-  const catWish = data.categoryInteractions.map((c) => c.wish);
-  const cartsAlloc = distributeToTotal(totalAdds, catCarts);
-  const categoryInteractions = data.categoryInteractions
-    .map((c, idx) => {
-      const views = Math.round((catViews[idx] || 0) * ratio);
-      const wish = Math.round((catWish[idx] || 0) * ratio);
-      const carts = cartsAlloc[idx] || 0;
-      return { ...c, views, wish, carts, total: views + wish + carts };
-    })
-    .sort((a, b) => b.total - a.total);
-
-  // --- Price arrays: downsample by ratio (best-effort client-side filtering)
-  const scaleArray = (arr: number[]) =>
-    arr.slice(0, Math.round(arr.length * ratio));
-  const priceRangeData = {
-    viewFromPrices: scaleArray(data.priceRangeData.viewFromPrices),
-    viewToCartFromPrices: scaleArray(data.priceRangeData.viewToCartFromPrices),
-    cartAddPrices: scaleArray(data.priceRangeData.cartAddPrices),
-    cartRemovePrices: scaleArray(data.priceRangeData.cartRemovePrices),
-  };
-
-  // --- Price bands: keep rates, scale counts; they’re descriptive not accounting totals
-  const priceBands = {
-    bands: data.priceBands.bands.map((b) => ({
-      ...b,
-      nView: Math.round(b.nView * ratio),
-      nWish: Math.round(b.nWish * ratio),
-    })),
-  };
-
-  // --- Bundles: scale support; Recos untouched (ranking only)
-  const frequentBundles = data.frequentBundles.map((b) => ({
-    ...b,
-    support: b.support * ratio,
-  }));
-  const recos = data.recos;
-
-  return {
-    ...data,
-    sessions,
-    daily,
-    leak,
-    categoryInteractions,
-    priceRangeData,
-    priceBands,
-    transitions,
-    sankey,
-    recos,
-    frequentBundles,
-  };
 }
 
 // -------------------- Charts --------------------
@@ -272,22 +172,29 @@ function PurchaseFunnelByPrice({ data }: ChartProps) {
 
   const tier = data.priceMarkov[selectedTier] ??
     data.priceMarkov.All ?? { pViewToCart: 0, pCartToCheckout: 0 };
+  const tierFunnel =
+    selectedTier === "All"
+      ? data.funnel.overall
+      : data.funnel.byTier[selectedTier];
 
   const rangeMetrics = useMemo(() => {
     const min = appliedRange.min ?? -Infinity;
     const max = appliedRange.max ?? Infinity;
-    const inRange = (v: number) => v >= min && v <= max;
+    const countInRange = (rows: Array<{ price: number; count: number }>) =>
+      rows.reduce(
+        (acc, r) => (r.price >= min && r.price <= max ? acc + r.count : acc),
+        0
+      );
 
-    const views = data.priceRangeData.viewFromPrices.filter(inRange).length;
-    const viewToCart =
-      data.priceRangeData.viewToCartFromPrices.filter(inRange).length;
+    const views = countInRange(data.priceRangeData.viewFromPrices);
+    const viewToCart = countInRange(data.priceRangeData.viewToCartFromPrices);
     const viewRate = views > 0 ? viewToCart / views : 0;
 
-    const adds = data.priceRangeData.cartAddPrices.filter(inRange).length;
-    const removes = data.priceRangeData.cartRemovePrices.filter(inRange).length;
-    const checkoutRate = adds > 0 ? clamp((adds - removes) / adds, 0, 1) : 0;
+    const adds = countInRange(data.priceRangeData.cartAddPrices);
+    const checkouts = countInRange(data.priceRangeData.checkoutPrices);
+    const checkoutRate = adds > 0 ? clamp(checkouts / adds, 0, 1) : 0;
 
-    return { views, viewToCart, adds, removes, viewRate, checkoutRate };
+    return { views, viewToCart, adds, checkouts, viewRate, checkoutRate };
   }, [appliedRange, data.priceRangeData]);
 
   const applyRange = () => {
@@ -333,14 +240,26 @@ function PurchaseFunnelByPrice({ data }: ChartProps) {
               <p className="tw-mt-2 tw-text-2xl tw-font-semibold tw-text-emerald-300">
                 {pct(tier.pViewToCart)}
               </p>
+              {tierFunnel && (
+                <p className="tw-mt-1 tw-text-xs tw-text-slate-600">
+                  {tierFunnel.viewToCartSessions} of {tierFunnel.viewSessions}{" "}
+                  viewing sessions
+                </p>
+              )}
             </div>
             <div className="tw-rounded-xl tw-bg-white shadow tw-p-4">
               <p className="tw-text-xs tw-uppercase tw-text-black">
-                Cart → Checkout proxy
+                Cart → Checkout
               </p>
               <p className="tw-mt-2 tw-text-2xl tw-font-semibold tw-text-sky-300">
                 {pct(tier.pCartToCheckout)}
               </p>
+              {tierFunnel && (
+                <p className="tw-mt-1 tw-text-xs tw-text-slate-600">
+                  {tierFunnel.cartToCheckoutSessions} of{" "}
+                  {tierFunnel.cartSessions} carting sessions
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -394,13 +313,14 @@ function PurchaseFunnelByPrice({ data }: ChartProps) {
             </div>
             <div className="tw-rounded-xl tw-bg-white shadow tw-p-4">
               <p className="tw-text-xs tw-uppercase tw-text-black">
-                Cart → Checkout proxy
+                Cart → Checkout
               </p>
               <p className="tw-mt-2 tw-text-2xl tw-font-semibold tw-text-sky-200">
                 {pct(rangeMetrics.checkoutRate)}
               </p>
               <p className="tw-mt-1 tw-text-xs tw-text-black">
-                adds={rangeMetrics.adds}, removes={rangeMetrics.removes}
+                n={rangeMetrics.adds} cart adds → {rangeMetrics.checkouts}{" "}
+                checkouts
               </p>
             </div>
           </div>
@@ -412,8 +332,683 @@ function PurchaseFunnelByPrice({ data }: ChartProps) {
   );
 }
 
-function TransitionHeatmap({ data }: ChartProps) {
+function CheckoutFunnelBreakdown({ data }: ChartProps) {
+  const [segment, setSegment] = useState<"category" | "country">("category");
+  const [topCount, setTopCount] = useState(10);
+
+  const allRows = useMemo(
+    () =>
+      segment === "category"
+        ? data.funnel.byCategory.map((row) => ({ name: row.category, ...row }))
+        : data.funnel.byCountry.map((row) => ({ name: row.country, ...row })),
+    [segment, data.funnel]
+  );
+  const rows = allRows.slice(0, topCount);
+
+  if (!rows.length)
+    return <p className="muted">No sessions in this range yet.</p>;
+
+  return (
+    <div className="tw-space-y-4">
+      <div className="tw-flex tw-flex-wrap tw-items-center tw-justify-between tw-gap-2">
+        <p className="tw-text-sm tw-text-slate-800">
+          Overall: {pct(data.funnel.overall.viewToCart)} view → cart,{" "}
+          {pct(data.funnel.overall.cartToCheckout)} cart → checkout,{" "}
+          {pct(data.funnel.overall.conversion)} of sessions check out
+        </p>
+        <div className="tw-flex tw-items-center tw-gap-2">
+          <select
+            value={segment}
+            onChange={(e) =>
+              setSegment(e.target.value as "category" | "country")
+            }
+            className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+          >
+            <option value="category">By category</option>
+            <option value="country">By country</option>
+          </select>
+          <select
+            value={topCount}
+            onChange={(e) => setTopCount(Number(e.target.value))}
+            className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+          >
+            {[5, 10, 20, 50].map((n) => (
+              <option key={n} value={n}>
+                Top {n}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="tw-overflow-x-auto">
+        <table className="tw-min-w-full tw-divide-y tw-divide-slate-800 tw-text-sm">
+          <thead className="tw-bg-slate-900/60 tw-text-left tw-text-xs tw-uppercase tw-tracking-wide tw-text-slate-100">
+            <tr>
+              <th className="tw-px-4 tw-py-3">
+                {segment === "category" ? "Category" : "Country"}
+              </th>
+              <th className="tw-px-4 tw-py-3">Sessions</th>
+              <th className="tw-px-4 tw-py-3">View → Cart</th>
+              <th className="tw-px-4 tw-py-3">Cart → Checkout</th>
+              <th className="tw-px-4 tw-py-3">View → Checkout</th>
+              <th className="tw-px-4 tw-py-3">Checkouts</th>
+            </tr>
+          </thead>
+          <tbody className="tw-divide-y tw-divide-slate-800">
+            {rows.map((row) => (
+              <tr key={row.name}>
+                <td className="tw-px-4 tw-py-3 tw-font-medium tw-text-slate-900">
+                  {row.name}
+                </td>
+                <td className="tw-px-4 tw-py-3 tw-text-slate-900">
+                  {row.sessions.toLocaleString()}
+                </td>
+                <td className="tw-px-4 tw-py-3 tw-text-emerald-600">
+                  {pct(row.viewToCart)}
+                </td>
+                <td className="tw-px-4 tw-py-3 tw-text-sky-600">
+                  {pct(row.cartToCheckout)}
+                </td>
+                <td className="tw-px-4 tw-py-3 tw-text-slate-900">
+                  {pct(row.viewToCheckout)}
+                </td>
+                <td className="tw-px-4 tw-py-3 tw-text-slate-900">
+                  {row.checkouts.toLocaleString()}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+type GeoMetric = "conversion" | "cartRate";
+type GeoSort = "sessions" | "low" | "rate";
+
+// Interval bar on a shared 0..scale axis, with the all-country rate marked
+function RateInterval({
+  estimate,
+  overall,
+  scale,
+}: {
+  estimate: RateEstimate;
+  overall: number;
+  scale: number;
+}) {
+  const at = (v: number) => `${(clamp(v / scale, 0, 1) * 100).toFixed(1)}%`;
+  const tone =
+    estimate.significant === "above"
+      ? "tw-bg-emerald-500"
+      : estimate.significant === "below"
+      ? "tw-bg-rose-500"
+      : "tw-bg-slate-400";
+  return (
+    <div className="tw-relative tw-h-3 tw-w-40 tw-rounded tw-bg-slate-100">
+      <div
+        className={`tw-absolute tw-top-1 tw-h-1 tw-rounded ${tone}`}
+        style={{
+          left: at(estimate.low),
+          width: `calc(${at(estimate.high)} - ${at(estimate.low)})`,
+        }}
+      />
+      <div
+        className={`tw-absolute tw-top-0.5 tw-h-2 tw-w-2 -tw-translate-x-1 tw-rounded-full ${tone}`}
+        style={{ left: at(estimate.rate) }}
+      />
+      <div
+        className="tw-absolute tw-top-0 tw-h-3 tw-w-px tw-bg-slate-900"
+        style={{ left: at(overall) }}
+        title={`All countries: ${pct(overall)}`}
+      />
+    </div>
+  );
+}
+
+function GeoFunnel({ data }: ChartProps) {
+  const [metric, setMetric] = useState<GeoMetric>("conversion");
+  const [minSessions, setMinSessions] = useState(30);
+  const [sortBy, setSortBy] = useState<GeoSort>("low");
+
+  const geo = data.geoInsights;
+  const overall = geo.overall[metric];
+  const rows = useMemo(() => {
+    const key = (row: (typeof geo.countries)[number]) =>
+      sortBy === "sessions"
+        ? row.sessions
+        : sortBy === "low"
+        ? row[metric].low
+        : row[metric].rate;
+    return geo.countries
+      .filter((row) => row.sessions >= minSessions)
+      .sort((a, b) => key(b) - key(a) || b.sessions - a.sessions);
+  }, [geo, metric, minSessions, sortBy]);
+  const scale = Math.max(overall.high, ...rows.map((row) => row[metric].high));
+  const hidden = geo.countries.length - rows.length;
+
+  if (!geo.countries.length)
+    return <p className="muted">No sessions in this range yet.</p>;
+
+  return (
+    <div className="tw-space-y-4">
+      <div className="tw-flex tw-flex-wrap tw-items-center tw-justify-between tw-gap-2">
+        <p className="tw-text-sm tw-text-slate-800">
+          All countries: {pct(overall.rate)} ({pct(overall.low)}–
+          {pct(overall.high)}) of sessions{" "}
+          {metric === "conversion" ? "check out" : "add to cart"};{" "}
+          {Math.round(geo.confidence * 100)}% Wilson intervals, coloured when a
+          country differs significantly from the rest after correcting for the
+          number of countries
+        </p>
+        <div className="tw-flex tw-items-center tw-gap-2">
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as GeoMetric)}
+            className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+          >
+            <option value="conversion">Checkout conversion</option>
+            <option value="cartRate">Cart add rate</option>
+          </select>
+          <select
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as GeoSort)}
+            className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+          >
+            <option value="low">Sort by lower bound</option>
+            <option value="rate">Sort by rate</option>
+            <option value="sessions">Sort by sessions</option>
+          </select>
+          <select
+            value={minSessions}
+            onChange={(e) => setMinSessions(Number(e.target.value))}
+            className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+          >
+            {[1, 10, 30, 100, 500].map((n) => (
+              <option key={n} value={n}>
+                ≥ {n} sessions
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {rows.length ? (
+        <div className="tw-overflow-x-auto">
+          <table className="tw-min-w-full tw-divide-y tw-divide-slate-800 tw-text-sm">
+            <thead className="tw-bg-slate-900/60 tw-text-left tw-text-xs tw-uppercase tw-tracking-wide tw-text-slate-100">
+              <tr>
+                <th className="tw-px-4 tw-py-3">Country</th>
+                <th className="tw-px-4 tw-py-3">Sessions</th>
+                <th className="tw-px-4 tw-py-3">Viewed</th>
+                <th className="tw-px-4 tw-py-3">Carted</th>
+                <th className="tw-px-4 tw-py-3">Checked out</th>
+                <th className="tw-px-4 tw-py-3">Leak</th>
+                <th className="tw-px-4 tw-py-3">
+                  {metric === "conversion" ? "Conversion" : "Cart rate"}
+                </th>
+                <th className="tw-px-4 tw-py-3">Interval</th>
+                <th className="tw-px-4 tw-py-3">vs rest</th>
+              </tr>
+            </thead>
+            <tbody className="tw-divide-y tw-divide-slate-800">
+              {rows.map((row) => {
+                const estimate = row[metric];
+                return (
+                  <tr key={row.country}>
+                    <td className="tw-px-4 tw-py-3 tw-font-medium tw-text-slate-900">
+                      {row.country}
+                    </td>
+                    <td className="tw-px-4 tw-py-3 tw-text-slate-900">
+                      {row.sessions.toLocaleString()}
+                    </td>
+                    <td className="tw-px-4 tw-py-3 tw-text-slate-900">
+                      {row.viewSessions.toLocaleString()}
+                    </td>
+                    <td className="tw-px-4 tw-py-3 tw-text-slate-900">
+                      {row.cartSessions.toLocaleString()}
+                    </td>
+                    <td className="tw-px-4 tw-py-3 tw-text-slate-900">
+                      {row.checkoutSessions.toLocaleString()}
+                    </td>
+                    <td className="tw-px-4 tw-py-3 tw-text-rose-600">
+                      {pct(row.leak)}
+                    </td>
+                    <td className="tw-px-4 tw-py-3 tw-text-slate-900">
+                      {pct(estimate.rate)}
+                      <span className="tw-ml-1 tw-text-xs tw-text-slate-500">
+                        {pct(estimate.low)}–{pct(estimate.high)}
+                      </span>
+                    </td>
+                    <td className="tw-px-4 tw-py-3">
+                      <RateInterval
+                        estimate={estimate}
+                        overall={overall.rate}
+                        scale={scale}
+                      />
+                    </td>
+                    <td
+                      className={`tw-px-4 tw-py-3 ${
+                        estimate.significant === "above"
+                          ? "tw-text-emerald-600"
+                          : estimate.significant === "below"
+                          ? "tw-text-rose-600"
+                          : "tw-text-slate-500"
+                      }`}
+                    >
+                      {estimate.significant === "above"
+                        ? "▲ higher"
+                        : estimate.significant === "below"
+                        ? "▼ lower"
+                        : "–"}
+                      {estimate.pValue != null && (
+                        <span className="tw-ml-1 tw-text-xs tw-text-slate-500">
+                          p=
+                          {estimate.pValue < 0.001
+                            ? "<0.001"
+                            : estimate.pValue.toFixed(3)}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="muted">No country has {minSessions} sessions yet.</p>
+      )}
+      {hidden > 0 && rows.length > 0 && (
+        <p className="tw-text-xs tw-text-slate-500">
+          {hidden} {hidden === 1 ? "country" : "countries"} below the minimum
+          sample hidden.
+        </p>
+      )}
+    </div>
+  );
+}
+
+const latencySteps: Record<LatencyStep, string> = {
+  viewToCart: "First view → cart add",
+  cartToCheckout: "Cart add → checkout",
+  cartToRemove: "Cart add → cart remove",
+};
+
+// Box from p25 to p75 with whiskers at p10/p90, on a log time axis
+function LatencyBox({
+  stats,
+  maxSeconds,
+}: {
+  stats: LatencyStats;
+  maxSeconds: number;
+}) {
+  const x = (seconds: number | null) =>
+    (Math.log10(Math.max(seconds ?? 1, 1)) /
+      Math.log10(Math.max(maxSeconds, 10))) *
+    100;
+  if (!stats.count) return <div className="tw-h-4" />;
+  return (
+    <svg
+      viewBox="0 0 100 16"
+      preserveAspectRatio="none"
+      className="tw-h-4 tw-w-full"
+    >
+      <line
+        x1={x(stats.p10Seconds)}
+        x2={x(stats.p90Seconds)}
+        y1={8}
+        y2={8}
+        stroke="#94a3b8"
+        strokeWidth={0.5}
+      />
+      <rect
+        x={x(stats.p25Seconds)}
+        y={2}
+        width={Math.max(0.5, x(stats.p75Seconds) - x(stats.p25Seconds))}
+        height={12}
+        fill="#bae6fd"
+        stroke="#0284c7"
+        strokeWidth={0.5}
+      />
+      <line
+        x1={x(stats.medianSeconds)}
+        x2={x(stats.medianSeconds)}
+        y1={2}
+        y2={14}
+        stroke="#0f172a"
+        strokeWidth={1}
+      />
+    </svg>
+  );
+}
+
+function JourneyLatency({ data }: ChartProps) {
+  const [step, setStep] = useState<LatencyStep>("viewToCart");
+  const [segment, setSegment] = useState<"tier" | "category">("tier");
+
+  const { latency } = data;
+  const histogram = useMemo(
+    () =>
+      latency.overall[step].histogram.map((count, i) => ({
+        bucket:
+          i < latency.bucketSeconds.length
+            ? `≤ ${duration(latency.bucketSeconds[i])}`
+            : `> ${duration(latency.bucketSeconds[i - 1])}`,
+        Items: count,
+      })),
+    [latency, step]
+  );
+  const rows = useMemo(() => {
+    const segments =
+      segment === "tier"
+        ? (["Low", "Mid", "High", "All"] as PriceTier[])
+            .filter((tier) => latency.byTier[tier])
+            .map((tier) => ({ name: tier, stats: latency.byTier[tier]![step] }))
+        : latency.byCategory
+            .map((row) => ({ name: row.category, stats: row[step] }))
+            .filter((row) => row.stats.count > 0)
+            .slice(0, 10);
+    return [{ name: "Overall", stats: latency.overall[step] }, ...segments];
+  }, [latency, segment, step]);
+  const maxSeconds = Math.max(
+    0,
+    ...rows.map((row) => row.stats.p90Seconds ?? 0)
+  );
+
+  if (!latency.overall[step].count)
+    return <p className="muted">No timed journeys for this step yet.</p>;
+
+  return (
+    <div className="tw-space-y-4">
+      <div className="tw-flex tw-flex-wrap tw-items-center tw-justify-between tw-gap-2">
+        <p className="tw-text-sm tw-text-slate-800">
+          Median {duration(latency.overall[step].medianSeconds)} · p90{" "}
+          {duration(latency.overall[step].p90Seconds)} over{" "}
+          {latency.overall[step].count.toLocaleString()} items
+        </p>
+        <div className="tw-flex tw-items-center tw-gap-2">
+          <select
+            value={step}
+            onChange={(e) => setStep(e.target.value as LatencyStep)}
+            className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+          >
+            {(Object.keys(latencySteps) as LatencyStep[]).map((key) => (
+              <option key={key} value={key}>
+                {latencySteps[key]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={segment}
+            onChange={(e) => setSegment(e.target.value as "tier" | "category")}
+            className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+          >
+            <option value="tier">By price tier</option>
+            <option value="category">By category</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="tw-h-[280px] tw-w-full">
+        <ResponsiveBar
+          data={histogram}
+          keys={["Items"]}
+          indexBy="bucket"
+          margin={{ top: 20, right: 20, bottom: 60, left: 60 }}
+          padding={0.2}
+          colors={["#60a5fa"]}
+          axisBottom={{ tickSize: 5, tickPadding: 5, tickRotation: -35 }}
+          axisLeft={{ tickSize: 5, tickPadding: 5 }}
+          theme={{
+            text: { fill: "#0b3469ff" },
+            tooltip: { container: { background: "#0f172a" } },
+          }}
+          tooltip={({ value, indexValue }: any) => (
+            <div className="tw-rounded-lg tw-bg-slate-900 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100 tw-shadow-lg">
+              <p className="tw-font-medium">{indexValue}</p>
+              <p>{Number(value).toLocaleString()} items</p>
+            </div>
+          )}
+        />
+      </div>
+
+      <div className="tw-overflow-x-auto">
+        <table className="tw-min-w-full tw-divide-y tw-divide-slate-800 tw-text-sm">
+          <thead className="tw-bg-slate-900/60 tw-text-left tw-text-xs tw-uppercase tw-tracking-wide tw-text-slate-100">
+            <tr>
+              <th className="tw-px-4 tw-py-3">
+                {segment === "tier" ? "Price tier" : "Category"}
+              </th>
+              <th className="tw-px-4 tw-py-3">Items</th>
+              <th className="tw-px-4 tw-py-3">Median</th>
+              <th className="tw-px-4 tw-py-3">p90</th>
+              <th className="tw-px-4 tw-py-3 tw-w-1/3">
+                p10 · p25–p75 · p90 (log scale)
+              </th>
+            </tr>
+          </thead>
+          <tbody className="tw-divide-y tw-divide-slate-800">
+            {rows.map((row) => (
+              <tr key={row.name}>
+                <td className="tw-px-4 tw-py-3 tw-font-medium tw-text-slate-900">
+                  {row.name}
+                </td>
+                <td className="tw-px-4 tw-py-3 tw-text-slate-900">
+                  {row.stats.count.toLocaleString()}
+                </td>
+                <td className="tw-px-4 tw-py-3 tw-text-sky-600">
+                  {duration(row.stats.medianSeconds)}
+                </td>
+                <td className="tw-px-4 tw-py-3 tw-text-slate-900">
+                  {duration(row.stats.p90Seconds)}
+                </td>
+                <td className="tw-px-4 tw-py-3">
+                  <LatencyBox stats={row.stats} maxSeconds={maxSeconds} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function RevenueOverview({ data, comparison }: CompareProps) {
+  const { revenue } = data;
+  const before = comparison?.data.revenue;
+  const [breakdown, setBreakdown] = useState<"category" | "brand" | "country">(
+    "category"
+  );
+
+  const chartData = useMemo(
+    () => [
+      {
+        id: "Revenue",
+        data: revenue.byDay.map((r) => ({ x: r.date, y: r.revenue })),
+      },
+    ],
+    [revenue.byDay]
+  );
+
+  const rows = (
+    breakdown === "category"
+      ? revenue.byCategory
+      : breakdown === "brand"
+      ? revenue.byBrand
+      : revenue.byCountry
+  ).slice(0, 8);
+
+  const cards = [
+    {
+      label: "Gross checkout value",
+      value: money(revenue.gross),
+      note: `${revenue.checkouts.toLocaleString()} items checked out`,
+      change: before && delta(revenue.gross, before.gross),
+    },
+    {
+      label: "Average order value",
+      value: money(revenue.averageOrderValue),
+      note: `${revenue.orders.toLocaleString()} sessions with a checkout`,
+      change:
+        before && delta(revenue.averageOrderValue, before.averageOrderValue),
+    },
+    {
+      label: "Revenue per visitor",
+      value: money(revenue.revenuePerVisitor),
+      note: `${data.summary.visitors.toLocaleString()} unique visitors`,
+      change:
+        before && delta(revenue.revenuePerVisitor, before.revenuePerVisitor),
+    },
+    {
+      label: "Lost to cart removals",
+      value: money(revenue.lostToCartRemovals),
+      note: `${revenue.cartRemovals.toLocaleString()} items removed`,
+      change:
+        before && delta(revenue.lostToCartRemovals, before.lostToCartRemovals),
+      lowerIsBetter: true,
+    },
+  ];
+
+  return (
+    <div className="tw-space-y-6">
+      <div className="tw-grid tw-gap-4 sm:tw-grid-cols-2 xl:tw-grid-cols-4">
+        {cards.map((card) => (
+          <div key={card.label} className="tw-card">
+            <h3 className="tw-text-sm tw-uppercase tw-tracking-wide tw-text-slate-400">
+              {card.label}
+            </h3>
+            <p className="tw-mt-2 tw-text-2xl tw-font-semibold">{card.value}</p>
+            {card.change && (
+              <ChangeNote
+                change={card.change}
+                lowerIsBetter={card.lowerIsBetter}
+                formatValue={money}
+              />
+            )}
+            <p className="tw-text-xs tw-text-slate-500 tw-mt-1">{card.note}</p>
+          </div>
+        ))}
+      </div>
+
+      {revenue.byDay.length ? (
+        <div className="tw-h-[320px] tw-w-full">
+          <ResponsiveLine
+            data={chartData}
+            margin={{ top: 30, right: 40, bottom: 60, left: 80 }}
+            xScale={{ type: "point" }}
+            yScale={{ type: "linear", min: 0, max: "auto", stacked: false }}
+            axisBottom={{ tickRotation: -35 }}
+            axisLeft={{ format: (v) => `£${Number(v).toLocaleString()}` }}
+            colors={["#a78bfa"]}
+            pointSize={8}
+            enableArea
+            areaOpacity={0.15}
+            useMesh
+            tooltip={({ point }) => (
+              <div className="tw-rounded-lg tw-bg-slate-900 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100 tw-shadow-lg">
+                {String(point.data.x)}: {money(Number(point.data.y))}
+              </div>
+            )}
+            theme={{ text: { fill: "#e2e8f0" } }}
+          />
+        </div>
+      ) : (
+        <p className="muted">No checkouts in the selected date range.</p>
+      )}
+
+      {rows.length > 0 && (
+        <div className="tw-space-y-3">
+          <div className="tw-flex tw-items-center tw-justify-between">
+            <p className="tw-text-sm tw-text-slate-800">Top revenue by</p>
+            <select
+              value={breakdown}
+              onChange={(e) =>
+                setBreakdown(e.target.value as "category" | "brand" | "country")
+              }
+              className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+            >
+              <option value="category">Category</option>
+              <option value="brand">Brand</option>
+              <option value="country">Country</option>
+            </select>
+          </div>
+          <div className="tw-overflow-x-auto">
+            <table className="tw-min-w-full tw-divide-y tw-divide-slate-800 tw-text-sm">
+              <thead className="tw-bg-slate-900/60 tw-text-left tw-text-xs tw-uppercase tw-tracking-wide tw-text-slate-100">
+                <tr>
+                  <th className="tw-px-4 tw-py-3">{breakdown}</th>
+                  <th className="tw-px-4 tw-py-3">Revenue</th>
+                  <th className="tw-px-4 tw-py-3">Items</th>
+                  <th className="tw-px-4 tw-py-3">Share</th>
+                </tr>
+              </thead>
+              <tbody className="tw-divide-y tw-divide-slate-800">
+                {rows.map((row) => (
+                  <tr key={row.key}>
+                    <td className="tw-px-4 tw-py-3 tw-font-medium tw-text-slate-900">
+                      {row.key}
+                    </td>
+                    <td className="tw-px-4 tw-py-3 tw-text-slate-900">
+                      {money(row.revenue)}
+                    </td>
+                    <td className="tw-px-4 tw-py-3 tw-text-slate-900">
+                      {row.checkouts.toLocaleString()}
+                    </td>
+                    <td className="tw-px-4 tw-py-3 tw-text-violet-600">
+                      {pct(revenue.gross > 0 ? row.revenue / revenue.gross : 0)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <p className="tw-caption">
+        Values use current listing prices, one unit per checked-out item.
+      </p>
+    </div>
+  );
+}
+
+function TransitionHeatmap({ data, comparison }: CompareProps) {
+  const [showChange, setShowChange] = useState(true);
+  const diff = showChange ? comparison : null;
+
+  // Baseline probabilities on the current states; missing states count as 0
+  const changes = useMemo(() => {
+    if (!diff) return [];
+    const { states, probs } = data.transitions;
+    const before = diff.data.transitions;
+    return states.flatMap((src, i) =>
+      states.map((tgt, j) => {
+        const bi = before.states.indexOf(src);
+        const bj = before.states.indexOf(tgt);
+        return {
+          src,
+          tgt,
+          change: delta(
+            probs[i]?.[j] ?? 0,
+            bi >= 0 && bj >= 0 ? before.probs[bi]?.[bj] ?? 0 : 0
+          ),
+        };
+      })
+    );
+  }, [data.transitions, diff]);
+
   const heatmapData = useMemo(() => {
+    if (diff) {
+      return data.transitions.states.map((rowName) => ({
+        id: rowName,
+        data: changes
+          .filter((c) => c.src === rowName)
+          .map((c) => ({ x: c.tgt, y: Number(c.change.change.toFixed(4)) })),
+      }));
+    }
     const { states } = data.transitions;
     const { probs } = data.transitions;
     return states.map((rowName, i) => ({
@@ -423,9 +1018,25 @@ function TransitionHeatmap({ data }: ChartProps) {
         y: Number((probs[i]?.[j] ?? 0).toFixed(4)),
       })),
     }));
-  }, [data.transitions]);
+  }, [data.transitions, diff, changes]);
+  const maxChange = Math.max(
+    0.01,
+    ...changes.map((c) => Math.abs(c.change.change))
+  );
 
   const sentences = useMemo(() => {
+    if (diff) {
+      return changes
+        .filter((c) => Math.abs(c.change.change) >= 0.005)
+        .sort((a, b) => Math.abs(b.change.change) - Math.abs(a.change.change))
+        .slice(0, 6)
+        .map(
+          (c) =>
+            `${stateLabel(c.src)} → ${stateLabel(c.tgt)}: ${pct(
+              c.change.baseline
+            )} → ${pct(c.change.current)} (${signedPoints(c.change.change)}).`
+        );
+    }
     const { states, probs } = data.transitions;
     return states.map((src, i) => {
       const row = probs[i] ?? [];
@@ -451,29 +1062,316 @@ function TransitionHeatmap({ data }: ChartProps) {
         statePhrases[src] ?? src.replace(/_/g, " ")
       }, ${text}.`;
     });
-  }, [data.transitions]);
+  }, [data.transitions, diff, changes]);
 
   if (!heatmapData.length)
     return <p className="muted">Not enough events to chart transitions yet.</p>;
 
   return (
     <div className="tw-space-y-4">
+      {comparison && (
+        <div className="tw-flex tw-justify-end">
+          <select
+            value={showChange ? "change" : "current"}
+            onChange={(e) => setShowChange(e.target.value === "change")}
+            className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+          >
+            <option value="change">Change vs baseline</option>
+            <option value="current">Current period</option>
+          </select>
+        </div>
+      )}
       <div className="tw-h-[360px] tw-w-full">
         <ResponsiveHeatMap
           data={heatmapData}
-          colors={{ type: "quantize", scheme: "blues" } as any}
+          colors={
+            (diff
+              ? {
+                  type: "diverging",
+                  scheme: "red_blue",
+                  divergeAt: 0.5,
+                  minValue: -maxChange,
+                  maxValue: maxChange,
+                }
+              : { type: "quantize", scheme: "blues" }) as any
+          }
           margin={{ top: 20, right: 80, bottom: 80, left: 100 }}
           axisTop={{ tickSize: 5, tickPadding: 5, tickRotation: -35 }}
           axisRight={null}
           axisBottom={{ tickSize: 5, tickPadding: 5, tickRotation: -35 }}
           axisLeft={{ tickSize: 5, tickPadding: 5 }}
+          valueFormat={(v) => (diff ? signedPoints(Number(v)) : pct(Number(v)))}
+          tooltip={({ cell }: any) => {
+            const change = changes.find(
+              (c) => c.src === cell.serieId && c.tgt === cell.data.x
+            )?.change;
+            return (
+              <div className="tw-rounded-lg tw-bg-slate-900 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100 tw-shadow-lg">
+                <p className="tw-font-medium">
+                  {cell.serieId} → {cell.x}
+                </p>
+                {change ? (
+                  <p className="tw-text-emerald-300">
+                    {pct(change.baseline)} → {pct(change.current)} (
+                    {signedPoints(change.change)})
+                  </p>
+                ) : (
+                  <p className="tw-text-emerald-300">
+                    {pct(Number(cell.value))}
+                  </p>
+                )}
+              </div>
+            );
+          }}
+          theme={{
+            tooltip: { container: { background: "#0f172a" } },
+            text: { fill: "#294972ff" },
+          }}
+        />
+      </div>
+
+      <div className="tw-space-y-2 tw-text-sm tw-text-slate-600">
+        {diff && (
+          <p>
+            Largest shifts since {rangeLabel(diff.range)}
+            {sentences.length ? ":" : ": none above 0.5 pp."}
+          </p>
+        )}
+        {sentences.map((s) => (
+          <p key={s}>{s}</p>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const stateLabel = (state: string) => state.replace(/_/g, " ");
+
+function EventualConversion({ data }: ChartProps) {
+  const { absorbing } = data;
+  const [order, setOrder] = useState<1 | 2>(absorbing.order);
+  const rows = (
+    order === 2 && absorbing.secondOrder
+      ? absorbing.secondOrder
+      : absorbing.firstOrder
+  ).slice(0, 15);
+
+  if (!rows.length)
+    return <p className="muted">No sessions in this range yet.</p>;
+
+  return (
+    <div className="tw-space-y-3">
+      <div className="tw-flex tw-flex-wrap tw-items-center tw-justify-between tw-gap-2">
+        <h3 className="tw-text-sm tw-font-semibold tw-text-slate-800">
+          Eventual conversion
+        </h3>
+        {absorbing.secondOrder && (
+          <select
+            value={order}
+            onChange={(e) => setOrder(Number(e.target.value) as 1 | 2)}
+            className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+          >
+            <option value={1}>Last step</option>
+            <option value={2}>Last two steps</option>
+          </select>
+        )}
+      </div>
+      <div className="tw-overflow-x-auto">
+        <table className="tw-min-w-full tw-divide-y tw-divide-slate-800 tw-text-sm">
+          <thead className="tw-bg-slate-900/60 tw-text-left tw-text-xs tw-uppercase tw-tracking-wide tw-text-slate-100">
+            <tr>
+              <th className="tw-px-4 tw-py-3">After</th>
+              <th className="tw-px-4 tw-py-3">Seen</th>
+              <th className="tw-px-4 tw-py-3">Reaches checkout</th>
+              <th className="tw-px-4 tw-py-3">Steps left</th>
+            </tr>
+          </thead>
+          <tbody className="tw-divide-y tw-divide-slate-800">
+            {rows.map((row) => (
+              <tr key={`${row.previous}|${row.state}`}>
+                <td className="tw-px-4 tw-py-3 tw-font-medium tw-text-slate-900">
+                  {row.previous
+                    ? `${stateLabel(row.previous)} → ${stateLabel(row.state)}`
+                    : stateLabel(row.state)}
+                </td>
+                <td className="tw-px-4 tw-py-3 tw-text-slate-900">
+                  {row.transitions.toLocaleString()}
+                </td>
+                <td className="tw-px-4 tw-py-3 tw-text-emerald-600">
+                  {pct(row.pCheckout)}
+                </td>
+                <td className="tw-px-4 tw-py-3 tw-text-slate-900">
+                  {row.expectedSteps.toFixed(1)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="tw-text-xs tw-text-slate-500">
+        Checkout and leaving the site end a session; probabilities follow the
+        observed transitions from each state.
+      </p>
+    </div>
+  );
+}
+
+function TouchpointAttribution({ data }: ChartProps) {
+  const [view, setView] = useState<
+    "byState" | "byCategory" | "byStateCategory"
+  >("byState");
+  const { attribution } = data;
+  const rows = attribution[view].slice(0, 15);
+
+  if (!rows.length)
+    return <p className="muted">No journeys in this range yet.</p>;
+
+  return (
+    <div className="tw-space-y-4">
+      <div className="tw-flex tw-flex-wrap tw-items-center tw-justify-between tw-gap-2">
+        <p className="tw-text-sm tw-text-slate-800">
+          {pct(attribution.baseline)} of journeys reach checkout; each row shows
+          the drop if that touchpoint were taken out
+        </p>
+        <select
+          value={view}
+          onChange={(e) => setView(e.target.value as typeof view)}
+          className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+        >
+          <option value="byState">By step</option>
+          <option value="byCategory">By category</option>
+          <option value="byStateCategory">By step and category</option>
+        </select>
+      </div>
+      <div className="tw-overflow-x-auto">
+        <table className="tw-min-w-full tw-divide-y tw-divide-slate-800 tw-text-sm">
+          <thead className="tw-bg-slate-900/60 tw-text-left tw-text-xs tw-uppercase tw-tracking-wide tw-text-slate-100">
+            <tr>
+              <th className="tw-px-4 tw-py-3">Touchpoint</th>
+              <th className="tw-px-4 tw-py-3">Checkout probability drop</th>
+              <th className="tw-px-4 tw-py-3">Relative drop</th>
+              <th className="tw-px-4 tw-py-3 tw-w-1/3">Attribution share</th>
+            </tr>
+          </thead>
+          <tbody className="tw-divide-y tw-divide-slate-800">
+            {rows.map((row) => (
+              <tr key={`${row.state}|${row.category}`}>
+                <td className="tw-px-4 tw-py-3 tw-font-medium tw-text-slate-900">
+                  {[row.state && stateLabel(row.state), row.category]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </td>
+                <td className="tw-px-4 tw-py-3 tw-text-slate-900">
+                  {(row.removalEffect * 100).toFixed(1)} pts
+                </td>
+                <td className="tw-px-4 tw-py-3 tw-text-rose-600">
+                  {pct(row.relativeEffect)}
+                </td>
+                <td className="tw-px-4 tw-py-3">
+                  <div className="tw-flex tw-items-center tw-gap-2">
+                    <div className="tw-h-2 tw-flex-1 tw-rounded tw-bg-slate-100">
+                      <div
+                        className="tw-h-2 tw-rounded tw-bg-sky-500"
+                        style={{ width: pct(row.share) }}
+                      />
+                    </div>
+                    <span className="tw-w-12 tw-text-right tw-text-slate-900">
+                      {pct(row.share)}
+                    </span>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+type CohortMetric = "returnRate" | "repeatCartAddRate" | "repeatCheckoutRate";
+
+const cohortMetrics: Record<CohortMetric, string> = {
+  returnRate: "Came back",
+  repeatCartAddRate: "Added to cart",
+  repeatCheckoutRate: "Checked out",
+};
+
+function CohortRetentionHeatmap({ data }: ChartProps) {
+  const [period, setPeriod] = useState<CohortPeriod>("week");
+  const [metric, setMetric] = useState<CohortMetric>("returnRate");
+
+  const cohorts = useMemo(
+    () => data.cohorts[period].slice(-12),
+    [data.cohorts, period]
+  );
+  const heatmapData = useMemo(() => {
+    const width = Math.max(0, ...cohorts.map((row) => row.periods.length));
+    const label = period === "week" ? "Week" : "Month";
+    return cohorts.map((row) => ({
+      id: `${row.cohort} (${row.visitors})`,
+      // Periods not reached yet stay empty, which gives the triangle
+      data: Array.from({ length: width }, (_, offset) => {
+        const cell = row.periods[offset];
+        return {
+          x: `${label} ${offset}`,
+          y: cell ? Number(cell[metric].toFixed(4)) : null,
+        };
+      }),
+    }));
+  }, [cohorts, metric, period]);
+
+  if (!heatmapData.length)
+    return <p className="muted">No identified visitors in this range yet.</p>;
+
+  return (
+    <div className="tw-space-y-4">
+      <div className="tw-flex tw-flex-wrap tw-items-center tw-justify-between tw-gap-2">
+        <p className="tw-text-sm tw-text-slate-800">
+          Share of each cohort (first seen, visitors) active in later{" "}
+          {period === "week" ? "weeks" : "months"}
+        </p>
+        <div className="tw-flex tw-items-center tw-gap-2">
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as CohortPeriod)}
+            className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+          >
+            <option value="week">Weekly cohorts</option>
+            <option value="month">Monthly cohorts</option>
+          </select>
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as CohortMetric)}
+            className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+          >
+            {(Object.keys(cohortMetrics) as CohortMetric[]).map((key) => (
+              <option key={key} value={key}>
+                {cohortMetrics[key]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="tw-h-[360px] tw-w-full">
+        <ResponsiveHeatMap
+          data={heatmapData}
+          colors={{ type: "quantize", scheme: "greens" } as any}
+          emptyColor="#f1f5f9"
+          margin={{ top: 60, right: 40, bottom: 20, left: 140 }}
+          axisTop={{ tickSize: 5, tickPadding: 5, tickRotation: -35 }}
+          axisRight={null}
+          axisLeft={{ tickSize: 5, tickPadding: 5 }}
           valueFormat={(v) => pct(Number(v))}
           tooltip={({ cell }: any) => (
             <div className="tw-rounded-lg tw-bg-slate-900 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100 tw-shadow-lg">
               <p className="tw-font-medium">
-                {cell.serieId} → {cell.x}
+                {cell.serieId} · {cell.x}
+              </p>
+              <p className="tw-text-emerald-300">
+                {cohortMetrics[metric]}: {pct(Number(cell.value))}
               </p>
-              <p className="tw-text-emerald-300">{pct(Number(cell.value))}</p>
             </div>
           )}
           theme={{
@@ -482,12 +1380,11 @@ function TransitionHeatmap({ data }: ChartProps) {
           }}
         />
       </div>
-
-      <div className="tw-space-y-2 tw-text-sm tw-text-slate-600">
-        {sentences.map((s) => (
-          <p key={s}>{s}</p>
-        ))}
-      </div>
+      <p className="tw-text-xs tw-text-slate-500">
+        Visitors are assigned to the period they were first seen in the selected
+        date range; the earliest cohort also holds returning visitors from
+        before it.
+      </p>
     </div>
   );
 }
@@ -576,17 +1473,30 @@ function SankeyFlow({ data }: ChartProps) {
   );
 }
 
-function PriceBandsChart({ data }: ChartProps) {
+function PriceBandsChart({ data, comparison }: CompareProps) {
+  const [showChange, setShowChange] = useState(true);
+  const diff = showChange ? comparison : null;
+
   const chartData = useMemo(
     () =>
-      data.priceBands.bands.map((b) => ({
-        band: b.name,
-        "View → Cart %": b.viewToCart * 100,
-        "Wishlist → Cart %": b.wishToCart * 100,
-        nView: b.nView,
-        nWish: b.nWish,
-      })),
-    [data.priceBands]
+      data.priceBands.bands.map((b) => {
+        // Bands come from catalogue prices, so names match across ranges
+        const before = diff?.data.priceBands.bands.find(
+          (row) => row.name === b.name
+        );
+        const baseView = diff ? before?.viewToCart ?? 0 : 0;
+        const baseWish = diff ? before?.wishToCart ?? 0 : 0;
+        return {
+          band: b.name,
+          "View → Cart %": (b.viewToCart - baseView) * 100,
+          "Wishlist → Cart %": (b.wishToCart - baseWish) * 100,
+          nView: b.nView,
+          nWish: b.nWish,
+          "View → Cart % baseline": baseView,
+          "Wishlist → Cart % baseline": baseWish,
+        };
+      }),
+    [data.priceBands, diff]
   );
 
   if (!chartData.length)
@@ -596,40 +1506,71 @@ function PriceBandsChart({ data }: ChartProps) {
       </p>
     );
 
+  const unit = diff ? " pp" : "%";
+
   return (
-    <div className="tw-h-[420px] tw-w-full">
-      <ResponsiveBar
-        data={chartData}
-        keys={["View → Cart %", "Wishlist → Cart %"]}
-        indexBy="band"
-        margin={{ top: 40, right: 100, bottom: 60, left: 60 }}
-        padding={0.4}
-        groupMode="grouped"
-        colors={["#34d399", "#60a5fa"]}
-        axisBottom={{ tickSize: 5, tickPadding: 5 }}
-        axisLeft={{
-          tickSize: 5,
-          tickPadding: 5,
-          format: (v) => `${v}%` as any,
-        }}
-        valueFormat={(v) => `${Number(v).toFixed(1)}%`}
-        theme={{
-          text: { fill: "#0b3469ff" },
-          tooltip: { container: { background: "#0f172a" } },
-        }}
-        tooltip={({ value, indexValue, id, data: raw }: any) => (
-          <div className="tw-rounded-lg tw-bg-slate-900 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-500 tw-shadow-lg">
-            <p className="tw-font-medium">{indexValue}</p>
-            <p>
-              {String(id)}: {Number(value).toFixed(1)}%
-            </p>
-            <p className="tw-text-xs tw-text-slate-600">
-              Views n={raw.nView?.toLocaleString?.() ?? 0}, Wishlist n=
-              {raw.nWish?.toLocaleString?.() ?? 0}
-            </p>
-          </div>
-        )}
-      />
+    <div className="tw-space-y-4">
+      {comparison && (
+        <div className="tw-flex tw-items-center tw-justify-between tw-gap-2">
+          <p className="tw-text-sm tw-text-slate-700">
+            {diff
+              ? `Change in conversion since ${rangeLabel(diff.range)}`
+              : "Current period"}
+          </p>
+          <select
+            value={showChange ? "change" : "current"}
+            onChange={(e) => setShowChange(e.target.value === "change")}
+            className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+          >
+            <option value="change">Change vs baseline</option>
+            <option value="current">Current period</option>
+          </select>
+        </div>
+      )}
+      <div className="tw-h-[420px] tw-w-full">
+        <ResponsiveBar
+          data={chartData}
+          keys={["View → Cart %", "Wishlist → Cart %"]}
+          indexBy="band"
+          margin={{ top: 40, right: 100, bottom: 60, left: 60 }}
+          padding={0.4}
+          groupMode="grouped"
+          colors={["#34d399", "#60a5fa"]}
+          axisBottom={{ tickSize: 5, tickPadding: 5 }}
+          axisLeft={{
+            tickSize: 5,
+            tickPadding: 5,
+            format: (v) => `${v}${unit}` as any,
+          }}
+          valueFormat={(v) =>
+            `${diff && Number(v) > 0 ? "+" : ""}${Number(v).toFixed(1)}${unit}`
+          }
+          theme={{
+            text: { fill: "#0b3469ff" },
+            tooltip: { container: { background: "#0f172a" } },
+          }}
+          tooltip={({ value, indexValue, id, data: raw }: any) => (
+            <div className="tw-rounded-lg tw-bg-slate-900 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-500 tw-shadow-lg">
+              <p className="tw-font-medium">{indexValue}</p>
+              {diff ? (
+                <p>
+                  {String(id)}: {pct(raw[`${id} baseline`])} →{" "}
+                  {pct(raw[`${id} baseline`] + Number(value) / 100)} (
+                  {signedPoints(Number(value) / 100)})
+                </p>
+              ) : (
+                <p>
+                  {String(id)}: {Number(value).toFixed(1)}%
+                </p>
+              )}
+              <p className="tw-text-xs tw-text-slate-600">
+                Views n={raw.nView?.toLocaleString?.() ?? 0}, Wishlist n=
+                {raw.nWish?.toLocaleString?.() ?? 0}
+              </p>
+            </div>
+          )}
+        />
+      </div>
     </div>
   );
 }
@@ -647,14 +1588,11 @@ function DayInteractionDetails({
   const dayData = useMemo(() => {
     if (!selectedDate) return null;
 
-    // Get sessions for the selected date
-    const dayStart = new Date(selectedDate + "T00:00:00");
-    const dayEnd = new Date(selectedDate + "T23:59:59");
-
-    const daySessions = data.sessions.filter((session) => {
-      const sessionDate = new Date(session.ts);
-      return sessionDate >= dayStart && sessionDate <= dayEnd;
-    });
+    // Get sessions for the selected date, in the reporting time zone
+    const daySessions = data.sessions.filter(
+      (session) =>
+        zonedDay(new Date(session.ts), data.timeZone) === selectedDate
+    );
 
     if (!daySessions.length) return null;
 
@@ -688,7 +1626,10 @@ function DayInteractionDetails({
       totalCarts: daySeriesData?.carts || 0,
       allCategories: categoryArray,
       categories: categoryArray.slice(0, topCount),
-      isAnomaly: data.daily.anomaly.outliers.includes(selectedDate),
+      anomalies: data.daily.anomalies.filter((a) => a.date === selectedDate),
+      isAnomaly:
+        data.daily.anomaly.outliers.includes(selectedDate) ||
+        data.daily.anomalies.some((a) => a.date === selectedDate),
     };
   }, [data, selectedDate, topCount]);
 
@@ -827,28 +1768,264 @@ function DayInteractionDetails({
         <div className="tw-rounded-lg tw-border tw-border-red-500/30 tw-bg-red-500/10 tw-p-4">
           <p className="tw-text-sm tw-text-red-300">
             <span className="tw-font-medium">Anomaly Detected:</span> This day
-            had unusually high or low cart activity compared to the normal
-            range.
+            had unusually high or low activity compared to the normal range.
           </p>
+          {dayData.anomalies.length > 0 && (
+            <ul className="tw-mt-2 tw-list-disc tw-space-y-1 tw-pl-5 tw-text-xs tw-text-red-300">
+              {dayData.anomalies.map((a) => (
+                <li key={`${a.metric}|${a.detector}`}>
+                  {a.explanation} ({anomalyDetectors[a.detector]})
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       )}
     </div>
   );
 }
 
-function DailyTrends({ data }: ChartProps) {
+type TrendView = "traffic" | "checkouts" | "conversion";
+
+const trendViews: Record<
+  TrendView,
+  {
+    label: string;
+    lines: Array<{ id: string; metric: DailyMetric; color: string }>;
+  }
+> = {
+  traffic: {
+    label: "Views & carts",
+    lines: [
+      { id: "Views", metric: "views", color: "#38bdf8" },
+      { id: "Carts", metric: "carts", color: "#34d399" },
+    ],
+  },
+  checkouts: {
+    label: "Checkouts",
+    lines: [{ id: "Checkouts", metric: "checkouts", color: "#a78bfa" }],
+  },
+  conversion: {
+    label: "Conversion rate",
+    lines: [{ id: "Conversion", metric: "conversion", color: "#a78bfa" }],
+  },
+};
+
+const isForecastMetric = (metric: DailyMetric): metric is ForecastMetric =>
+  metric !== "conversion";
+
+const anomalyDetectors: Record<AnomalyDetectorName, string> = {
+  mad: "rolling median/MAD",
+  stl: "seasonal decomposition",
+  ewma: "EWMA control chart",
+};
+
+const severityColors: Record<DailyAnomaly["severity"], string> = {
+  low: "#facc15",
+  medium: "#fb923c",
+  high: "#f43f5e",
+};
+
+type BaselineLayout = "overlay" | "side" | "hidden";
+
+function DailyTrends({ data, comparison }: CompareProps) {
   const series = data.daily.series;
   const anomaly = data.daily.anomaly;
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [view, setView] = useState<TrendView>("traffic");
+  const [detector, setDetector] = useState<AnomalyDetectorName | "all">("all");
+  const [showForecast, setShowForecast] = useState(true);
+  const [layout, setLayout] = useState<BaselineLayout>("overlay");
 
+  const lines = trendViews[view].lines;
+  const forecast = data.daily.forecast;
+  // Each forecast starts at the last observed point so the dashes connect
+  const forecasts = useMemo(() => {
+    const last = series[series.length - 1];
+    if (!showForecast || !last) return [];
+    return lines.flatMap((line) => {
+      const metric = line.metric;
+      const result = isForecastMetric(metric) ? forecast.metrics[metric] : null;
+      if (!result) return [];
+      return [
+        {
+          id: `${line.id} forecast`,
+          color: line.color,
+          points: [
+            {
+              date: last.date,
+              value: last[metric],
+              lower: last[metric],
+              upper: last[metric],
+            },
+            ...result.points.map((point, index) => ({
+              date: forecast.dates[index],
+              ...point,
+            })),
+          ],
+        },
+      ];
+    });
+  }, [series, lines, forecast, showForecast]);
+  // Baseline days shifted onto the current range (day n onto day n); days
+  // past the end of the current series are dropped
+  const baselineLines = useMemo(() => {
+    if (!comparison || layout === "hidden") return [];
+    const shown = new Set(series.map((r) => r.date));
+    return lines.map((line) => ({
+      id: `${line.id} baseline`,
+      color: line.color,
+      data: comparison.data.daily.series
+        .map((r) => ({
+          x: alignToRange(r.date, comparison.range, comparison.current),
+          y: r[line.metric],
+          date: r.date,
+        }))
+        .filter((point) => shown.has(point.x)),
+    }));
+  }, [comparison, layout, series, lines]);
   const chartData = useMemo(
     () => [
-      { id: "Views", data: series.map((r) => ({ x: r.date, y: r.views })) },
-      { id: "Carts", data: series.map((r) => ({ x: r.date, y: r.carts })) },
+      ...lines.map((line) => ({
+        id: line.id,
+        color: line.color,
+        data: series.map((r) => ({ x: r.date, y: r[line.metric] })),
+      })),
+      ...forecasts.map((f) => ({
+        id: f.id,
+        color: f.color,
+        data: f.points.map((point) => ({ x: point.date, y: point.value })),
+      })),
+      ...(layout === "overlay" ? baselineLines : []),
     ],
-    [series]
+    [series, lines, forecasts, layout, baselineLines]
+  );
+  const forecastBands = useMemo(
+    () =>
+      new Map(
+        forecasts.flatMap((f) =>
+          f.points
+            .slice(1)
+            .map((point) => [
+              `${f.id}|${point.date}`,
+              `${Math.round(point.lower)}–${Math.round(point.upper)}`,
+            ])
+        )
+      ),
+    [forecasts]
+  );
+  const forecastMax = Math.max(
+    0,
+    ...forecasts.flatMap((f) => f.points.map((point) => point.upper)),
+    ...series.flatMap((r) => lines.map((line) => r[line.metric])),
+    ...baselineLines.flatMap((b) => b.data.map((point) => point.y))
+  );
+  // Period totals; conversion compares the whole-range session rates
+  const periodChanges = comparison
+    ? lines.map((line) => ({
+        id: line.id,
+        change:
+          line.metric === "conversion"
+            ? delta(
+                data.funnel.overall.conversion,
+                comparison.data.funnel.overall.conversion
+              )
+            : delta(
+                series.reduce((sum, r) => sum + r[line.metric], 0),
+                comparison.data.daily.series.reduce(
+                  (sum, r) => sum + r[line.metric],
+                  0
+                )
+              ),
+      }))
+    : [];
+  // Prediction bands under dashed forecast lines; history stays solid
+  const lineLayer = useCallback(
+    ({ series: computed, lineGenerator, xScale, yScale }: any) => (
+      <g>
+        {forecasts.map((f) => {
+          const upper = f.points.map((point) => ({
+            x: xScale(point.date),
+            y: yScale(point.upper),
+          }));
+          const lower = f.points
+            .map((point) => ({ x: xScale(point.date), y: yScale(point.lower) }))
+            .reverse();
+          return (
+            <path
+              key={`${f.id} band`}
+              d={`${lineGenerator(upper)}L${lineGenerator(lower)?.slice(1)}Z`}
+              fill={f.color}
+              fillOpacity={0.15}
+              stroke="none"
+            />
+          );
+        })}
+        {computed.map((serie: any) => (
+          <path
+            key={serie.id}
+            d={lineGenerator(serie.data.map((d: any) => d.position))}
+            fill="none"
+            stroke={serie.color}
+            strokeWidth={2}
+            strokeOpacity={String(serie.id).endsWith(" baseline") ? 0.6 : 1}
+            strokeDasharray={
+              String(serie.id).endsWith(" forecast")
+                ? "6 4"
+                : String(serie.id).endsWith(" baseline")
+                ? "2 4"
+                : undefined
+            }
+          />
+        ))}
+      </g>
+    ),
+    [forecasts]
+  );
+  const anomalies = useMemo(
+    () =>
+      data.daily.anomalies.filter(
+        (a) =>
+          (detector === "all" || a.detector === detector) &&
+          lines.some((line) => line.metric === a.metric)
+      ),
+    [data.daily.anomalies, detector, lines]
+  );
+  // Worst finding per line and day, drawn as a ring around the point
+  const anomalyLayer = useCallback(
+    ({ points }: any) => {
+      const worst = new Map<string, DailyAnomaly>();
+      const rank = { low: 0, medium: 1, high: 2 };
+      for (const a of anomalies) {
+        const id = lines.find((line) => line.metric === a.metric)?.id;
+        const key = `${id}|${a.date}`;
+        const current = worst.get(key);
+        if (!current || rank[a.severity] > rank[current.severity]) {
+          worst.set(key, a);
+        }
+      }
+      return (
+        <g>
+          {points.map((point: any) => {
+            const a = worst.get(`${point.serieId}|${point.data.x}`);
+            if (!a) return null;
+            return (
+              <circle
+                key={point.id}
+                cx={point.x}
+                cy={point.y}
+                r={9}
+                fill="none"
+                stroke={severityColors[a.severity]}
+                strokeWidth={3}
+              />
+            );
+          })}
+        </g>
+      );
+    },
+    [anomalies, lines]
   );
-
   if (!series.length)
     return (
       <p className="muted">
@@ -863,83 +2040,315 @@ function DailyTrends({ data }: ChartProps) {
 
   return (
     <div className="tw-space-y-6">
-      <div className="tw-h-[360px] tw-w-full">
-        <ResponsiveLine
-          data={chartData}
-          margin={{ top: 40, right: 40, bottom: 60, left: 60 }}
-          xScale={{ type: "point" }}
-          yScale={{ type: "linear", min: "auto", max: "auto", stacked: false }}
-          axisBottom={{ tickRotation: -35 }}
-          colors={["#38bdf8", "#34d399"]}
-          pointSize={10}
-          pointColor={{ from: "color", modifiers: [] } as any}
-          pointBorderWidth={2}
-          pointBorderColor={
-            { from: "color", modifiers: [["darker", 0.4]] } as any
+      <div className="tw-flex tw-flex-wrap tw-items-center tw-justify-end tw-gap-2">
+        <select
+          value={view}
+          onChange={(e) => setView(e.target.value as TrendView)}
+          className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+        >
+          {(Object.keys(trendViews) as TrendView[]).map((key) => (
+            <option key={key} value={key}>
+              {trendViews[key].label}
+            </option>
+          ))}
+        </select>
+        <label className="tw-flex tw-items-center tw-gap-2 tw-text-sm tw-text-slate-700">
+          <input
+            type="checkbox"
+            checked={showForecast}
+            onChange={(e) => setShowForecast(e.target.checked)}
+          />
+          Forecast
+        </label>
+        {comparison && (
+          <select
+            value={layout}
+            onChange={(e) => setLayout(e.target.value as BaselineLayout)}
+            className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+          >
+            <option value="overlay">Overlay baseline</option>
+            <option value="side">Baseline side by side</option>
+            <option value="hidden">Hide baseline</option>
+          </select>
+        )}
+        <select
+          value={detector}
+          onChange={(e) =>
+            setDetector(e.target.value as AnomalyDetectorName | "all")
           }
-          enableSlices="x"
-          sliceTooltip={({ slice }: any) => {
-            const date = slice.points[0]?.data?.x;
-            return (
-              <div className="tw-rounded-lg tw-bg-slate-900 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100 tw-shadow-lg tw-border tw-border-slate-600">
-                <div className="tw-space-y-1">
-                  <p className="tw-font-medium tw-text-center">{date}</p>
-                  {slice.points.map((point: any) => (
-                    <div
-                      key={point.serieId}
-                      className="tw-flex tw-items-center tw-gap-2"
-                    >
+          className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+        >
+          <option value="all">All detectors</option>
+          {data.daily.detectors.names.map((name) => (
+            <option key={name} value={name}>
+              {anomalyDetectors[name]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div
+        className={
+          layout === "side" && baselineLines.length
+            ? "tw-grid tw-gap-4 xl:tw-grid-cols-2"
+            : undefined
+        }
+      >
+        <div className="tw-h-[360px] tw-w-full">
+          <ResponsiveLine
+            data={chartData}
+            margin={{ top: 40, right: 40, bottom: 60, left: 60 }}
+            xScale={{ type: "point" }}
+            yScale={{
+              type: "linear",
+              min: "auto",
+              max: forecasts.length || layout === "side" ? forecastMax : "auto",
+              stacked: false,
+            }}
+            yFormat={view === "conversion" ? (v) => pct(Number(v)) : undefined}
+            axisBottom={{ tickRotation: -35 }}
+            colors={{ datum: "color" }}
+            pointSize={10}
+            pointColor={{ from: "color", modifiers: [] } as any}
+            pointBorderWidth={2}
+            pointBorderColor={
+              { from: "color", modifiers: [["darker", 0.4]] } as any
+            }
+            enableSlices="x"
+            sliceTooltip={({ slice }: any) => {
+              const date = slice.points[0]?.data?.x;
+              return (
+                <div className="tw-rounded-lg tw-bg-slate-900 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100 tw-shadow-lg tw-border tw-border-slate-600">
+                  <div className="tw-space-y-1">
+                    <p className="tw-font-medium tw-text-center">{date}</p>
+                    {slice.points.map((point: any) => (
                       <div
-                        className="tw-w-3 tw-h-3 tw-rounded-full"
-                        style={{ backgroundColor: point.serieColor }}
-                      />
-                      <span>
-                        {point.serieId}: {Number(point.data.y).toLocaleString()}
-                      </span>
-                    </div>
-                  ))}
-                  <button
-                    onClick={(e) => {
-                      e.preventDefault();
-                      e.stopPropagation();
-                      if (date) {
-                        setSelectedDate(date as string);
-                      }
-                    }}
-                    onMouseDown={(e) => {
-                      e.preventDefault();
-                      e.stopPropagation();
-                      if (date) {
-                        setSelectedDate(date as string);
-                      }
-                    }}
-                    className="tw-w-full tw-mt-2 tw-px-2 tw-py-1 tw-text-xs tw-bg-blue-600 hover:tw-bg-blue-500 tw-text-white tw-rounded tw-transition-colors tw-cursor-pointer"
-                  >
-                    🖱️ Click for details
-                  </button>
+                        key={point.serieId}
+                        className="tw-flex tw-items-center tw-gap-2"
+                      >
+                        <div
+                          className="tw-w-3 tw-h-3 tw-rounded-full"
+                          style={{ backgroundColor: point.serieColor }}
+                        />
+                        <span>
+                          {point.serieId}:{" "}
+                          {view === "conversion"
+                            ? pct(Number(point.data.y))
+                            : Number(point.data.y).toLocaleString(undefined, {
+                                maximumFractionDigits: 1,
+                              })}
+                          {forecastBands.has(`${point.serieId}|${date}`) &&
+                            ` (${forecastBands.get(
+                              `${point.serieId}|${date}`
+                            )})`}
+                          {point.data.date && ` on ${point.data.date}`}
+                        </span>
+                      </div>
+                    ))}
+                    {anomalies
+                      .filter((a) => a.date === date)
+                      .map((a) => (
+                        <p
+                          key={`${a.metric}|${a.detector}`}
+                          className="tw-max-w-xs tw-text-xs"
+                          style={{ color: severityColors[a.severity] }}
+                        >
+                          {a.direction === "spike" ? "▲" : "▼"}{" "}
+                          {anomalyDetectors[a.detector]}: {a.explanation}
+                        </p>
+                      ))}
+                    {!forecast.dates.includes(date) && (
+                      <button
+                        onClick={(e) => {
+                          e.preventDefault();
+                          e.stopPropagation();
+                          if (date) {
+                            setSelectedDate(date as string);
+                          }
+                        }}
+                        onMouseDown={(e) => {
+                          e.preventDefault();
+                          e.stopPropagation();
+                          if (date) {
+                            setSelectedDate(date as string);
+                          }
+                        }}
+                        className="tw-w-full tw-mt-2 tw-px-2 tw-py-1 tw-text-xs tw-bg-blue-600 hover:tw-bg-blue-500 tw-text-white tw-rounded tw-transition-colors tw-cursor-pointer"
+                      >
+                        🖱️ Click for details
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            }}
+            theme={{
+              text: { fill: "#e2e8f0" },
+              tooltip: { container: { background: "transparent" } },
+            }}
+            areaOpacity={0.2}
+            layers={[
+              "grid",
+              "markers",
+              "axes",
+              "areas",
+              "crosshair",
+              lineLayer,
+              "points",
+              anomalyLayer,
+              "slices",
+              "mesh",
+              "legends",
+            ]}
+          />
+        </div>
+        {layout === "side" && baselineLines.length > 0 && comparison && (
+          <div className="tw-h-[360px] tw-w-full">
+            <ResponsiveLine
+              data={baselineLines.map((b) => ({
+                ...b,
+                data: b.data.map((point) => ({ x: point.date, y: point.y })),
+              }))}
+              margin={{ top: 40, right: 40, bottom: 60, left: 60 }}
+              xScale={{ type: "point" }}
+              yScale={{
+                type: "linear",
+                min: "auto",
+                max: forecastMax,
+                stacked: false,
+              }}
+              yFormat={
+                view === "conversion" ? (v) => pct(Number(v)) : undefined
+              }
+              axisBottom={{
+                tickRotation: -35,
+                legend: `Baseline ${rangeLabel(comparison.range)}`,
+                legendOffset: 52,
+                legendPosition: "middle",
+              }}
+              colors={{ datum: "color" }}
+              pointSize={6}
+              useMesh
+              tooltip={({ point }) => (
+                <div className="tw-rounded-lg tw-bg-slate-900 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100 tw-shadow-lg">
+                  {String(point.data.x)} · {String(point.serieId)}:{" "}
+                  {view === "conversion"
+                    ? pct(Number(point.data.y))
+                    : Number(point.data.y).toLocaleString()}
                 </div>
-              </div>
-            );
-          }}
-          theme={{
-            text: { fill: "#e2e8f0" },
-            tooltip: { container: { background: "transparent" } },
-          }}
-          areaOpacity={0.2}
-        />
+              )}
+              theme={{ text: { fill: "#e2e8f0" } }}
+            />
+          </div>
+        )}
       </div>
 
       <div className="tw-space-y-1 tw-text-sm tw-text-slate-700">
         <p>
-          Showing {series.length} days from {dateRange.from} to {dateRange.to}.
-          Anomaly band: lower {anomaly.lower.toFixed(1)} carts, upper{" "}
-          {anomaly.upper.toFixed(1)} carts.
+          Showing {series.length} days from {dateRange.from} to {dateRange.to} (
+          {data.timeZone}). Anomaly band: lower {anomaly.lower.toFixed(1)}{" "}
+          carts, upper {anomaly.upper.toFixed(1)} carts.
         </p>
 
-        {anomaly.hasThresholds && anomaly.outliers.length > 0 ? (
-          <p>Outliers: {anomaly.outliers.join(", ")}</p>
+        {anomaly.hasThresholds && anomaly.outliers.length > 0 && (
+          <p>Outside the band: {anomaly.outliers.join(", ")}</p>
+        )}
+
+        {comparison && (
+          <p>
+            Compared with {rangeLabel(comparison.range)}
+            {layout === "overlay" && " (dotted, aligned day by day)"}:
+            {periodChanges
+              .map(({ id, change }) =>
+                view === "conversion"
+                  ? ` ${id.toLowerCase()} ${pct(change.baseline)} → ${pct(
+                      change.current
+                    )} (${signedPoints(change.change)})`
+                  : ` ${id.toLowerCase()} ${change.baseline.toLocaleString()} → ${change.current.toLocaleString()}${
+                      change.relative == null
+                        ? ""
+                        : ` (${signedPct(change.relative)})`
+                    }`
+              )
+              .join(";")}
+            .
+          </p>
+        )}
+
+        {showForecast && view !== "conversion" && (
+          <p>
+            {forecasts.length ? (
+              <>
+                Dashed: Holt-Winters forecast for the next {forecast.horizon}{" "}
+                days with a {Math.round(forecast.confidence * 100)}% prediction
+                band. Backtest MAPE
+                {lines
+                  .map((line) => {
+                    const metric = line.metric;
+                    const backtest = isForecastMetric(metric)
+                      ? forecast.metrics[metric]?.backtest
+                      : null;
+                    return backtest?.mape != null
+                      ? ` ${line.id.toLowerCase()} ${pct(
+                          backtest.mape
+                        )} over the last ${backtest.days} days`
+                      : ` ${line.id.toLowerCase()} n/a`;
+                  })
+                  .join(",")}
+                .
+              </>
+            ) : (
+              "The forecast needs at least two weeks of history."
+            )}
+          </p>
+        )}
+
+        {anomalies.length > 0 ? (
+          <div className="tw-overflow-x-auto">
+            <table className="tw-min-w-full tw-divide-y tw-divide-slate-800 tw-text-sm">
+              <thead className="tw-bg-slate-900/60 tw-text-left tw-text-xs tw-uppercase tw-tracking-wide tw-text-slate-100">
+                <tr>
+                  <th className="tw-px-4 tw-py-3">Date</th>
+                  <th className="tw-px-4 tw-py-3">Severity</th>
+                  <th className="tw-px-4 tw-py-3">Detector</th>
+                  <th className="tw-px-4 tw-py-3">What happened</th>
+                </tr>
+              </thead>
+              <tbody className="tw-divide-y tw-divide-slate-800">
+                {anomalies.map((a) => (
+                  <tr key={`${a.date}|${a.metric}|${a.detector}`}>
+                    <td className="tw-px-4 tw-py-3 tw-font-medium tw-text-slate-900">
+                      <button
+                        onClick={() => setSelectedDate(a.date)}
+                        className="tw-underline tw-decoration-dotted"
+                      >
+                        {a.date}
+                      </button>
+                    </td>
+                    <td className="tw-px-4 tw-py-3">
+                      <span
+                        className="tw-rounded-full tw-px-2 tw-py-0.5 tw-text-xs tw-font-medium tw-text-slate-900"
+                        style={{ backgroundColor: severityColors[a.severity] }}
+                      >
+                        {a.direction === "spike" ? "▲" : "▼"} {a.severity}
+                      </span>
+                    </td>
+                    <td className="tw-px-4 tw-py-3 tw-text-slate-700">
+                      {anomalyDetectors[a.detector]}
+                    </td>
+                    <td className="tw-px-4 tw-py-3 tw-text-slate-900">
+                      {a.explanation}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
         ) : (
-          <p className="tw-text-slate-600">No cart anomalies detected.</p>
+          <p className="tw-text-slate-600">
+            {data.daily.detectors.names.length
+              ? `No ${trendViews[view].label.toLowerCase()} anomalies detected.`
+              : "Anomaly detectors are turned off."}
+          </p>
         )}
 
         <p className="tw-text-xs tw-text-slate-500 tw-mt-2">
@@ -971,52 +2380,211 @@ function DailyTrends({ data }: ChartProps) {
   );
 }
 
-function CartLeakByCategory({ data }: ChartProps) {
+function leakByCategory(data: AnalyticsResponse) {
   const meta = data.itemMeta;
-  const [topCount, setTopCount] = useState(15);
+  // Group leak items by category, preserving actual leak data
+  const categoryGroups = new Map<
+    string,
+    { adds: number; removes: number; items: string[] }
+  >();
+
+  data.leak.items.forEach((row) => {
+    const category = meta[row.item]?.category || "Other";
+    const g = categoryGroups.get(category) ?? {
+      adds: 0,
+      removes: 0,
+      items: [],
+    };
+    g.adds += row.adds;
+    g.removes += row.removes;
+    g.items.push(row.item);
+    categoryGroups.set(category, g);
+  });
+
+  // Ensure cart adds match the categoryInteractions data for consistency
+  const categoryCartData = new Map<string, number>();
+  data.categoryInteractions.forEach((cat) => {
+    categoryCartData.set(cat.category, cat.carts);
+  });
 
-  const allRows = useMemo(() => {
-    // Group leak items by category, preserving actual leak data
-    const categoryGroups = new Map<
-      string,
-      { adds: number; removes: number; items: string[] }
-    >();
-
-    data.leak.items.forEach((row) => {
-      const category = meta[row.item]?.category || "Other";
-      const g = categoryGroups.get(category) ?? {
-        adds: 0,
-        removes: 0,
-        items: [],
+  return Array.from(categoryGroups.entries())
+    .map(([category, g]) => {
+      // Use the consistent cart adds from categoryInteractions
+      const adds = categoryCartData.get(category) || g.adds;
+      // Keep the original removes calculation but ensure it doesn't exceed adds
+      const removes = Math.min(g.removes, adds);
+      return {
+        category,
+        adds,
+        removes,
+        leak: adds > 0 ? removes / adds : 0,
+        itemCount: g.items.length,
       };
-      g.adds += row.adds;
-      g.removes += row.removes;
-      g.items.push(row.item);
-      categoryGroups.set(category, g);
-    });
+    })
+    .sort((a, b) => b.leak - a.leak || b.removes - a.removes);
+}
 
-    // Ensure cart adds match the categoryInteractions data for consistency
-    const categoryCartData = new Map<string, number>();
-    data.categoryInteractions.forEach((cat) => {
-      categoryCartData.set(cat.category, cat.carts);
-    });
+// A falling leak is an improvement; categories new to the range have no baseline
+function LeakChangeCells({
+  leak,
+  before,
+}: {
+  leak: number;
+  before?: { leak: number; adds: number };
+}) {
+  if (!before?.adds)
+    return (
+      <>
+        <td className="tw-px-4 tw-py-3 tw-text-slate-500">—</td>
+        <td className="tw-px-4 tw-py-3 tw-text-slate-500">New</td>
+      </>
+    );
+  const change = leak - before.leak;
+  return (
+    <>
+      <td className="tw-px-4 tw-py-3 tw-text-slate-700">{pct(before.leak)}</td>
+      <td
+        className={`tw-px-4 tw-py-3 tw-font-medium ${
+          change > 0
+            ? "tw-text-rose-600"
+            : change < 0
+            ? "tw-text-emerald-600"
+            : "tw-text-slate-500"
+        }`}
+      >
+        {signedPoints(change)}
+      </td>
+    </>
+  );
+}
 
-    return Array.from(categoryGroups.entries())
-      .map(([category, g]) => {
-        // Use the consistent cart adds from categoryInteractions
-        const adds = categoryCartData.get(category) || g.adds;
-        // Keep the original removes calculation but ensure it doesn't exceed adds
-        const removes = Math.min(g.removes, adds);
-        return {
-          category,
-          adds,
-          removes,
-          leak: adds > 0 ? removes / adds : 0,
-          itemCount: g.items.length,
-        };
+type ActivityMetric = keyof AnalyticsResponse["activityHeatmap"];
+
+const activityMetrics: Record<ActivityMetric, string> = {
+  views: "Views",
+  carts: "Cart adds",
+  checkouts: "Checkouts",
+};
+
+const hourLabel = (hour: number) => `${String(hour).padStart(2, "0")}:00`;
+
+function ActivityHeatmap({ data }: ChartProps) {
+  const [metric, setMetric] = useState<ActivityMetric>("views");
+  const grid = data.activityHeatmap[metric];
+  const label = activityMetrics[metric].toLowerCase();
+
+  const heatmapData = useMemo(
+    () =>
+      WEEKDAYS.map((day, weekday) => ({
+        id: day,
+        data: grid[weekday].map((value, hour) => ({
+          x: hourLabel(hour),
+          y: value,
+        })),
+      })),
+    [grid]
+  );
+
+  const summary = useMemo(() => {
+    let total = 0;
+    let weekend = 0;
+    let peak = { weekday: 0, hour: 0, value: 0 };
+    const byHour = new Array<number>(24).fill(0);
+    grid.forEach((row, weekday) =>
+      row.forEach((value, hour) => {
+        total += value;
+        byHour[hour] += value;
+        if (weekday >= 5) weekend += value;
+        if (value > peak.value) peak = { weekday, hour, value };
       })
-      .sort((a, b) => b.leak - a.leak || b.removes - a.removes);
-  }, [data.leak.items, data.categoryInteractions, meta]);
+    );
+    const busiestHour = byHour.indexOf(Math.max(...byHour));
+    return { total, weekend, peak, busiestHour, byHour };
+  }, [grid]);
+
+  return (
+    <div className="tw-space-y-4">
+      <div className="tw-flex tw-items-center tw-justify-between tw-gap-2">
+        <p className="tw-text-sm tw-text-slate-700">
+          Hours and weekdays in {data.timeZone}
+        </p>
+        <select
+          value={metric}
+          onChange={(e) => setMetric(e.target.value as ActivityMetric)}
+          className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+        >
+          {(Object.keys(activityMetrics) as ActivityMetric[]).map((key) => (
+            <option key={key} value={key}>
+              {activityMetrics[key]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {summary.total ? (
+        <>
+          <div className="tw-h-[320px] tw-w-full">
+            <ResponsiveHeatMap
+              data={heatmapData}
+              colors={{ type: "quantize", scheme: "oranges" } as any}
+              margin={{ top: 40, right: 20, bottom: 20, left: 50 }}
+              axisTop={{ tickSize: 5, tickPadding: 5, tickRotation: -45 }}
+              axisRight={null}
+              axisBottom={null}
+              axisLeft={{ tickSize: 5, tickPadding: 5 }}
+              enableLabels={false}
+              tooltip={({ cell }: any) => (
+                <div className="tw-rounded-lg tw-bg-slate-900 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100 tw-shadow-lg">
+                  <p className="tw-font-medium">
+                    {cell.serieId} {cell.data.x}
+                  </p>
+                  <p className="tw-text-amber-300">
+                    {Number(cell.value).toLocaleString()} {label} (
+                    {pct(Number(cell.value) / summary.total)} of the range)
+                  </p>
+                </div>
+              )}
+              theme={{
+                tooltip: { container: { background: "#0f172a" } },
+                text: { fill: "#294972ff" },
+              }}
+            />
+          </div>
+          <div className="tw-space-y-1 tw-text-sm tw-text-slate-700">
+            <p>
+              Busiest slot: {WEEKDAYS[summary.peak.weekday]}{" "}
+              {hourLabel(summary.peak.hour)}–
+              {hourLabel((summary.peak.hour + 1) % 24)} with{" "}
+              {summary.peak.value.toLocaleString()} {label}. Across the week,{" "}
+              {hourLabel(summary.busiestHour)} is the busiest hour (
+              {pct(summary.byHour[summary.busiestHour] / summary.total)}).
+            </p>
+            <p>
+              Weekends account for {pct(summary.weekend / summary.total)} of{" "}
+              {label}.
+            </p>
+          </div>
+        </>
+      ) : (
+        <p className="muted">No {label} in the selected date range.</p>
+      )}
+    </div>
+  );
+}
+
+function CartLeakByCategory({ data, comparison }: CompareProps) {
+  const [topCount, setTopCount] = useState(15);
+
+  const allRows = useMemo(() => leakByCategory(data), [data]);
+  const baselineLeak = useMemo(
+    () =>
+      comparison
+        ? new Map(
+            leakByCategory(comparison.data).map((row) => [row.category, row])
+          )
+        : null,
+    [comparison]
+  );
 
   const rows = useMemo(() => allRows.slice(0, topCount), [allRows, topCount]);
 
@@ -1030,6 +2598,7 @@ function CartLeakByCategory({ data }: ChartProps) {
       <div className="tw-flex tw-items-center tw-justify-between">
         <p className="tw-text-sm tw-text-slate-800">
           Showing top {rows.length} of {allRows.length} categories
+          {comparison && `, compared with ${rangeLabel(comparison.range)}`}
         </p>
         <div className="tw-flex tw-items-center tw-gap-2">
           <label className="tw-text-sm tw-text-slate-400">Show top:</label>
@@ -1055,6 +2624,12 @@ function CartLeakByCategory({ data }: ChartProps) {
               <th className="tw-px-4 tw-py-3">Adds</th>
               <th className="tw-px-4 tw-py-3">Removes</th>
               <th className="tw-px-4 tw-py-3">Leak</th>
+              {baselineLeak && (
+                <>
+                  <th className="tw-px-4 tw-py-3">Baseline leak</th>
+                  <th className="tw-px-4 tw-py-3">Change</th>
+                </>
+              )}
             </tr>
           </thead>
 
@@ -1078,6 +2653,12 @@ function CartLeakByCategory({ data }: ChartProps) {
                 <td className="tw-px-4 tw-py-3 tw-text-rose-600">
                   {pct(row.leak)}
                 </td>
+                {baselineLeak && (
+                  <LeakChangeCells
+                    leak={row.leak}
+                    before={baselineLeak.get(row.category)}
+                  />
+                )}
               </tr>
             ))}
           </tbody>
@@ -1198,19 +2779,47 @@ function MostInteractedCategories({ data }: ChartProps) {
   );
 }
 
+// "" is the unweighted co-occurrence model; other keys are profile names
+const UNWEIGHTED = "";
+
 function ItemRecommender({ data }: ChartProps) {
   const options = useMemo(() => Object.keys(data.recos), [data.recos]);
   const [selected, setSelected] = useState<string>(options[0] ?? "");
   const [topCount, setTopCount] = useState(10);
+  const [profile, setProfile] = useState(UNWEIGHTED);
+  const [compare, setCompare] = useState<string | null>(null);
 
+  const recosFor = useCallback(
+    (name: string) =>
+      (name === UNWEIGHTED ? data.recos : data.weightedRecos.recos[name] ?? {})[
+        selected
+      ] ?? [],
+    [data.recos, data.weightedRecos, selected]
+  );
   const allRecos = useMemo(
-    () => (selected ? data.recos[selected] ?? [] : []),
-    [data.recos, selected]
+    () => (selected ? recosFor(profile) : []),
+    [recosFor, profile, selected]
   );
   const recos = useMemo(
     () => allRecos.slice(0, topCount),
     [allRecos, topCount]
   );
+  const columns = [profile, ...(compare == null ? [] : [compare])];
+  const profileLabel = (name: string) =>
+    name === UNWEIGHTED ? "Co-occurrence (unweighted)" : name;
+  const profileOptions = [
+    UNWEIGHTED,
+    ...data.weightedRecos.profiles.map((p) => p.name),
+  ];
+  const describe = (name: string) => {
+    const p = data.weightedRecos.profiles.find((x) => x.name === name);
+    if (!p) return "Every interaction counts once";
+    return `view ${p.view} · wishlist ${p.wishlist} · cart ${
+      p.cart
+    } · checkout ${p.checkout} · removed ×${p.cartRemoval} · ${
+      p.halfLifeDays == null ? "no decay" : `half-life ${p.halfLifeDays}d`
+    }`;
+  };
 
   const meta = data.itemMeta;
   if (!options.length)
@@ -1229,77 +2838,599 @@ function ItemRecommender({ data }: ChartProps) {
         <div className="tw-flex tw-items-center tw-gap-2">
           <label className="tw-text-sm tw-text-slate-400">Show top:</label>
           <select
-            value={topCount}
-            onChange={(e) => setTopCount(Number(e.target.value))}
+            value={topCount}
+            onChange={(e) => setTopCount(Number(e.target.value))}
+            className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+          >
+            {[5, 10, 15, 20, 25, 50].map((n) => (
+              <option key={n} value={n}>
+                {n}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="tw-flex tw-flex-col tw-gap-3 sm:tw-flex-row sm:tw-items-center sm:tw-gap-6">
+        <label className="tw-text-sm tw-text-slate-500">
+          Choose anchor item
+          <select
+            className="tw-mt-2 tw-w-full tw-rounded-lg tw-border tw-border-slate-100 tw-bg-slate-900/60 tw-p-3 tw-text-slate-100"
+            value={selected}
+            onChange={(e) => setSelected(e.target.value)}
+          >
+            {options.map((id) => (
+              <option key={id} value={id}>
+                {meta[id]?.title ?? id}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="tw-text-sm tw-text-slate-500">
+          Weighting
+          <select
+            className="tw-mt-2 tw-w-full tw-rounded-lg tw-border tw-border-slate-100 tw-bg-slate-900/60 tw-p-3 tw-text-slate-100"
+            value={profile}
+            onChange={(e) => setProfile(e.target.value)}
+          >
+            {profileOptions.map((name) => (
+              <option key={name} value={name}>
+                {profileLabel(name)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="tw-text-sm tw-text-slate-500">
+          Compare with
+          <select
+            className="tw-mt-2 tw-w-full tw-rounded-lg tw-border tw-border-slate-100 tw-bg-slate-900/60 tw-p-3 tw-text-slate-100"
+            value={compare ?? "none"}
+            onChange={(e) =>
+              setCompare(e.target.value === "none" ? null : e.target.value)
+            }
+          >
+            <option value="none">Nothing</option>
+            {profileOptions
+              .filter((name) => name !== profile)
+              .map((name) => (
+                <option key={name} value={name}>
+                  {profileLabel(name)}
+                </option>
+              ))}
+          </select>
+        </label>
+        <div className="tw-rounded-xl tw-bg-slate-900/60 tw-p-4 tw-text-sm tw-text-slate-300">
+          <p className="tw-font-medium tw-text-slate-100">Anchor details</p>
+          <p>{meta[selected]?.title ?? "Unknown item"}</p>
+          <p>
+            £{meta[selected]?.price?.toFixed(2) ?? "0.00"} ·{" "}
+            {meta[selected]?.category ?? "Unknown category"}
+          </p>
+        </div>
+      </div>
+      <div
+        className={`tw-grid tw-gap-4 ${
+          columns.length > 1 ? "xl:tw-grid-cols-2" : ""
+        }`}
+      >
+        {columns.map((name) => (
+          <div key={name || "unweighted"} className="tw-overflow-x-auto">
+            <p className="tw-mb-2 tw-text-sm tw-font-medium tw-text-slate-800">
+              {profileLabel(name)}
+              <span className="tw-ml-2 tw-text-xs tw-font-normal tw-text-slate-500">
+                {describe(name)}
+              </span>
+            </p>
+            <RecoTable
+              data={data}
+              selected={selected}
+              recos={
+                name === profile ? recos : recosFor(name).slice(0, topCount)
+              }
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function RecoTable({
+  data,
+  selected,
+  recos,
+}: ChartProps & {
+  selected: string;
+  recos: Array<{ item: string; score: number }>;
+}) {
+  const meta = data.itemMeta;
+  if (!recos.length)
+    return <p className="muted">No recommendations for this item.</p>;
+  return (
+    <table className="tw-min-w-full tw-divide-y tw-divide-slate-800 tw-text-sm">
+      <thead className="tw-bg-slate-900/60 tw-text-left tw-text-xs tw-uppercase tw-tracking-wide tw-text-slate-100">
+        <tr>
+          <th className="tw-px-4 tw-py-3">Recommended item</th>
+          <th className="tw-px-4 tw-py-3">Score</th>
+          <th className="tw-px-4 tw-py-3">Category</th>
+          <th className="tw-px-4 tw-py-3">Price</th>
+        </tr>
+      </thead>
+      <tbody className="tw-divide-y tw-divide-slate-800">
+        {recos.map((row) => (
+          <tr key={`${selected}-${row.item}`}>
+            <td className="tw-px-4 tw-py-3 tw-font-medium tw-text-slate-700">
+              {meta[row.item]?.title ?? row.item}
+            </td>
+            <td className="tw-px-4 tw-py-3 tw-text-slate-700">
+              {row.score.toFixed(3)}
+            </td>
+            <td className="tw-px-4 tw-py-3 tw-text-slate-700">
+              {meta[row.item]?.category ?? "Unknown"}
+            </td>
+            <td className="tw-px-4 tw-py-3 tw-text-slate-700">
+              £{meta[row.item]?.price?.toFixed(2) ?? "0.00"}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+const qualityLabels: Record<DataQualityCode, string> = {
+  missing_id: "Missing _id",
+  missing_visitor: "Missing visitorId",
+  missing_country: "Missing geo.country",
+  missing_created_at: "Missing createdAt",
+  unparsable_date: "Unparsable date",
+  unresolved_item_ref: "Unresolved item reference",
+  unknown_item: "Item not in listings",
+  removal_before_add: "Removal dated before add",
+  zero_price: "Zero or missing price",
+  unresolved_category: "Unknown category reference",
+  missing_name: "Category without name",
+  document_cap_reached: "Scan stopped at ANALYTICS_MAX_DOCUMENTS",
+};
+
+const qualitySources: Record<
+  AnalyticsResponse["dataQuality"]["issues"][number]["source"],
+  string
+> = {
+  tracking: "Tracking",
+  listings: "Listings",
+  productCategories: "Categories",
+};
+
+function CrossSellMatrix({ data }: ChartProps) {
+  const [level, setLevel] = useState<"categories" | "brands">("categories");
+  const { crossSell } = data;
+  const categories = crossSell.categories.keys;
+  const [target, setTarget] = useState(categories[0] ?? "");
+  const [sortBy, setSortBy] = useState<"sessions" | "lift">("sessions");
+
+  const matrix = crossSell[level];
+  const heatmapData = useMemo(
+    () =>
+      matrix.keys.map((row, i) => ({
+        id: row,
+        // The diagonal is a key with itself, which has no cross-sell lift
+        data: matrix.keys.map((col, j) => ({
+          x: col,
+          y: i === j ? null : Number(matrix.lift[i][j].toFixed(3)),
+        })),
+      })),
+    [matrix]
+  );
+  const items = useMemo(
+    () =>
+      [...(crossSell.intoCategory[target] ?? [])]
+        .sort((a, b) => b[sortBy] - a[sortBy])
+        .slice(0, 10),
+    [crossSell, target, sortBy]
+  );
+  const meta = data.itemMeta;
+
+  if (matrix.keys.length < 2)
+    return (
+      <p className="muted">
+        Cross-sell needs sessions that touch at least two{" "}
+        {level === "categories" ? "categories" : "brands"}.
+      </p>
+    );
+
+  return (
+    <div className="tw-space-y-4">
+      <div className="tw-flex tw-flex-wrap tw-items-center tw-justify-between tw-gap-2">
+        <p className="tw-text-sm tw-text-slate-800">
+          Lift of sessions touching both (1 = independent, above 1 = bought or
+          browsed together)
+        </p>
+        <select
+          value={level}
+          onChange={(e) => setLevel(e.target.value as "categories" | "brands")}
+          className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+        >
+          <option value="categories">Categories</option>
+          <option value="brands">Brands</option>
+        </select>
+      </div>
+
+      <div className="tw-h-[420px] tw-w-full">
+        <ResponsiveHeatMap
+          data={heatmapData}
+          colors={
+            {
+              type: "diverging",
+              scheme: "red_yellow_blue",
+              divergeAt: 0.5,
+              minValue: 0,
+              maxValue: 2,
+            } as any
+          }
+          emptyColor="#f1f5f9"
+          margin={{ top: 100, right: 20, bottom: 20, left: 120 }}
+          axisTop={{ tickSize: 5, tickPadding: 5, tickRotation: -45 }}
+          axisRight={null}
+          axisLeft={{ tickSize: 5, tickPadding: 5 }}
+          valueFormat={(v) => `${Number(v).toFixed(2)}×`}
+          tooltip={({ cell }: any) => {
+            const i = matrix.keys.indexOf(String(cell.serieId));
+            const j = matrix.keys.indexOf(String(cell.data.x));
+            return (
+              <div className="tw-rounded-lg tw-bg-slate-900 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100 tw-shadow-lg">
+                <p className="tw-font-medium">
+                  {cell.serieId} → {cell.data.x}
+                </p>
+                <p className="tw-text-emerald-300">
+                  Lift {Number(cell.value).toFixed(2)}× ·{" "}
+                  {pct(matrix.confidence[i]?.[j] ?? 0)} also touch {cell.data.x}
+                </p>
+                <p className="tw-text-xs tw-text-slate-400">
+                  {(matrix.counts[i]?.[j] ?? 0).toLocaleString()} sessions
+                </p>
+              </div>
+            );
+          }}
+          theme={{
+            tooltip: { container: { background: "#0f172a" } },
+            text: { fill: "#294972ff" },
+          }}
+        />
+      </div>
+
+      <div className="tw-flex tw-flex-wrap tw-items-center tw-justify-between tw-gap-2">
+        <h3 className="tw-text-sm tw-font-semibold tw-text-slate-800">
+          Top cross-sell items into
+        </h3>
+        <div className="tw-flex tw-items-center tw-gap-2">
+          <select
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+          >
+            {Object.keys(crossSell.intoCategory)
+              .sort()
+              .map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+          </select>
+          <select
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as "sessions" | "lift")}
+            className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+          >
+            <option value="sessions">Most shared sessions</option>
+            <option value="lift">Highest lift</option>
+          </select>
+        </div>
+      </div>
+      {items.length ? (
+        <div className="tw-overflow-x-auto">
+          <table className="tw-min-w-full tw-divide-y tw-divide-slate-800 tw-text-sm">
+            <thead className="tw-bg-slate-900/60 tw-text-left tw-text-xs tw-uppercase tw-tracking-wide tw-text-slate-100">
+              <tr>
+                <th className="tw-px-4 tw-py-3">Item</th>
+                <th className="tw-px-4 tw-py-3">From category</th>
+                <th className="tw-px-4 tw-py-3">Sessions</th>
+                <th className="tw-px-4 tw-py-3">Share of {target}</th>
+                <th className="tw-px-4 tw-py-3">Lift</th>
+              </tr>
+            </thead>
+            <tbody className="tw-divide-y tw-divide-slate-800">
+              {items.map((row) => (
+                <tr key={row.item}>
+                  <td className="tw-px-4 tw-py-3 tw-font-medium tw-text-slate-900">
+                    {meta[row.item]?.title ?? row.item}
+                  </td>
+                  <td className="tw-px-4 tw-py-3 tw-text-slate-900">
+                    {meta[row.item]?.category ?? "Other"}
+                  </td>
+                  <td className="tw-px-4 tw-py-3 tw-text-slate-900">
+                    {row.sessions.toLocaleString()}
+                  </td>
+                  <td className="tw-px-4 tw-py-3 tw-text-emerald-600">
+                    {pct(row.confidence)}
+                  </td>
+                  <td className="tw-px-4 tw-py-3 tw-text-sky-600">
+                    {row.lift.toFixed(2)}×
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="muted">
+          No items from other categories sell with {target} yet.
+        </p>
+      )}
+    </div>
+  );
+}
+
+type RuleSort = "lift" | "confidence" | "support";
+
+function FrequentlyTogether({ data }: ChartProps) {
+  const [kind, setKind] = useState<"bought" | "viewed">("bought");
+  const [sortBy, setSortBy] = useState<RuleSort>("lift");
+  const [category, setCategory] = useState("all");
+  const [topCount, setTopCount] = useState(10);
+
+  const meta = data.itemMeta;
+  const { rules, transactions } = data.associations[kind];
+  const categoryOf = useCallback(
+    (id: string) => meta[id]?.category ?? "Other",
+    [meta]
+  );
+  const categories = useMemo(
+    () =>
+      [
+        ...new Set(
+          rules.flatMap((rule) =>
+            [...rule.antecedent, ...rule.consequent].map(categoryOf)
+          )
+        ),
+      ].sort(),
+    [rules, categoryOf]
+  );
+  const allRules = useMemo(
+    () =>
+      rules
+        .filter(
+          (rule) =>
+            category === "all" ||
+            [...rule.antecedent, ...rule.consequent].some(
+              (id) => categoryOf(id) === category
+            )
+        )
+        .sort((a, b) => b[sortBy] - a[sortBy]),
+    [rules, category, sortBy, categoryOf]
+  );
+  const shown = allRules.slice(0, topCount);
+  const names = (ids: string[]) =>
+    ids.map((id) => meta[id]?.title ?? id).join(" + ");
+
+  return (
+    <div className="tw-space-y-4">
+      <div className="tw-flex tw-flex-wrap tw-items-center tw-justify-between tw-gap-2">
+        <p className="tw-text-sm tw-text-slate-800">
+          Showing {shown.length} of {allRules.length} rules from{" "}
+          {transactions.toLocaleString()} sessions (support ≥{" "}
+          {pct(data.associations.minSupport)}, confidence ≥{" "}
+          {pct(data.associations.minConfidence, 0)})
+        </p>
+        <div className="tw-flex tw-flex-wrap tw-items-center tw-gap-2">
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as "bought" | "viewed")}
+            className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+          >
+            <option value="bought">Bought together</option>
+            <option value="viewed">Viewed together</option>
+          </select>
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
             className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
           >
-            {[5, 10, 15, 20, 25, 50].map((n) => (
-              <option key={n} value={n}>
-                {n}
+            <option value="all">All categories</option>
+            {categories.map((name) => (
+              <option key={name} value={name}>
+                {name}
               </option>
             ))}
           </select>
-        </div>
-      </div>
-      <div className="tw-flex tw-flex-col tw-gap-3 sm:tw-flex-row sm:tw-items-center sm:tw-gap-6">
-        <label className="tw-text-sm tw-text-slate-500">
-          Choose anchor item
           <select
-            className="tw-mt-2 tw-w-full tw-rounded-lg tw-border tw-border-slate-100 tw-bg-slate-900/60 tw-p-3 tw-text-slate-100"
-            value={selected}
-            onChange={(e) => setSelected(e.target.value)}
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as RuleSort)}
+            className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
           >
-            {options.map((id) => (
-              <option key={id} value={id}>
-                {meta[id]?.title ?? id}
+            <option value="lift">Sort by lift</option>
+            <option value="confidence">Sort by confidence</option>
+            <option value="support">Sort by support</option>
+          </select>
+          <select
+            value={topCount}
+            onChange={(e) => setTopCount(Number(e.target.value))}
+            className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+          >
+            {[5, 10, 20, 50].map((n) => (
+              <option key={n} value={n}>
+                Top {n}
               </option>
             ))}
           </select>
-        </label>
-        <div className="tw-rounded-xl tw-bg-slate-900/60 tw-p-4 tw-text-sm tw-text-slate-300">
-          <p className="tw-font-medium tw-text-slate-100">Anchor details</p>
-          <p>{meta[selected]?.title ?? "Unknown item"}</p>
-          <p>
-            £{meta[selected]?.price?.toFixed(2) ?? "0.00"} ·{" "}
-            {meta[selected]?.category ?? "Unknown category"}
-          </p>
         </div>
       </div>
-      <div className="tw-overflow-x-auto">
-        <table className="tw-min-w-full tw-divide-y tw-divide-slate-800 tw-text-sm">
-          <thead className="tw-bg-slate-900/60 tw-text-left tw-text-xs tw-uppercase tw-tracking-wide tw-text-slate-100">
-            <tr>
-              <th className="tw-px-4 tw-py-3">Recommended item</th>
-              <th className="tw-px-4 tw-py-3">Score</th>
-              <th className="tw-px-4 tw-py-3">Category</th>
-              <th className="tw-px-4 tw-py-3">Price</th>
-            </tr>
-          </thead>
-          <tbody className="tw-divide-y tw-divide-slate-800">
-            {recos.map((row) => (
-              <tr key={`${selected}-${row.item}`}>
-                <td className="tw-px-4 tw-py-3 tw-font-medium tw-text-slate-700">
-                  {meta[row.item]?.title ?? row.item}
-                </td>
-                <td className="tw-px-4 tw-py-3 tw-text-slate-700">
-                  {row.score.toFixed(3)}
-                </td>
-                <td className="tw-px-4 tw-py-3 tw-text-slate-700">
-                  {meta[row.item]?.category ?? "Unknown"}
-                </td>
-                <td className="tw-px-4 tw-py-3 tw-text-slate-700">
-                  £{meta[row.item]?.price?.toFixed(2) ?? "0.00"}
-                </td>
+
+      {shown.length ? (
+        <div className="tw-overflow-x-auto">
+          <table className="tw-min-w-full tw-divide-y tw-divide-slate-800 tw-text-sm">
+            <thead className="tw-bg-slate-900/60 tw-text-left tw-text-xs tw-uppercase tw-tracking-wide tw-text-slate-100">
+              <tr>
+                <th className="tw-px-4 tw-py-3">
+                  Customers who {kind === "bought" ? "bought" : "viewed"}
+                </th>
+                <th className="tw-px-4 tw-py-3">
+                  Also {kind === "bought" ? "bought" : "viewed"}
+                </th>
+                <th className="tw-px-4 tw-py-3">Sessions</th>
+                <th className="tw-px-4 tw-py-3">Support</th>
+                <th className="tw-px-4 tw-py-3">Confidence</th>
+                <th className="tw-px-4 tw-py-3">Lift</th>
               </tr>
-            ))}
-          </tbody>
-        </table>
+            </thead>
+            <tbody className="tw-divide-y tw-divide-slate-800">
+              {shown.map((rule) => (
+                <tr
+                  key={`${rule.antecedent.join("|")}>${rule.consequent.join(
+                    "|"
+                  )}`}
+                >
+                  <td className="tw-px-4 tw-py-3 tw-font-medium tw-text-slate-900">
+                    {names(rule.antecedent)}
+                  </td>
+                  <td className="tw-px-4 tw-py-3 tw-text-slate-900">
+                    {names(rule.consequent)}
+                  </td>
+                  <td className="tw-px-4 tw-py-3 tw-text-slate-900">
+                    {rule.count.toLocaleString()}
+                  </td>
+                  <td className="tw-px-4 tw-py-3 tw-text-slate-900">
+                    {pct(rule.support)}
+                  </td>
+                  <td className="tw-px-4 tw-py-3 tw-text-emerald-600">
+                    {pct(rule.confidence)}
+                  </td>
+                  <td className="tw-px-4 tw-py-3 tw-text-sky-600">
+                    {rule.lift.toFixed(2)}×
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="muted">
+          No rules meet the thresholds for this selection yet.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function DataQualityPanel({ data }: ChartProps) {
+  const { checked, affectedSessions, issues } = data.dataQuality;
+
+  return (
+    <div className="tw-space-y-4">
+      <div className="tw-grid tw-grid-cols-1 tw-gap-4 sm:tw-grid-cols-3">
+        <div className="tw-rounded-lg tw-bg-slate-50 tw-p-3">
+          <p className="tw-text-xs tw-text-slate-500">Sessions with problems</p>
+          <p className="tw-text-lg tw-font-semibold tw-text-slate-900">
+            {affectedSessions.toLocaleString()}{" "}
+            <span className="tw-text-sm tw-font-normal tw-text-slate-500">
+              of {checked.sessions.toLocaleString()} (
+              {pct(checked.sessions ? affectedSessions / checked.sessions : 0)})
+            </span>
+          </p>
+        </div>
+        <div className="tw-rounded-lg tw-bg-slate-50 tw-p-3">
+          <p className="tw-text-xs tw-text-slate-500">Listings checked</p>
+          <p className="tw-text-lg tw-font-semibold tw-text-slate-900">
+            {checked.listings.toLocaleString()}
+          </p>
+        </div>
+        <div className="tw-rounded-lg tw-bg-slate-50 tw-p-3">
+          <p className="tw-text-xs tw-text-slate-500">Categories checked</p>
+          <p className="tw-text-lg tw-font-semibold tw-text-slate-900">
+            {checked.categories.toLocaleString()}
+          </p>
+        </div>
       </div>
+
+      {!issues.length ? (
+        <p className="muted">No data-quality problems found in this range.</p>
+      ) : (
+        <div className="tw-overflow-x-auto">
+          <table className="tw-min-w-full tw-divide-y tw-divide-slate-800 tw-text-sm">
+            <thead className="tw-bg-slate-900/60 tw-text-left tw-text-xs tw-uppercase tw-tracking-wide tw-text-slate-100">
+              <tr>
+                <th className="tw-px-4 tw-py-3">Source</th>
+                <th className="tw-px-4 tw-py-3">Problem</th>
+                <th className="tw-px-4 tw-py-3">Count</th>
+                <th className="tw-px-4 tw-py-3">Examples</th>
+              </tr>
+            </thead>
+            <tbody className="tw-divide-y tw-divide-slate-800">
+              {issues.map((issue) => (
+                <tr key={`${issue.source}:${issue.code}`}>
+                  <td className="tw-px-4 tw-py-3 tw-text-slate-700">
+                    {qualitySources[issue.source]}
+                  </td>
+                  <td className="tw-px-4 tw-py-3 tw-font-medium tw-text-slate-900">
+                    {qualityLabels[issue.code] ?? issue.code}
+                  </td>
+                  <td className="tw-px-4 tw-py-3 tw-text-amber-600">
+                    {issue.count.toLocaleString()}
+                  </td>
+                  <td className="tw-px-4 tw-py-3 tw-font-mono tw-text-xs tw-text-slate-600">
+                    {issue.samples.join(", ") || "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
     </div>
   );
 }
 
 // -------------------- main --------------------
+async function fetchAnalytics(
+  range: DayRange,
+  timeZone: string,
+  signal: AbortSignal
+) {
+  const params = new URLSearchParams({
+    from: range.from,
+    to: range.to,
+    tz: timeZone,
+  });
+  const res = await fetch(`/api/data?${params.toString()}`, { signal });
+  const body = await res.json();
+  if (!res.ok) {
+    throw new Error(body?.error ?? `Request failed (${res.status})`);
+  }
+  return body as AnalyticsResponse;
+}
+
+const comparisonModes: Record<ComparisonMode, string> = {
+  previous: "Previous period",
+  year: "Same period last year",
+  custom: "Custom range",
+};
+
+// Reporting zones for the picker: the server default first, then UTC, the
+// browser's own zone and whatever else the runtime knows
+function timeZoneOptions(serverZone: string) {
+  const supported =
+    typeof Intl.supportedValuesOf === "function"
+      ? Intl.supportedValuesOf("timeZone")
+      : [];
+  return [
+    ...new Set([
+      serverZone,
+      "UTC",
+      Intl.DateTimeFormat().resolvedOptions().timeZone,
+      ...supported,
+    ]),
+  ];
+}
+
 const AnalyticsDashboard = ({ initialData }: AnalyticsDashboardProps) => {
   console.log(initialData, "initialData");
 
@@ -1334,9 +3465,109 @@ const AnalyticsDashboard = ({ initialData }: AnalyticsDashboardProps) => {
   );
   const [validationError, setValidationError] = useState<string>("");
 
-  const filtered = useMemo(
-    () => reprojectForDateRange(initialData, applied.from, applied.to),
-    [initialData, applied]
+  const [filtered, setFiltered] = useState<AnalyticsResponse>(initialData);
+  const [loading, setLoading] = useState(false);
+  const [fetchError, setFetchError] = useState<string>("");
+
+  const [compareMode, setCompareMode] = useState<ComparisonMode | "none">(
+    "none"
+  );
+  const [customBaseline, setCustomBaseline] = useState<DayRange>(() =>
+    baselineRange(monthRange, "previous")
+  );
+  const [appliedBaseline, setAppliedBaseline] = useState<DayRange | null>(null);
+  const [baseline, setBaseline] = useState<AnalyticsResponse | null>(null);
+  const [baselineLoading, setBaselineLoading] = useState(false);
+  const [baselineError, setBaselineError] = useState<string>("");
+
+  const [timeZone, setTimeZone] = useState<string>(initialData.timeZone);
+  const [appliedZone, setAppliedZone] = useState<string>(initialData.timeZone);
+  // Filled after mount so server and client render the same options
+  const [zones, setZones] = useState<string[]>([initialData.timeZone]);
+  useEffect(() => {
+    setZones(timeZoneOptions(initialData.timeZone));
+  }, [initialData.timeZone]);
+
+  // Day span of the unfiltered payload; ranges covering it need no refetch
+  // unless another zone was picked
+  const coversAll = useCallback(
+    (range: DayRange) => {
+      if (appliedZone !== initialData.timeZone) return false;
+      const { firstSessionAt, lastSessionAt } = initialData.summary;
+      const first = firstSessionAt
+        ? zonedDay(new Date(firstSessionAt), initialData.timeZone)
+        : "";
+      const last = lastSessionAt
+        ? zonedDay(new Date(lastSessionAt), initialData.timeZone)
+        : "";
+      return (!first || range.from <= first) && (!last || range.to >= last);
+    },
+    [initialData.summary, initialData.timeZone, appliedZone]
+  );
+
+  // Recompute exact analytics for the applied range on the server
+  useEffect(() => {
+    if (coversAll(applied)) {
+      setFiltered(initialData);
+      setFetchError("");
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+    fetchAnalytics(applied, appliedZone, controller.signal)
+      .then((body) => {
+        setFiltered(body);
+        setFetchError("");
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setFetchError(String(err?.message ?? err));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [applied, appliedZone, initialData, coversAll]);
+
+  // Second response for the baseline range when comparing
+  useEffect(() => {
+    setBaselineError("");
+    if (!appliedBaseline) {
+      setBaseline(null);
+      setBaselineLoading(false);
+      return;
+    }
+    if (coversAll(appliedBaseline)) {
+      setBaseline(initialData);
+      setBaselineLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setBaseline(null);
+    setBaselineLoading(true);
+    fetchAnalytics(appliedBaseline, appliedZone, controller.signal)
+      .then(setBaseline)
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setBaselineError(String(err?.message ?? err));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setBaselineLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [appliedBaseline, appliedZone, initialData, coversAll]);
+
+  const comparison = useMemo<Comparison | null>(
+    () =>
+      appliedBaseline && baseline
+        ? { range: appliedBaseline, current: applied, data: baseline }
+        : null,
+    [appliedBaseline, baseline, applied]
   );
 
   const handleDateRangeChange = useCallback((from: string, to: string) => {
@@ -1345,21 +3576,66 @@ const AnalyticsDashboard = ({ initialData }: AnalyticsDashboardProps) => {
     setValidationError(v.isValid ? "" : v.error || "Invalid date range");
   }, []);
 
+  const handleCompareChange = useCallback(
+    (mode: ComparisonMode | "none", custom: DayRange) => {
+      setCompareMode(mode);
+      setCustomBaseline(custom);
+      const v =
+        mode === "custom"
+          ? validateDateRange(custom.from, custom.to)
+          : { isValid: true };
+      setValidationError(
+        v.isValid ? "" : `Baseline: ${v.error || "Invalid date range"}`
+      );
+    },
+    []
+  );
+
   const applyDateRange = useCallback(() => {
     const v = validateDateRange(dateRange.from, dateRange.to);
-    if (v.isValid) {
+    if (!v.isValid) {
+      setValidationError(v.error || "Invalid date range");
+      return;
+    }
+    if (compareMode === "none") {
       setApplied(dateRange);
+      setAppliedZone(timeZone);
+      setAppliedBaseline(null);
       setValidationError("");
-    } else {
-      setValidationError(v.error || "Invalid date range");
+      return;
+    }
+    if (!dateRange.from || !dateRange.to) {
+      setValidationError("Comparing needs both a start and an end date");
+      return;
+    }
+    if (compareMode === "custom") {
+      const c = validateDateRange(customBaseline.from, customBaseline.to);
+      if (!c.isValid || !customBaseline.from || !customBaseline.to) {
+        setValidationError(
+          `Baseline: ${c.error || "Choose a start and an end date"}`
+        );
+        return;
+      }
     }
-  }, [dateRange]);
+    setApplied(dateRange);
+    setAppliedZone(timeZone);
+    setAppliedBaseline(
+      compareMode === "custom"
+        ? customBaseline
+        : baselineRange(dateRange, compareMode)
+    );
+    setValidationError("");
+  }, [dateRange, timeZone, compareMode, customBaseline]);
 
   const resetToCurrentMonth = useCallback(() => {
     setDateRange(monthRange);
     setApplied(monthRange);
+    setTimeZone(initialData.timeZone);
+    setAppliedZone(initialData.timeZone);
+    setCompareMode("none");
+    setAppliedBaseline(null);
     setValidationError("");
-  }, [monthRange]);
+  }, [monthRange, initialData.timeZone]);
 
   return (
     <div className="page-content">
@@ -1382,7 +3658,17 @@ const AnalyticsDashboard = ({ initialData }: AnalyticsDashboardProps) => {
                       {applied.from === applied.to
                         ? `${applied.from}`
                         : `${applied.from} to ${applied.to}`}
-                    </span>
+                    </span>{" "}
+                    ({appliedZone})
+                    {appliedBaseline && (
+                      <>
+                        {" "}
+                        compared with{" "}
+                        <span className="tw-text-slate-500 tw-font-medium">
+                          {rangeLabel(appliedBaseline)}
+                        </span>
+                      </>
+                    )}
                   </p>
                 </div>
                 <div className="tw-flex tw-flex-col tw-gap-3 tw-text-sm tw-text-slate-600 sm:tw-flex-row sm:tw-items-center sm:tw-gap-4">
@@ -1418,19 +3704,115 @@ const AnalyticsDashboard = ({ initialData }: AnalyticsDashboardProps) => {
                   </label>
                 </div>
               </div>
+              <div className="tw-flex tw-flex-col tw-gap-3 tw-text-sm tw-text-slate-600 sm:tw-flex-row sm:tw-items-center sm:tw-justify-end sm:tw-gap-4">
+                <label className="tw-flex tw-items-center tw-gap-2">
+                  <span>Time zone</span>
+                  <select
+                    value={timeZone}
+                    onChange={(e) => setTimeZone(e.target.value)}
+                    className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+                  >
+                    {zones.map((zone) => (
+                      <option key={zone} value={zone}>
+                        {zone === initialData.timeZone
+                          ? `${zone} (default)`
+                          : zone}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="tw-flex tw-items-center tw-gap-2">
+                  <span>Compare with</span>
+                  <select
+                    value={compareMode}
+                    onChange={(e) =>
+                      handleCompareChange(
+                        e.target.value as ComparisonMode | "none",
+                        customBaseline
+                      )
+                    }
+                    className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-slate-900/60 tw-px-3 tw-py-2 tw-text-sm tw-text-slate-100"
+                  >
+                    <option value="none">No comparison</option>
+                    {(Object.keys(comparisonModes) as ComparisonMode[]).map(
+                      (mode) => (
+                        <option key={mode} value={mode}>
+                          {comparisonModes[mode]}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </label>
+                {compareMode === "custom" && (
+                  <>
+                    <label className="tw-flex tw-items-center tw-gap-2">
+                      <span>Baseline from</span>
+                      <input
+                        type="date"
+                        value={customBaseline.from}
+                        onChange={(e) =>
+                          handleCompareChange("custom", {
+                            from: e.target.value,
+                            to: customBaseline.to,
+                          })
+                        }
+                        className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-white tw-px-3 tw-py-2 tw-text-black focus:tw-outline-none focus:tw-border-slate-100"
+                      />
+                    </label>
+                    <label className="tw-flex tw-items-center tw-gap-2">
+                      <span>To</span>
+                      <input
+                        type="date"
+                        value={customBaseline.to}
+                        onChange={(e) =>
+                          handleCompareChange("custom", {
+                            from: customBaseline.from,
+                            to: e.target.value,
+                          })
+                        }
+                        className="tw-rounded-lg tw-border tw-border-slate-700 tw-bg-white tw-px-3 tw-py-2 tw-text-black focus:tw-outline-none focus:tw-border-slate-100"
+                      />
+                    </label>
+                  </>
+                )}
+              </div>
               {validationError && (
                 <div className="tw-rounded-lg tw-border tw-border-red-500 tw-bg-red-900/20 tw-px-4 tw-py-3 tw-text-sm tw-text-red-300">
                   <span className="tw-font-medium">Validation Error:</span>{" "}
                   {validationError}
                 </div>
               )}
+              {fetchError && (
+                <div className="tw-rounded-lg tw-border tw-border-red-500 tw-bg-red-900/20 tw-px-4 tw-py-3 tw-text-sm tw-text-red-300">
+                  <span className="tw-font-medium">Failed to load range:</span>{" "}
+                  {fetchError}
+                </div>
+              )}
+              {baselineError && (
+                <div className="tw-rounded-lg tw-border tw-border-red-500 tw-bg-red-900/20 tw-px-4 tw-py-3 tw-text-sm tw-text-red-300">
+                  <span className="tw-font-medium">
+                    Failed to load baseline:
+                  </span>{" "}
+                  {baselineError}
+                </div>
+              )}
+              {loading && (
+                <p className="tw-text-xs tw-text-slate-500">
+                  Recomputing analytics for {applied.from} to {applied.to}…
+                </p>
+              )}
+              {baselineLoading && appliedBaseline && (
+                <p className="tw-text-xs tw-text-slate-500">
+                  Loading baseline {rangeLabel(appliedBaseline)}…
+                </p>
+              )}
               <div className="tw-flex tw-flex-col tw-gap-2 sm:tw-flex-row sm:tw-justify-end">
                 <button
                   type="button"
                   onClick={applyDateRange}
-                  disabled={!!validationError}
+                  disabled={!!validationError || loading}
                   className={`tw-rounded-lg tw-border tw-px-6 tw-py-2 tw-text-sm tw-font-medium focus:tw-outline-none focus:tw-ring-2 ${
-                    validationError
+                    validationError || loading
                       ? "tw-border-slate-600 tw-bg-slate-800 tw-text-slate-500 tw-cursor-not-allowed"
                       : "tw-border-emerald-600 tw-bg-green-700 tw-text-white hover:tw-bg-emerald-600 focus:tw-ring-emerald-500"
                   }`}
@@ -1456,23 +3838,45 @@ const AnalyticsDashboard = ({ initialData }: AnalyticsDashboardProps) => {
                   Total Sessions
                 </h2>
                 <p className="tw-mt-2 tw-text-3xl tw-font-semibold">
-                  {filtered.sessions.length.toLocaleString()}
+                  {filtered.summary.sessions.toLocaleString()}
                 </p>
+                {comparison && (
+                  <ChangeNote
+                    change={delta(
+                      filtered.summary.sessions,
+                      comparison.data.summary.sessions
+                    )}
+                  />
+                )}
                 <p className="tw-text-xs tw-text-slate-500 tw-mt-1">
                   {applied.from === applied.to
                     ? `On ${applied.from}`
                     : `${applied.from} to ${applied.to}`}
                 </p>
+                {filtered.sessionization.mode === "inactivity" && (
+                  <p className="tw-text-xs tw-text-slate-500 tw-mt-1">
+                    {filtered.sessionization.gapMinutes} min inactivity gap ·{" "}
+                    {filtered.sessionization.documents.toLocaleString()} visit
+                    documents · {filtered.sessionization.mergedSessions} merged,{" "}
+                    {filtered.sessionization.splitDocuments} split
+                  </p>
+                )}
               </div>
               <div className="tw-card">
                 <h2 className="tw-text-sm tw-uppercase tw-tracking-wide tw-text-slate-400">
                   Total Visitors
                 </h2>
                 <p className="tw-mt-2 tw-text-3xl tw-font-semibold">
-                  {new Set(
-                    filtered.sessions.map((s) => s.visitorId)
-                  ).size.toLocaleString()}
+                  {filtered.summary.visitors.toLocaleString()}
                 </p>
+                {comparison && (
+                  <ChangeNote
+                    change={delta(
+                      filtered.summary.visitors,
+                      comparison.data.summary.visitors
+                    )}
+                  />
+                )}
                 <p className="tw-text-xs tw-text-slate-500 tw-mt-1">
                   Unique visitors in range
                 </p>
@@ -1482,18 +3886,21 @@ const AnalyticsDashboard = ({ initialData }: AnalyticsDashboardProps) => {
                   Conversion Rate
                 </h2>
                 <p className="tw-mt-2 tw-text-3xl tw-font-semibold">
-                  {filtered.sessions.length
-                    ? (
-                        (filtered.sessions.filter((s) => s.nCartAdd > 0)
-                          .length /
-                          filtered.sessions.length) *
-                        100
-                      ).toFixed(1)
-                    : "0.0"}
-                  %
+                  {pct(filtered.funnel.overall.conversion)}
                 </p>
+                {comparison && (
+                  <ChangeNote
+                    change={delta(
+                      filtered.funnel.overall.conversion,
+                      comparison.data.funnel.overall.conversion
+                    )}
+                    rate
+                    formatValue={pct}
+                  />
+                )}
                 <p className="tw-text-xs tw-text-slate-500 tw-mt-1">
-                  Sessions with cart adds
+                  Sessions with a checkout · cart → checkout{" "}
+                  {pct(filtered.funnel.overall.cartToCheckout)}
                 </p>
               </div>
               <div className="tw-card">
@@ -1501,10 +3908,16 @@ const AnalyticsDashboard = ({ initialData }: AnalyticsDashboardProps) => {
                   Total Carts
                 </h2>
                 <p className="tw-mt-2 tw-text-3xl tw-font-semibold">
-                  {filtered.sessions
-                    .reduce((a, s) => a + s.nCartAdd, 0)
-                    .toLocaleString()}
+                  {filtered.summary.cartAdds.toLocaleString()}
                 </p>
+                {comparison && (
+                  <ChangeNote
+                    change={delta(
+                      filtered.summary.cartAdds,
+                      comparison.data.summary.cartAdds
+                    )}
+                  />
+                )}
                 <p className="tw-text-xs tw-text-slate-500 tw-mt-1">
                   Cart additions in range
                 </p>
@@ -1512,6 +3925,17 @@ const AnalyticsDashboard = ({ initialData }: AnalyticsDashboardProps) => {
             </section>
           </div>
           {/* Charts */}
+          <div className="tw-bg-white tw-rounded-lg tw-shadow tw-p-4">
+            <section className="tw-card">
+              <div className="tw-flex tw-flex-col tw-gap-2 sm:tw-flex-row sm:tw-items-center sm:tw-justify-between">
+                <h2 className="tw-card-title">Revenue & order value</h2>
+                <p className="tw-text-xs tw-text-slate-500">
+                  Filtered by date range
+                </p>
+              </div>
+              <RevenueOverview data={filtered} comparison={comparison} />
+            </section>
+          </div>
           <div className="tw-bg-white tw-rounded-lg tw-shadow tw-p-4">
             <section className="tw-card">
               <div className="tw-flex tw-flex-col tw-gap-2 sm:tw-flex-row sm:tw-items-center sm:tw-justify-between">
@@ -1523,6 +3947,39 @@ const AnalyticsDashboard = ({ initialData }: AnalyticsDashboardProps) => {
               <PurchaseFunnelByPrice data={filtered} />
             </section>
           </div>
+          <div className="tw-bg-white tw-rounded-lg tw-shadow tw-p-4">
+            <section className="tw-card">
+              <div className="tw-flex tw-flex-col tw-gap-2 sm:tw-flex-row sm:tw-items-center sm:tw-justify-between">
+                <h2 className="tw-card-title">Checkout funnel</h2>
+                <p className="tw-text-xs tw-text-slate-500">
+                  Filtered by date range
+                </p>
+              </div>
+              <CheckoutFunnelBreakdown data={filtered} />
+            </section>
+          </div>
+          <div className="tw-bg-white tw-rounded-lg tw-shadow tw-p-4">
+            <section className="tw-card">
+              <div className="tw-flex tw-flex-col tw-gap-2 sm:tw-flex-row sm:tw-items-center sm:tw-justify-between">
+                <h2 className="tw-card-title">Country funnel</h2>
+                <p className="tw-text-xs tw-text-slate-500">
+                  Filtered by date range
+                </p>
+              </div>
+              <GeoFunnel data={filtered} />
+            </section>
+          </div>
+          <div className="tw-bg-white tw-rounded-lg tw-shadow tw-p-4">
+            <section className="tw-card">
+              <div className="tw-flex tw-flex-col tw-gap-2 sm:tw-flex-row sm:tw-items-center sm:tw-justify-between">
+                <h2 className="tw-card-title">Time between steps</h2>
+                <p className="tw-text-xs tw-text-slate-500">
+                  Filtered by date range
+                </p>
+              </div>
+              <JourneyLatency data={filtered} />
+            </section>
+          </div>
           <div className="tw-bg-white tw-rounded-lg tw-shadow tw-p-4">
             <section className="tw-card">
               <div className="tw-flex tw-flex-col tw-gap-2 sm:tw-flex-row sm:tw-items-center sm:tw-justify-between">
@@ -1533,7 +3990,32 @@ const AnalyticsDashboard = ({ initialData }: AnalyticsDashboardProps) => {
                   Filtered by date range
                 </p>
               </div>
-              <TransitionHeatmap data={filtered} />
+              <div className="tw-grid tw-gap-6 xl:tw-grid-cols-[3fr_2fr]">
+                <TransitionHeatmap data={filtered} comparison={comparison} />
+                <EventualConversion data={filtered} />
+              </div>
+            </section>
+          </div>
+          <div className="tw-bg-white tw-rounded-lg tw-shadow tw-p-4">
+            <section className="tw-card">
+              <div className="tw-flex tw-flex-col tw-gap-2 sm:tw-flex-row sm:tw-items-center sm:tw-justify-between">
+                <h2 className="tw-card-title">Touchpoint attribution</h2>
+                <p className="tw-text-xs tw-text-slate-500">
+                  Filtered by date range
+                </p>
+              </div>
+              <TouchpointAttribution data={filtered} />
+            </section>
+          </div>
+          <div className="tw-bg-white tw-rounded-lg tw-shadow tw-p-4">
+            <section className="tw-card">
+              <div className="tw-flex tw-flex-col tw-gap-2 sm:tw-flex-row sm:tw-items-center sm:tw-justify-between">
+                <h2 className="tw-card-title">Visitor cohort retention</h2>
+                <p className="tw-text-xs tw-text-slate-500">
+                  Filtered by date range
+                </p>
+              </div>
+              <CohortRetentionHeatmap data={filtered} />
             </section>
           </div>
           <div className="tw-bg-white tw-rounded-lg tw-shadow tw-p-4">
@@ -1555,7 +4037,7 @@ const AnalyticsDashboard = ({ initialData }: AnalyticsDashboardProps) => {
                   Filtered by date range
                 </p>
               </div>
-              <PriceBandsChart data={filtered} />
+              <PriceBandsChart data={filtered} comparison={comparison} />
             </section>
           </div>
           <div className="tw-bg-white tw-rounded-lg tw-shadow tw-p-4">
@@ -1566,7 +4048,18 @@ const AnalyticsDashboard = ({ initialData }: AnalyticsDashboardProps) => {
                 </h2>
                 <p className="tw-muted">Filtered by date range above</p>
               </div>
-              <DailyTrends data={filtered} />
+              <DailyTrends data={filtered} comparison={comparison} />
+            </section>
+          </div>
+          <div className="tw-bg-white tw-rounded-lg tw-shadow tw-p-4">
+            <section className="tw-card">
+              <div className="tw-flex tw-flex-col tw-gap-2 sm:tw-flex-row sm:tw-items-center sm:tw-justify-between">
+                <h2 className="tw-card-title">Activity by hour and weekday</h2>
+                <p className="tw-text-xs tw-text-slate-600">
+                  Filtered by date range
+                </p>
+              </div>
+              <ActivityHeatmap data={filtered} />
             </section>
           </div>
           <div className="tw-bg-white tw-rounded-lg tw-shadow tw-p-4">
@@ -1588,7 +4081,7 @@ const AnalyticsDashboard = ({ initialData }: AnalyticsDashboardProps) => {
                   Filtered by date range
                 </p>
               </div>
-              <CartLeakByCategory data={filtered} />
+              <CartLeakByCategory data={filtered} comparison={comparison} />
             </section>
           </div>
           <div className="tw-bg-white tw-rounded-lg tw-shadow tw-p-4">
@@ -1602,6 +4095,41 @@ const AnalyticsDashboard = ({ initialData }: AnalyticsDashboardProps) => {
               <ItemRecommender data={filtered} />
             </section>
           </div>
+          <div className="tw-bg-white tw-rounded-lg tw-shadow tw-p-4">
+            <section className="tw-card">
+              <div className="tw-flex tw-flex-col tw-gap-2 sm:tw-flex-row sm:tw-items-center sm:tw-justify-between">
+                <h2 className="tw-card-title">
+                  Frequently bought/viewed together
+                </h2>
+                <p className="tw-text-xs tw-text-slate-600">
+                  Filtered by date range
+                </p>
+              </div>
+              <FrequentlyTogether data={filtered} />
+            </section>
+          </div>
+          <div className="tw-bg-white tw-rounded-lg tw-shadow tw-p-4">
+            <section className="tw-card">
+              <div className="tw-flex tw-flex-col tw-gap-2 sm:tw-flex-row sm:tw-items-center sm:tw-justify-between">
+                <h2 className="tw-card-title">Cross-sell matrix</h2>
+                <p className="tw-text-xs tw-text-slate-600">
+                  Filtered by date range
+                </p>
+              </div>
+              <CrossSellMatrix data={filtered} />
+            </section>
+          </div>
+          <div className="tw-bg-white tw-rounded-lg tw-shadow tw-p-4">
+            <section className="tw-card">
+              <div className="tw-flex tw-flex-col tw-gap-2 sm:tw-flex-row sm:tw-items-center sm:tw-justify-between">
+                <h2 className="tw-card-title">Data quality</h2>
+                <p className="tw-text-xs tw-text-slate-600">
+                  Filtered by date range
+                </p>
+              </div>
+              <DataQualityPanel data={filtered} />
+            </section>
+          </div>
         </div>
         {/* </div> */}
       </div>
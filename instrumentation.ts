@@ -0,0 +1,16 @@
+// Validate configuration once at server startup so misconfiguration is
+// reported up front instead of on the first dashboard request.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { ConfigError, getConfig } = await import("@/lib/config");
+  try {
+    getConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`[startup] ${error.message}`);
+      return;
+    }
+    throw error;
+  }
+}
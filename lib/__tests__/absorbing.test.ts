@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  computeAnalyticsFromDocs,
+  type AbsorbingRow,
+} from "@/lib/analytic.service";
+import { assertClose, listing, visit } from "./fixtures";
+
+const listings = [listing("i1", 10, "Shirts")];
+
+// view -> exit ×2, view -> checkout ×1, view -> cart -> checkout ×3,
+// view -> cart -> exit ×1
+const docs = [
+  visit("a", "2025-01-06T10:00:00Z", { views: ["i1"] }),
+  visit("b", "2025-01-06T10:00:00Z", { views: ["i1"] }),
+  visit("c", "2025-01-06T10:00:00Z", { views: ["i1"], checkouts: ["i1"] }),
+  ...["d", "e", "f"].map((visitor) =>
+    visit(visitor, "2025-01-06T11:00:00Z", {
+      views: ["i1"],
+      carts: ["i1"],
+      checkouts: ["i1"],
+    })
+  ),
+  visit("g", "2025-01-06T12:00:00Z", { views: ["i1"], carts: ["i1"] }),
+];
+
+function row(
+  rows: AbsorbingRow[],
+  state: string,
+  previous: string | null = null
+) {
+  const found = rows.find(
+    (entry) => entry.state === state && entry.previous === previous
+  );
+  assert.ok(found, `${previous ?? ""}|${state}`);
+  return found;
+}
+
+describe("absorbing chain", () => {
+  it("solves checkout probabilities and expected steps", () => {
+    const { absorbing } = computeAnalyticsFromDocs(docs, listings, []);
+    const cart = row(absorbing.firstOrder, "cart_add");
+    const view = row(absorbing.firstOrder, "view");
+    const start = row(absorbing.firstOrder, "start");
+
+    assert.equal(cart.transitions, 4);
+    assertClose(cart.pCheckout, 3 / 4);
+    assertClose(view.pCheckout, 4 / 7);
+    assertClose(view.pExit, 3 / 7);
+    assertClose(start.pCheckout, 4 / 7);
+    assertClose(view.expectedSteps, 11 / 7);
+    assertClose(start.expectedSteps, 18 / 7);
+    assert.equal(absorbing.secondOrder, null);
+  });
+
+  it("conditions on the previous state in second order", () => {
+    const options = { markovOrder: 2 } as const;
+    const { absorbing } = computeAnalyticsFromDocs(
+      docs,
+      listings,
+      [],
+      undefined,
+      options
+    );
+    assert.equal(absorbing.order, 2);
+    const secondOrder = absorbing.secondOrder ?? [];
+    const viewAfterStart = row(secondOrder, "view", "start");
+    const cartAfterView = row(secondOrder, "cart_add", "view");
+    assertClose(viewAfterStart.pCheckout, 4 / 7);
+    assertClose(cartAfterView.pCheckout, 3 / 4);
+  });
+});
@@ -0,0 +1,139 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  ANOMALY_DETECTORS,
+  computeAnalyticsFromDocs,
+  type AnomalyDetectorName,
+} from "@/lib/analytic.service";
+import { assertClose, listing, visit } from "./fixtures";
+
+const THRESHOLD = 3.5;
+
+function days(count: number) {
+  return Array.from({ length: count }, (_, i) =>
+    new Date(Date.UTC(2025, 0, 6 + i)).toISOString().slice(0, 10)
+  );
+}
+
+// Deterministic ±2 noise around `level`
+function noisy(dates: string[], level: (index: number) => number) {
+  return dates.map((_, i) => level(i) + ((i * 7) % 5) - 2);
+}
+
+function flagged(name: AnomalyDetectorName, values: number[], dates: string[]) {
+  return ANOMALY_DETECTORS[name]
+    .fit(values, dates)
+    .flatMap((fit, index) =>
+      fit &&
+      fit.spread > 0 &&
+      Math.abs(values[index] - fit.expected) / fit.spread >= THRESHOLD
+        ? [index]
+        : []
+    );
+}
+
+describe("anomaly detectors", () => {
+  it("each flag only a drop in an otherwise steady series", () => {
+    const dates = days(21);
+    const values = noisy(dates, () => 100);
+    values[15] = 40;
+    for (const name of ["mad", "stl", "ewma"] as const) {
+      assert.deepEqual(flagged(name, values, dates), [15], name);
+    }
+  });
+
+  it("stl allows for the weekday pattern that mad flags", () => {
+    const week = [100, 103, 98, 101, 99, 60, 63];
+    const dates = days(35);
+    const values = noisy(dates, (i) => week[i % 7]);
+    values[24] = 250;
+
+    assert.deepEqual(flagged("stl", values, dates), [24]);
+    const mad = flagged("mad", values, dates);
+    assert.ok(mad.includes(24));
+    assert.ok(mad.includes(5) && mad.includes(6), "weekend flagged by mad");
+  });
+
+  it("make no judgement without enough history or any spread", () => {
+    const dates = days(10);
+    const short = noisy(dates, () => 100);
+    assert.deepEqual(
+      ANOMALY_DETECTORS.stl.fit(short, dates),
+      Array(10).fill(null)
+    );
+    assert.equal(
+      ANOMALY_DETECTORS.ewma.fit(short, dates).filter((fit) => fit).length,
+      3
+    );
+    const flat = Array(21).fill(50);
+    for (const name of ["mad", "stl", "ewma"] as const) {
+      assert.deepEqual(flagged(name, flat, days(21)), [], name);
+    }
+  });
+
+  it("explain flagged days in the daily section", () => {
+    const dates = days(21);
+    const counts = dates.map((_, i) => (i === 10 ? 20 : 4 + (i % 3)));
+    const docs = dates.flatMap((date, i) =>
+      Array.from({ length: counts[i] }, (_, n) =>
+        visit(`v${i}-${n}`, `${date}T12:00:00Z`, { views: ["i1"] })
+      )
+    );
+    const { daily } = computeAnalyticsFromDocs(
+      docs,
+      [listing("i1", 10, "Shirts")],
+      [],
+      undefined,
+      { anomalyDetectors: ["mad"], anomalyThreshold: THRESHOLD }
+    );
+
+    assert.equal(daily.anomalies.length, 1);
+    const [anomaly] = daily.anomalies;
+    assert.equal(anomaly.date, "2025-01-16");
+    assert.equal(anomaly.metric, "views");
+    assert.equal(anomaly.direction, "spike");
+    assert.equal(anomaly.severity, "high");
+    assert.equal(anomaly.expected, 5);
+    // Deviations of 0 and 1 around 5 give a MAD of 1, scaled to 1.4826
+    assertClose(anomaly.score, 15 / 1.4826);
+    assertClose(anomaly.upper, 5 + THRESHOLD * 1.4826);
+    assert.equal(
+      anomaly.explanation,
+      "Views 20 against 5 expected from the median of the 7 days either " +
+        "side: 10.1× the usual deviation above"
+    );
+  });
+
+  it("keep undated documents out of the daily series", () => {
+    const dates = days(21);
+    const docs = [
+      ...dates.map((date, i) =>
+        visit(`v${i}`, `${date}T12:00:00Z`, { views: ["i1"] })
+      ),
+      visit("late", "2025-01-10T12:00:00Z", {}, { createdAt: undefined }),
+      visit("bad", "2025-01-10T12:00:00Z", {}, { createdAt: "not a date" }),
+    ];
+    const { daily, summary, dataQuality } = computeAnalyticsFromDocs(
+      docs,
+      [listing("i1", 10, "Shirts")],
+      [],
+      undefined,
+      { anomalyDetectors: ["mad", "stl", "ewma"] }
+    );
+
+    assert.deepEqual(
+      daily.series.map((row) => row.date),
+      dates
+    );
+    assert.equal(
+      daily.series.reduce((acc, row) => acc + row.sessions, 0),
+      21
+    );
+    assert.deepEqual(daily.anomalies, []);
+    assert.equal(summary.sessions, 23);
+    assert.equal(summary.lastSessionAt, "2025-01-26T12:00:00.000Z");
+    const codes = dataQuality.issues.map((issue) => issue.code);
+    assert.ok(codes.includes("missing_created_at"));
+    assert.ok(codes.includes("unparsable_date"));
+  });
+});
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { computeAnalyticsFromDocs } from "@/lib/analytic.service";
+import { assertClose, listing, visit } from "./fixtures";
+
+describe("association rules", () => {
+  it("reports support, confidence and lift", () => {
+    const listings = ["a", "b", "c"].map((id) => listing(id, 10, "Shirts"));
+    const docs = [
+      visit("v1", "2025-01-06T10:00:00Z", { views: ["a", "b"] }),
+      visit("v2", "2025-01-06T10:00:00Z", { views: ["b", "a"] }),
+      visit("v3", "2025-01-06T10:00:00Z", { views: ["a"] }),
+      visit("v4", "2025-01-06T10:00:00Z", { views: ["c"] }),
+    ];
+    const { associations } = computeAnalyticsFromDocs(docs, listings, []);
+    const { viewed } = associations;
+
+    assert.equal(viewed.transactions, 4);
+    assert.deepEqual(viewed.itemsets, [
+      { items: ["a", "b"], count: 2, support: 0.5 },
+    ]);
+    const aToB = viewed.rules.find((rule) => rule.antecedent[0] === "a");
+    const bToA = viewed.rules.find((rule) => rule.antecedent[0] === "b");
+    assertClose(aToB?.confidence ?? NaN, 2 / 3);
+    assertClose(aToB?.lift ?? NaN, 4 / 3);
+    assertClose(bToA?.confidence ?? NaN, 1);
+    assertClose(bToA?.lift ?? NaN, 4 / 3);
+  });
+
+  it("leaves baskets over 20 items out of every count", () => {
+    const ids = Array.from({ length: 21 }, (_, i) => `x${i}`);
+    const listings = ["a", "b", ...ids].map((id) => listing(id, 10, "Shirts"));
+    const docs = [
+      visit("v1", "2025-01-06T10:00:00Z", { views: ["a", "b"] }),
+      visit("v2", "2025-01-06T10:00:00Z", { views: ["a", "b"] }),
+      visit("v3", "2025-01-06T10:00:00Z", { views: ["a"] }),
+      visit("v4", "2025-01-06T10:00:00Z", { views: ["a", ...ids] }),
+    ];
+    const { viewed } = computeAnalyticsFromDocs(
+      docs,
+      listings,
+      []
+    ).associations;
+
+    assert.equal(viewed.transactions, 3);
+    assert.equal(viewed.skippedSessions, 1);
+    const aToB = viewed.rules.find((rule) => rule.antecedent[0] === "a");
+    // Over v1–v3 only: the big basket's "a" does not dilute the confidence
+    assertClose(aToB?.confidence ?? NaN, 2 / 3);
+    assertClose(aToB?.lift ?? NaN, 1);
+  });
+
+  it("joins itemsets of non-ASCII ids in code-unit order", () => {
+    // Locale order puts "é" next to "e"; code-unit order puts it after "f"
+    const ids = ["e", "é", "f"];
+    const listings = ids.map((id) => listing(id, 10, "Shirts"));
+    const docs = ["v1", "v2", "v3"].map((visitor) =>
+      visit(visitor, "2025-01-06T10:00:00Z", { views: ids })
+    );
+    const { viewed } = computeAnalyticsFromDocs(docs, listings, [], undefined, {
+      ruleMaxItems: 3,
+    }).associations;
+
+    const triple = viewed.itemsets.find((set) => set.items.length === 3);
+    assert.deepEqual(triple, { items: ["e", "f", "é"], count: 3, support: 1 });
+    assert.equal(viewed.itemsets.length, 4);
+  });
+});
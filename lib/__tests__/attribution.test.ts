@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { computeAnalyticsFromDocs } from "@/lib/analytic.service";
+import { assertClose, listing, visit } from "./fixtures";
+
+describe("removal attribution", () => {
+  it("credits the touchpoint every checkout passes through", () => {
+    const listings = [listing("i1", 10, "Shirts"), listing("i2", 40, "Shoes")];
+    const docs = [
+      // Shoes views never convert; every checkout is a shirt view + cart
+      ...["a", "b"].map((visitor) =>
+        visit(visitor, "2025-01-06T10:00:00Z", {
+          views: ["i1"],
+          carts: ["i1"],
+          checkouts: ["i1"],
+        })
+      ),
+      ...["c", "d"].map((visitor) =>
+        visit(visitor, "2025-01-06T11:00:00Z", { views: ["i2"] })
+      ),
+    ];
+    const { attribution } = computeAnalyticsFromDocs(docs, listings, []);
+
+    assertClose(attribution.baseline, 0.5);
+    const shirts = attribution.byCategory.find(
+      (row) => row.category === "Shirts"
+    );
+    const shoes = attribution.byCategory.find(
+      (row) => row.category === "Shoes"
+    );
+    assertClose(shirts?.removalEffect ?? NaN, 0.5);
+    assertClose(shirts?.relativeEffect ?? NaN, 1);
+    assertClose(shoes?.removalEffect ?? NaN, 0);
+    assert.deepEqual(
+      attribution.byState.map((row) => [row.state, row.share]),
+      [
+        ["view", 0.5],
+        ["cart_add", 0.5],
+      ]
+    );
+  });
+
+  it("pools categories beyond the top twelve into Other", () => {
+    // 15 categories; the three smallest get one converting session each
+    const categories = Array.from({ length: 15 }, (_, i) => `Category ${i}`);
+    const listings = categories.map((category, i) =>
+      listing(`i${i}`, 10, category)
+    );
+    const docs = categories.flatMap((_, i) =>
+      Array.from({ length: i < 12 ? 3 : 1 }, (__, n) =>
+        visit(`v${i}-${n}`, "2025-01-06T10:00:00Z", {
+          views: [`i${i}`],
+          checkouts: n === 0 ? [`i${i}`] : [],
+        })
+      )
+    );
+    const { attribution } = computeAnalyticsFromDocs(docs, listings, []);
+
+    const reported = attribution.byCategory.map((row) => row.category).sort();
+    assert.deepEqual(reported, [...categories.slice(0, 12), "Other"].sort());
+    assert.deepEqual(
+      attribution.byStateCategory.map((row) => row.state),
+      Array(13).fill("view")
+    );
+
+    // Every checkout path goes through exactly one category, so removing
+    // each one in turn accounts for the whole baseline
+    const total = attribution.byCategory.reduce(
+      (acc, row) => acc + row.removalEffect,
+      0
+    );
+    assertClose(total, attribution.baseline);
+    const other = attribution.byCategory.find(
+      (row) => row.category === "Other"
+    );
+    assertClose(other?.removalEffect ?? NaN, 3 / docs.length);
+  });
+});
@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { after, beforeEach, describe, it } from "node:test";
+import type { Db } from "mongodb";
+import { parseDateRange } from "@/lib/analytic.service";
+import {
+  getAnalyticsSnapshot,
+  invalidateAnalyticsSnapshots,
+} from "@/lib/cache";
+import { getConfig } from "@/lib/config";
+import { listing, visit } from "./fixtures";
+import { memoryDb } from "./memory-db";
+
+// getConfig() reads the environment once, on first use
+process.env.MONGODB_URI = "mongodb://localhost:27017";
+process.env.ANALYTICS_CACHE_TTL_SECONDS = "60";
+process.env.ANALYTICS_CACHE_STALE_SECONDS = "60";
+
+const { db, docs } = memoryDb({
+  listings: [listing("i1", 10, "Shirts")],
+  customervisits: [visit("a", "2025-01-06T10:00:00Z", { views: ["i1"] })],
+});
+
+// Every snapshot computation loads the catalogue once
+let computations = 0;
+const countingDb = {
+  collection(name: string) {
+    if (name === "listings") computations += 1;
+    return db.collection(name);
+  },
+} as unknown as Db;
+
+// lib/mongo.ts (imported through lib/cache.ts) keeps its client on
+// globalThis; hand it the in-memory db instead of connecting
+const mongoState = (globalThis as { __analyticsMongo?: { client: unknown } })
+  .__analyticsMongo;
+assert.ok(mongoState);
+mongoState.client = { db: () => countingDb };
+
+// Snapshot ages are read from Date.now(), moved forward by `elapsed` seconds
+const realNow = Date.now;
+let elapsed = 0;
+Date.now = () => realNow() + elapsed * 1000;
+after(() => {
+  Date.now = realNow;
+});
+
+const parsed = parseDateRange("2025-01-06", "2025-01-08");
+assert.ok(parsed.ok);
+const range = parsed.range;
+
+// Lets a background refresh finish
+const settle = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+function addVisitor(visitorId: string) {
+  docs("customervisits").push(
+    visit(visitorId, "2025-01-07T10:00:00Z", { views: ["i1"] })
+  );
+}
+
+describe("analytics snapshot cache", () => {
+  beforeEach(() => {
+    invalidateAnalyticsSnapshots();
+    computations = 0;
+    elapsed = 0;
+  });
+
+  it("computes on a miss and serves the copy while fresh", async () => {
+    const miss = await getAnalyticsSnapshot(range);
+    addVisitor("b");
+    elapsed = 30;
+    const hit = await getAnalyticsSnapshot(range);
+
+    assert.equal(miss.cache?.status, "miss");
+    assert.equal(hit.cache?.status, "hit");
+    assert.equal(hit.cache?.ageSeconds, 30);
+    assert.equal(hit.summary.sessions, miss.summary.sessions);
+    assert.equal(computations, 1);
+  });
+
+  it("serves a stale copy while it refreshes in the background", async () => {
+    const first = await getAnalyticsSnapshot(range);
+    addVisitor("c");
+    elapsed = 90;
+    const stale = await getAnalyticsSnapshot(range);
+    await settle();
+    elapsed = 0;
+    const refreshed = await getAnalyticsSnapshot(range);
+
+    assert.equal(stale.cache?.status, "stale");
+    assert.equal(stale.summary.sessions, first.summary.sessions);
+    assert.equal(refreshed.cache?.status, "hit");
+    assert.equal(refreshed.summary.sessions, first.summary.sessions + 1);
+    assert.equal(computations, 2);
+  });
+
+  it("recomputes before answering once past the stale window", async () => {
+    const first = await getAnalyticsSnapshot(range);
+    addVisitor("d");
+    elapsed = 150;
+    const expired = await getAnalyticsSnapshot(range);
+
+    assert.equal(expired.cache?.status, "miss");
+    assert.equal(expired.summary.sessions, first.summary.sessions + 1);
+    assert.equal(computations, 2);
+  });
+
+  it("shares one computation between concurrent misses", async () => {
+    const results = await Promise.all([
+      getAnalyticsSnapshot(range),
+      getAnalyticsSnapshot(range),
+      getAnalyticsSnapshot(range),
+    ]);
+
+    assert.deepEqual(
+      results.map((result) => result.cache?.status),
+      ["miss", "miss", "miss"]
+    );
+    assert.equal(computations, 1);
+  });
+
+  it("bypasses the cache when the TTL is 0", async () => {
+    const { cache } = getConfig();
+    cache.ttlSeconds = 0;
+    try {
+      const first = await getAnalyticsSnapshot(range);
+      const second = await getAnalyticsSnapshot(range);
+
+      assert.equal(first.cache?.status, "bypass");
+      assert.equal(second.cache?.status, "bypass");
+      assert.equal(computations, 2);
+    } finally {
+      cache.ttlSeconds = 60;
+    }
+    assert.equal(invalidateAnalyticsSnapshots(), 0);
+  });
+});
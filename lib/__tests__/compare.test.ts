@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { alignToRange, baselineRange, delta } from "@/lib/compare";
+
+describe("baselineRange", () => {
+  it("takes the same number of days right before the range", () => {
+    assert.deepEqual(
+      baselineRange({ from: "2025-03-01", to: "2025-03-07" }, "previous"),
+      { from: "2025-02-22", to: "2025-02-28" }
+    );
+    assert.deepEqual(
+      baselineRange({ from: "2025-03-10", to: "2025-03-10" }, "previous"),
+      { from: "2025-03-09", to: "2025-03-09" }
+    );
+  });
+
+  it("takes the same calendar dates a year earlier", () => {
+    assert.deepEqual(
+      baselineRange({ from: "2025-01-01", to: "2025-01-31" }, "year"),
+      { from: "2024-01-01", to: "2024-01-31" }
+    );
+    // 29 February has no counterpart and falls back to the 28th
+    assert.deepEqual(
+      baselineRange({ from: "2024-02-29", to: "2024-03-01" }, "year"),
+      { from: "2023-02-28", to: "2023-03-01" }
+    );
+  });
+});
+
+describe("alignToRange", () => {
+  it("moves baseline days onto the current range by offset", () => {
+    const current = { from: "2025-03-01", to: "2025-03-07" };
+    const baseline = { from: "2025-02-22", to: "2025-02-28" };
+    assert.equal(alignToRange("2025-02-22", baseline, current), "2025-03-01");
+    assert.equal(alignToRange("2025-02-28", baseline, current), "2025-03-07");
+  });
+
+  it("keeps day offsets across month ends of different lengths", () => {
+    const current = { from: "2025-03-01", to: "2025-03-31" };
+    const baseline = { from: "2025-01-29", to: "2025-02-28" };
+    assert.equal(alignToRange("2025-02-01", baseline, current), "2025-03-04");
+  });
+});
+
+describe("delta", () => {
+  it("reports absolute and relative change", () => {
+    assert.deepEqual(delta(150, 100), {
+      current: 150,
+      baseline: 100,
+      change: 50,
+      relative: 0.5,
+    });
+    assert.equal(delta(80, 100).relative, -0.2);
+  });
+
+  it("has no relative change against a zero baseline", () => {
+    assert.deepEqual(delta(5, 0), {
+      current: 5,
+      baseline: 0,
+      change: 5,
+      relative: null,
+    });
+  });
+});
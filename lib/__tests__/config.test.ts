@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ConfigError, loadConfig } from "@/lib/config";
+
+const URI = "mongodb://localhost:27017";
+
+function issuesOf(env: Record<string, string>) {
+  try {
+    loadConfig(env);
+  } catch (error) {
+    assert.ok(error instanceof ConfigError);
+    return error.issues;
+  }
+  assert.fail("expected a ConfigError");
+}
+
+describe("loadConfig", () => {
+  it("reports every problem in one ConfigError", () => {
+    const issues = issuesOf({
+      DB_NAME: "my db",
+      ANALYTICS_BATCH_SIZE: "0",
+      ANALYTICS_RULE_MIN_LIFT: "lots",
+    });
+
+    assert.deepEqual(
+      issues.map(({ key, problem }) => ({ key, problem })),
+      [
+        { key: "MONGODB_URI", problem: "missing" },
+        { key: "DB_NAME", problem: "invalid" },
+        { key: "ANALYTICS_BATCH_SIZE", problem: "invalid" },
+        { key: "ANALYTICS_RULE_MIN_LIFT", problem: "invalid" },
+      ]
+    );
+  });
+
+  it("lists the issues in the error message", () => {
+    assert.throws(
+      () => loadConfig({ MONGODB_URI: URI, ANALYTICS_BATCH_SIZE: "-1" }),
+      /ANALYTICS_BATCH_SIZE \(invalid\): expected an integer >= 1, got "-1"/
+    );
+  });
+
+  it("falls back to MONGO_URI", () => {
+    assert.equal(loadConfig({ MONGO_URI: URI }).mongoUri, URI);
+    assert.equal(
+      loadConfig({ MONGODB_URI: URI, MONGO_URI: "mongodb://other" }).mongoUri,
+      URI
+    );
+  });
+
+  it("blames the variable the URI came from", () => {
+    assert.deepEqual(issuesOf({ MONGO_URI: "localhost" }), [
+      {
+        key: "MONGO_URI",
+        problem: "invalid",
+        message: "must start with mongodb:// or mongodb+srv://",
+      },
+    ]);
+  });
+
+  it("treats blank values as unset", () => {
+    const config = loadConfig({ MONGODB_URI: ` ${URI} `, DB_NAME: "  " });
+    assert.equal(config.mongoUri, URI);
+    assert.equal(config.dbName, "BMR");
+  });
+});
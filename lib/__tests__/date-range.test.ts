@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseDateRange } from "@/lib/analytic.service";
+
+describe("parseDateRange", () => {
+  it("covers whole UTC days, both ends inclusive", () => {
+    const parsed = parseDateRange("2025-03-01", "2025-03-02");
+    assert.ok(parsed.ok);
+    assert.equal(parsed.range.from?.toISOString(), "2025-03-01T00:00:00.000Z");
+    assert.equal(parsed.range.to?.toISOString(), "2025-03-02T23:59:59.999Z");
+  });
+
+  it("leaves a missing side open", () => {
+    const parsed = parseDateRange(null, "2025-03-02");
+    assert.ok(parsed.ok);
+    assert.equal(parsed.range.from, null);
+  });
+
+  it("rejects malformed and rolled-over days", () => {
+    for (const value of ["2025-3-1", "2025-09-31", "yesterday"]) {
+      const parsed = parseDateRange(value, null);
+      assert.equal(parsed.ok, false, value);
+    }
+  });
+
+  it("rejects a range that ends before it starts", () => {
+    const parsed = parseDateRange("2025-03-02", "2025-03-01");
+    assert.deepEqual(parsed, {
+      ok: false,
+      error: "'to' date cannot be before 'from' date",
+    });
+  });
+});
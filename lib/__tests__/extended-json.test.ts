@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  ExportParseError,
+  parseExtendedJson,
+  readExtendedJson,
+} from "@/lib/extended-json";
+
+async function collect(chunks: Array<string | Buffer>) {
+  async function* stream() {
+    yield* chunks;
+  }
+  const docs = [];
+  for await (const doc of readExtendedJson(stream())) docs.push(doc);
+  return docs;
+}
+
+// Splits the UTF-8 bytes of `text` into `size`-byte Buffers
+function byteChunks(text: string, size: number) {
+  const bytes = Buffer.from(text, "utf-8");
+  const chunks: Buffer[] = [];
+  for (let at = 0; at < bytes.length; at += size) {
+    chunks.push(bytes.subarray(at, at + size));
+  }
+  return chunks;
+}
+
+describe("parseExtendedJson", () => {
+  it("unwraps numeric wrappers and keeps $oid and $date", () => {
+    const [doc] = parseExtendedJson(
+      '{"_id":{"$oid":"abc"},"n":{"$numberLong":"42"},' +
+        '"at":{"$date":{"$numberLong":"1736164800000"}}}'
+    );
+    assert.deepEqual(doc, {
+      _id: { $oid: "abc" },
+      n: 42,
+      at: { $date: 1736164800000 },
+    });
+  });
+
+  it("reads NDJSON and JSON arrays alike", () => {
+    const lines = parseExtendedJson('{"a":1}\r\n\n{"a":2}\n');
+    const array = parseExtendedJson(' [{"a":1},{"a":2}]');
+    assert.deepEqual(lines, [{ a: 1 }, { a: 2 }]);
+    assert.deepEqual(array, lines);
+  });
+
+  it("reports the NDJSON line of a bad record", () => {
+    assert.throws(
+      () => parseExtendedJson('{"a":1}\n[1]\n'),
+      (error: unknown) =>
+        error instanceof ExportParseError &&
+        error.line === 2 &&
+        error.message === "line 2: expected a JSON object"
+    );
+  });
+});
+
+describe("readExtendedJson", () => {
+  it("keeps multi-byte characters split across chunks", async () => {
+    const text = '{"name":"Café"}\n{"country":"Österreich","emoji":"🛒"}\n';
+    for (const size of [1, 2, 3, 5, 17]) {
+      assert.deepEqual(
+        await collect(byteChunks(text, size)),
+        [{ name: "Café" }, { country: "Österreich", emoji: "🛒" }],
+        `chunks of ${size} bytes`
+      );
+    }
+  });
+
+  it("buffers a JSON array split over chunks", async () => {
+    const docs = await collect(byteChunks('[{"name":"Ünïcode"}]', 4));
+    assert.deepEqual(docs, [{ name: "Ünïcode" }]);
+  });
+
+  it("parses a last line without a trailing newline", async () => {
+    const docs = await collect(['{"a":1}\n{"a"', ":2}"]);
+    assert.deepEqual(docs, [{ a: 1 }, { a: 2 }]);
+  });
+});
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import type { RawDoc } from "@/lib/analytic.service";
+
+type VisitEvents = {
+  views?: string[];
+  carts?: string[];
+  /** Items added to the cart and later removed again. */
+  removed?: string[];
+  wishlist?: string[];
+  checkouts?: string[];
+};
+
+let nextId = 0;
+
+export function listing(id: string, price: number, category: string): RawDoc {
+  return {
+    _id: id,
+    alias: id,
+    prodPricing: { retailPrice: price },
+    prodTechInfo: { type: category },
+  };
+}
+
+/**
+ * A tracking document whose events all happen at `at`, in the shape of
+ * `customervisits` (Dates, as the driver returns them).
+ */
+export function visit(
+  visitorId: string,
+  at: string,
+  events: VisitEvents = {},
+  extra: RawDoc = {}
+): RawDoc {
+  const createdAt = new Date(at);
+  const entries = (items: string[] = [], deleted = false) =>
+    items.map((item) => ({
+      item,
+      createdAt,
+      ...(deleted ? { deleted: true, updatedAt: createdAt } : {}),
+    }));
+  nextId += 1;
+  return {
+    _id: `visit-${nextId}`,
+    visitorId,
+    createdAt,
+    geo: { country: "GB" },
+    viewItems: entries(events.views),
+    cartItems: [...entries(events.carts), ...entries(events.removed, true)],
+    wishlistItems: entries(events.wishlist),
+    checkoutItems: entries(events.checkouts),
+    ...extra,
+  };
+}
+
+export function assertClose(actual: number, expected: number, epsilon = 1e-9) {
+  assert.ok(
+    Math.abs(actual - expected) <= epsilon,
+    `expected ${expected}, got ${actual}`
+  );
+}
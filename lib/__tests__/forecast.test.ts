@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { forecastSeries } from "@/lib/forecast";
+import { assertClose } from "./fixtures";
+
+const WEEK = [120, 130, 125, 128, 140, 60, 55];
+
+const weeks = (count: number, at: (index: number) => number) =>
+  Array.from({ length: count * 7 }, (_, index) => at(index));
+
+describe("forecastSeries", () => {
+  it("continues an exact weekly pattern with no error", () => {
+    const values = weeks(5, (i) => WEEK[i % 7]);
+    const forecast = forecastSeries(values, { horizon: 10, backtestDays: 7 });
+    assert.ok(forecast);
+
+    forecast.points.forEach((point, h) => {
+      assertClose(point.value, WEEK[h % 7], 1e-6);
+      assertClose(point.upper - point.lower, 0, 1e-6);
+    });
+    assertClose(forecast.sigma, 0, 1e-9);
+    assert.equal(forecast.backtest.evaluatedDays, 7);
+    assertClose(forecast.backtest.mape ?? NaN, 0, 1e-9);
+  });
+
+  it("damps a trend and widens the interval with the horizon", () => {
+    const values = weeks(6, (i) => 50 + 3 * i + ((i * 7) % 5) - 2);
+    const forecast = forecastSeries(values, { horizon: 28 });
+    assert.ok(forecast);
+    const { points } = forecast;
+
+    const last = values[values.length - 1];
+    assert.ok(points[0].value > last - 10, "keeps rising from the last day");
+    // Damped: the 28th step adds less than 28 undamped steps of ~3
+    assert.ok(points[27].value < last + 28 * 3);
+    assert.ok(points[27].value > points[0].value);
+    for (let h = 1; h < points.length; h += 1) {
+      const width = points[h].upper - points[h].lower;
+      assert.ok(width >= points[h - 1].upper - points[h - 1].lower - 1e-9);
+    }
+    assert.equal(forecast.params.phi, 0.95);
+  });
+
+  it("never projects counts below zero", () => {
+    const values = weeks(3, (i) => Math.max(0, 200 - 12 * i));
+    const forecast = forecastSeries(values, { horizon: 14 });
+    assert.ok(forecast);
+    for (const point of forecast.points) {
+      assert.ok(point.value >= 0 && point.lower >= 0);
+    }
+  });
+
+  it("needs two seasons of history", () => {
+    const oneWeek = weeks(1, (i) => WEEK[i % 7]);
+    const twoWeeks = weeks(2, (i) => WEEK[i % 7]);
+    assert.equal(forecastSeries(oneWeek, { horizon: 7 }), null);
+    assert.equal(forecastSeries(twoWeeks, { horizon: 0 }), null);
+    assert.ok(forecastSeries(twoWeeks, { horizon: 1 }));
+
+    const short = forecastSeries(twoWeeks, { horizon: 7, backtestDays: 7 });
+    assert.deepEqual(short?.backtest, {
+      days: 7,
+      evaluatedDays: 0,
+      mape: null,
+    });
+  });
+
+  it("leaves days without activity out of the backtest MAPE", () => {
+    const values = weeks(4, (i) => WEEK[i % 7]);
+    values[values.length - 1] = 0;
+    values[values.length - 2] = 0;
+    const forecast = forecastSeries(values, { horizon: 7, backtestDays: 7 });
+    assert.equal(forecast?.backtest.evaluatedDays, 5);
+    assertClose(forecast?.backtest.mape ?? NaN, 0, 1e-9);
+  });
+});
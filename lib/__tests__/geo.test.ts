@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { computeAnalyticsFromDocs } from "@/lib/analytic.service";
+import { assertClose, listing, visit } from "./fixtures";
+
+function sessions(country: string, count: number, checkouts: number) {
+  return Array.from({ length: count }, (_, i) =>
+    visit(
+      `${country}-${i}`,
+      "2025-01-06T10:00:00Z",
+      { views: ["i1"], checkouts: i < checkouts ? ["i1"] : [] },
+      { geo: { country } }
+    )
+  );
+}
+
+describe("geo funnel", () => {
+  const docs = [
+    ...sessions("GB", 100, 50),
+    ...sessions("DE", 100, 10),
+    ...sessions("FR", 2, 1),
+  ];
+  const { geoInsights } = computeAnalyticsFromDocs(
+    docs,
+    [listing("i1", 10, "Shirts")],
+    []
+  );
+  const country = (name: string) => {
+    const row = geoInsights.countries.find((entry) => entry.country === name);
+    assert.ok(row, name);
+    return row;
+  };
+
+  it("puts 95% Wilson intervals around each conversion rate", () => {
+    const gb = country("GB").conversion;
+    const de = country("DE").conversion;
+    const fr = country("FR").conversion;
+    assert.equal(geoInsights.confidence, 0.95);
+    assertClose(gb.rate, 0.5);
+    assertClose(gb.low, 0.403832, 1e-6);
+    assertClose(gb.high, 0.596168, 1e-6);
+    assertClose(de.low, 0.055229, 1e-6);
+    assertClose(de.high, 0.174366, 1e-6);
+    assertClose(fr.low, 0.094531, 1e-6);
+    assertClose(fr.high, 0.905469, 1e-6);
+  });
+
+  it("tests each country against the rest of the sessions", () => {
+    const gb = country("GB").conversion;
+    const de = country("DE").conversion;
+    const fr = country("FR").conversion;
+    // normalCdf is accurate to ~1.5e-7, so tiny p-values are only bounded
+    assert.ok((gb.pValue ?? 1) < 1e-6);
+    assert.ok((de.pValue ?? 1) < 1e-6);
+    assertClose(fr.pValue ?? NaN, 0.539876, 1e-6);
+    // Benjamini–Hochberg over three tests: FR ranks last, so p · 3 / 3
+    assertClose(fr.adjustedPValue ?? NaN, 0.539876, 1e-6);
+    assert.ok((de.adjustedPValue ?? 1) < 1e-5);
+    assert.equal(gb.significant, "above");
+    assert.equal(de.significant, "below");
+    assert.equal(fr.significant, null);
+  });
+
+  it("sums every country into the overall row without a test", () => {
+    const { overall } = geoInsights;
+    assert.equal(overall.sessions, 202);
+    assert.equal(overall.checkoutSessions, 61);
+    assert.equal(overall.conversion.pValue, null);
+    assert.equal(overall.conversion.adjustedPValue, null);
+    assert.deepEqual(
+      geoInsights.countries.map((row) => row.country),
+      ["GB", "DE", "FR"]
+    );
+  });
+});
+
+describe("geo funnel across many countries", () => {
+  // 19 countries at 20% and one at 45%: on its own the outlier clears
+  // p < 0.05, but not once 20 countries are tested together
+  const noise = Array.from({ length: 19 }, (_, i) => `C${i}`);
+  const docs = [
+    ...noise.flatMap((country) => sessions(country, 20, 4)),
+    ...sessions("XX", 20, 9),
+  ];
+  const { geoInsights } = computeAnalyticsFromDocs(
+    docs,
+    [listing("i1", 10, "Shirts")],
+    []
+  );
+  const outlier = geoInsights.countries.find((row) => row.country === "XX");
+
+  it("corrects the flags for the number of countries tested", () => {
+    assert.ok(outlier);
+    const { pValue, adjustedPValue, significant } = outlier.conversion;
+    assert.ok((pValue ?? 1) < 0.05);
+    assertClose(adjustedPValue ?? NaN, (pValue ?? NaN) * 20, 1e-9);
+    assert.equal(significant, null);
+    assert.ok(
+      geoInsights.countries.every((row) => row.conversion.significant === null)
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  computeAnalyticsFromMongo,
+  type SessionMode,
+} from "@/lib/analytic.service";
+import { listing, visit } from "./fixtures";
+import { memoryDb } from "./memory-db";
+
+// Visitors whose ids sort in the opposite order to their first visit
+function seed() {
+  return memoryDb({
+    listings: [listing("i1", 10, "Shirts")],
+    customervisits: [
+      visit("zoe", "2025-01-06T09:00:00Z", { views: ["i1"] }),
+      visit("zoe", "2025-01-06T09:05:00Z", { carts: ["i1"] }),
+      visit("mia", "2025-01-06T10:00:00Z", { views: ["i1"] }),
+      visit("amy", "2025-01-06T11:00:00Z", { views: ["i1"] }),
+      visit("amy", "2025-01-06T11:05:00Z", { checkouts: ["i1"] }),
+    ],
+  });
+}
+
+describe("maxDocuments", () => {
+  for (const sessionMode of ["document", "inactivity"] as SessionMode[]) {
+    it(`keeps the earliest documents in ${sessionMode} mode`, async () => {
+      const { db } = seed();
+      const result = await computeAnalyticsFromMongo(
+        db,
+        { from: null, to: null },
+        { sessionMode, maxDocuments: 3 }
+      );
+
+      assert.deepEqual(
+        [...new Set(result.sessions.map((row) => row.visitorId))].sort(),
+        ["mia", "zoe"]
+      );
+      assert.equal(result.ingestion.trackingDocuments, 3);
+      assert.equal(result.ingestion.documentCapReached, true);
+      const cap = result.dataQuality.issues.find(
+        (issue) => issue.code === "document_cap_reached"
+      );
+      assert.deepEqual(cap, {
+        source: "tracking",
+        code: "document_cap_reached",
+        count: 3,
+        samples: [],
+      });
+    });
+  }
+
+  it("reports nothing when the range fits", async () => {
+    const { db } = seed();
+    const result = await computeAnalyticsFromMongo(
+      db,
+      { from: null, to: null },
+      { sessionMode: "inactivity", maxDocuments: 10 }
+    );
+    assert.equal(result.summary.sessions, 3);
+    assert.equal(result.ingestion.documentCapReached, false);
+    assert.ok(
+      result.dataQuality.issues.every(
+        (issue) => issue.code !== "document_cap_reached"
+      )
+    );
+  });
+});
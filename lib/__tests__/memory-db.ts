@@ -0,0 +1,125 @@
+import type { Db } from "mongodb";
+
+type Doc = Record<string, any>;
+
+// Only the query shapes lib/analytic.service.ts sends: equality, $in, $ne,
+// $exists and $gte/$lte/$lt ranges
+function matches(doc: Doc, filter: Doc) {
+  return Object.entries(filter).every(([key, condition]) => {
+    const value = doc[key];
+    if (
+      condition &&
+      typeof condition === "object" &&
+      !(condition instanceof Date)
+    ) {
+      if ("$in" in condition) return condition.$in.includes(value);
+      if ("$exists" in condition) {
+        return (value !== undefined) === condition.$exists;
+      }
+      if ("$ne" in condition && value === condition.$ne) return false;
+      if ("$gte" in condition && !(value >= condition.$gte)) return false;
+      if ("$lte" in condition && !(value <= condition.$lte)) return false;
+      if ("$lt" in condition && !(value < condition.$lt)) return false;
+      return true;
+    }
+    return value === condition;
+  });
+}
+
+function sortBy(docs: Doc[], spec: Record<string, number>) {
+  return [...docs].sort((a, b) => {
+    for (const [key, direction] of Object.entries(spec)) {
+      if (a[key] < b[key]) return -direction;
+      if (a[key] > b[key]) return direction;
+    }
+    return 0;
+  });
+}
+
+function cursor(load: () => Doc[]) {
+  let limit = Infinity;
+  let order: Record<string, number> = {};
+  const docs = () => sortBy(load(), order).slice(0, limit);
+  const api = {
+    limit(value: number) {
+      limit = value;
+      return api;
+    },
+    sort(spec: Record<string, number>) {
+      order = spec;
+      return api;
+    },
+    allowDiskUse() {
+      return api;
+    },
+    async toArray() {
+      return docs();
+    },
+    async *[Symbol.asyncIterator]() {
+      yield* docs();
+    },
+  };
+  return api;
+}
+
+/** A tiny in-memory stand-in for the parts of Db the analytics code uses. */
+export function memoryDb(initial: Record<string, Doc[]> = {}) {
+  const collections = new Map<string, Doc[]>(
+    Object.entries(initial).map(([name, docs]) => [name, [...docs]])
+  );
+  const docsOf = (name: string) => {
+    if (!collections.has(name)) collections.set(name, []);
+    return collections.get(name) as Doc[];
+  };
+
+  const db = {
+    collection(name: string) {
+      const docs = () => docsOf(name);
+      return {
+        find(filter: Doc = {}) {
+          return cursor(() => docs().filter((doc) => matches(doc, filter)));
+        },
+        async findOne(filter: Doc) {
+          return docs().find((doc) => matches(doc, filter)) ?? null;
+        },
+        async insertMany(added: Doc[]) {
+          docs().push(...added.map((doc) => structuredClone(doc)));
+        },
+        // $match, $sort and $limit stages only
+        aggregate(pipeline: Doc[]) {
+          return cursor(() =>
+            pipeline.reduce((rows: Doc[], stage) => {
+              if (stage.$match) {
+                return rows.filter((doc) => matches(doc, stage.$match));
+              }
+              if (stage.$sort) return sortBy(rows, stage.$sort);
+              if (stage.$limit) return rows.slice(0, stage.$limit);
+              return rows;
+            }, docs())
+          );
+        },
+        // Always an upsert; like MongoDB, inserting an _id that exists fails
+        async replaceOne(filter: Doc, replacement: Doc) {
+          const matched = docs().some((doc) => matches(doc, filter));
+          if (!matched && docs().some((doc) => doc._id === replacement._id)) {
+            throw Object.assign(new Error("E11000 duplicate key"), {
+              code: 11000,
+            });
+          }
+          const kept = docs().filter((doc) => !matches(doc, filter));
+          collections.set(name, [...kept, structuredClone(replacement)]);
+        },
+        async deleteMany(filter: Doc) {
+          collections.set(
+            name,
+            docs().filter((doc) => !matches(doc, filter))
+          );
+        },
+      };
+    },
+  };
+  return {
+    db: db as unknown as Db,
+    docs: docsOf,
+  };
+}
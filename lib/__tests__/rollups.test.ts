@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  computeAnalyticsFromMongo,
+  parseDateRange,
+  runDailyRollups,
+  type AnalyticsOptions,
+} from "@/lib/analytic.service";
+import { listing, visit } from "./fixtures";
+import { memoryDb } from "./memory-db";
+
+const OPTIONS: AnalyticsOptions = {
+  sessionMode: "inactivity",
+  sessionGapMinutes: 30,
+};
+
+function seed() {
+  return memoryDb({
+    listings: [listing("i1", 10, "Shirts"), listing("i2", 40, "Shoes")],
+    customervisits: [
+      visit("a", "2025-01-06T10:00:00Z", { views: ["i1"] }),
+      visit("a", "2025-01-06T10:10:00Z", { carts: ["i1"] }),
+      // One session that starts before midnight and checks out after it
+      visit("b", "2025-01-06T23:50:00Z", { views: ["i1"] }),
+      visit("b", "2025-01-07T00:10:00Z", { carts: ["i1"] }),
+      visit("b", "2025-01-07T00:20:00Z", { checkouts: ["i1"] }),
+      visit("c", "2025-01-07T12:00:00Z", { views: ["i2"] }),
+      visit("c", "2025-01-08T09:00:00Z", {
+        views: ["i2"],
+        checkouts: ["i2"],
+      }),
+      visit("d", "2025-01-08T23:00:00Z", { views: ["i2"] }),
+    ],
+  });
+}
+
+const parsed = parseDateRange("2025-01-06", "2025-01-08");
+assert.ok(parsed.ok);
+const range = parsed.range as { from: Date; to: Date };
+
+describe("daily rollups", () => {
+  it("match a raw scan when inactivity sessions cross midnight", async () => {
+    const { db } = seed();
+    const raw = await computeAnalyticsFromMongo(db, range, OPTIONS);
+    await runDailyRollups(db, range, OPTIONS);
+    const merged = await computeAnalyticsFromMongo(db, range, {
+      ...OPTIONS,
+      rollupMinDays: 1,
+    });
+
+    assert.equal(merged.ingestion.source, "rollups");
+    assert.equal(merged.ingestion.rollupDays, 3);
+    assert.equal(raw.summary.sessions, 5);
+    assert.deepEqual(merged.summary, raw.summary);
+    assert.deepEqual(merged.daily.series, raw.daily.series);
+    assert.deepEqual(merged.funnel, raw.funnel);
+  });
+
+  it("counts distinct visitors from the stored days", async () => {
+    const { db, docs } = seed();
+    docs("customervisits").push(
+      visit("e", "2025-01-06T08:00:00Z", {}, { visitorId: null }),
+      visit("e", "2025-01-07T08:00:00Z", {}, { visitorId: null })
+    );
+    const raw = await computeAnalyticsFromMongo(db, range, OPTIONS);
+    await runDailyRollups(db, range, OPTIONS);
+    const merged = await computeAnalyticsFromMongo(db, range, {
+      ...OPTIONS,
+      rollupMinDays: 1,
+    });
+
+    // a, b, c and d; "c" is seen on two days, the anonymous visits not at all
+    assert.equal(raw.summary.visitors, 4);
+    assert.equal(merged.summary.visitors, 4);
+    assert.equal(merged.summary.sessions, 7);
+    assert.deepEqual(merged.revenue, raw.revenue);
+  });
+
+  it("counts each tracking document on its own day only", async () => {
+    const { db } = seed();
+    const run = await runDailyRollups(db, range, OPTIONS);
+    assert.deepEqual(run.days, ["2025-01-06", "2025-01-07", "2025-01-08"]);
+    assert.equal(run.trackingDocuments, 8);
+  });
+
+  it("replaces a day's section chunks when the day is rebuilt", async () => {
+    const { db, docs } = seed();
+    await runDailyRollups(db, range, OPTIONS);
+    const first = docs("analyticsdailyrollups.chunks").length;
+    await runDailyRollups(db, range, OPTIONS);
+
+    const stored = docs("analyticsdailyrollups");
+    const chunks = docs("analyticsdailyrollups.chunks");
+    assert.equal(chunks.length, first);
+    assert.equal(
+      chunks.length,
+      stored.reduce((acc, rollup) => acc + rollup.chunks, 0)
+    );
+    for (const rollup of stored) {
+      assert.equal(rollup.sections, undefined);
+    }
+  });
+
+  it("reuses stored days after the catalogue is repriced", async () => {
+    const { db, docs } = seed();
+    await runDailyRollups(db, range, OPTIONS);
+    const listings = docs("listings");
+    listings.push(listing("i3", 25, "Shirts"), listing("i4", 90, "Shoes"));
+    listings[0].prodPricing.retailPrice = 120;
+
+    const raw = await computeAnalyticsFromMongo(db, range, OPTIONS);
+    const merged = await computeAnalyticsFromMongo(db, range, {
+      ...OPTIONS,
+      rollupMinDays: 1,
+    });
+    assert.equal(merged.ingestion.rollupDays, 3);
+    assert.deepEqual(merged.priceMarkov, raw.priceMarkov);
+    assert.deepEqual(merged.priceMarkovMeta, raw.priceMarkovMeta);
+    assert.deepEqual(merged.priceBands, raw.priceBands);
+    assert.deepEqual(merged.funnel.byTier, raw.funnel.byTier);
+    assert.deepEqual(merged.latency.byTier, raw.latency.byTier);
+    assert.ok(raw.funnel.byTier.High, "i1 moved to the top tier");
+  });
+
+  it("rebuilds stored days when category names change", async () => {
+    const { db, docs } = seed();
+    await runDailyRollups(db, range, OPTIONS);
+    docs("productcategories").push({ _id: "c1", name: "Tops" });
+
+    const merged = await computeAnalyticsFromMongo(db, range, {
+      ...OPTIONS,
+      rollupMinDays: 1,
+    });
+    assert.equal(merged.ingestion.rollupDays, 0);
+  });
+
+  it("keeps one complete chunk set when runs for a day overlap", async () => {
+    const { db, docs } = seed();
+    await runDailyRollups(db, range, OPTIONS);
+    const day = parseDateRange("2025-01-07", "2025-01-07");
+    assert.ok(day.ok);
+    const dayRange = day.range as { from: Date; to: Date };
+    await Promise.all([
+      runDailyRollups(db, dayRange, OPTIONS),
+      runDailyRollups(db, dayRange, OPTIONS),
+    ]);
+
+    const stored = docs("analyticsdailyrollups");
+    const chunks = docs("analyticsdailyrollups.chunks");
+    assert.equal(stored.length, 3);
+    for (const rollup of stored) {
+      const own = chunks.filter((chunk) => chunk.day === rollup.day);
+      assert.ok(own.length > 0, rollup.day);
+      assert.ok(
+        own.every((chunk) => chunk.generation === rollup.generation),
+        rollup.day
+      );
+    }
+    const merged = await computeAnalyticsFromMongo(db, range, {
+      ...OPTIONS,
+      rollupMinDays: 1,
+    });
+    assert.equal(merged.ingestion.rollupDays, 3);
+  });
+
+  it("recomputes a day whose chunks are missing", async () => {
+    const { db, docs } = seed();
+    await runDailyRollups(db, range, OPTIONS);
+    const chunks = docs("analyticsdailyrollups.chunks");
+    chunks.splice(
+      0,
+      chunks.length,
+      ...chunks.filter((chunk) => chunk.day !== "2025-01-07")
+    );
+
+    const merged = await computeAnalyticsFromMongo(db, range, {
+      ...OPTIONS,
+      rollupMinDays: 1,
+    });
+    assert.equal(merged.ingestion.rollupDays, 2);
+    assert.equal(merged.summary.sessions, 5);
+  });
+});
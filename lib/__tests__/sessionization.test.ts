@@ -0,0 +1,156 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  computeAnalyticsFromDocs,
+  computeAnalyticsFromDocStream,
+  SessionBufferError,
+  type AnalyticsOptions,
+  type RawDoc,
+} from "@/lib/analytic.service";
+import { listing, visit } from "./fixtures";
+
+const LISTINGS = [listing("i1", 10, "Shirts"), listing("i2", 40, "Shoes")];
+
+const INACTIVITY: AnalyticsOptions = {
+  sessionMode: "inactivity",
+  sessionGapMinutes: 30,
+};
+
+async function* stream(docs: RawDoc[]) {
+  yield* docs;
+}
+
+// Three visitors with two documents each, in visitor order
+function byVisitor() {
+  return ["a", "b", "c"].flatMap((visitorId) => [
+    visit(visitorId, "2025-01-06T10:00:00Z", { views: ["i1"] }),
+    visit(visitorId, "2025-01-06T10:10:00Z", { carts: ["i1"] }),
+  ]);
+}
+
+describe("streamed inactivity sessions", () => {
+  it("hold one visitor at a time when the input is sorted", async () => {
+    const docs = byVisitor();
+    const streamed = await computeAnalyticsFromDocStream(
+      stream(docs),
+      LISTINGS,
+      [],
+      undefined,
+      { ...INACTIVITY, trackingSortedByVisitor: true, maxBufferedDocuments: 2 }
+    );
+    const inMemory = computeAnalyticsFromDocs(
+      docs,
+      LISTINGS,
+      [],
+      undefined,
+      INACTIVITY
+    );
+
+    assert.equal(streamed.summary.sessions, 3);
+    assert.equal(streamed.sessionization.mergedSessions, 3);
+    assert.deepEqual(streamed.summary, inMemory.summary);
+    assert.deepEqual(streamed.funnel, inMemory.funnel);
+  });
+
+  it("stop once unsorted input outgrows the buffer", async () => {
+    await assert.rejects(
+      computeAnalyticsFromDocStream(
+        stream(byVisitor()),
+        LISTINGS,
+        [],
+        undefined,
+        { ...INACTIVITY, maxBufferedDocuments: 2 }
+      ),
+      (error) => error instanceof SessionBufferError && error.limit === 2
+    );
+  });
+});
+
+describe("inactivity sessions", () => {
+  const sessionization = (docs: RawDoc[]) =>
+    computeAnalyticsFromDocs(docs, LISTINGS, [], undefined, INACTIVITY)
+      .sessionization;
+
+  it("merge documents of a visitor within the gap", () => {
+    const report = sessionization([
+      visit("a", "2025-01-06T10:00:00Z", { views: ["i1"] }),
+      visit("a", "2025-01-06T10:25:00Z", { carts: ["i1"] }),
+      visit("a", "2025-01-06T10:50:00Z", { views: ["i2"] }),
+      visit("b", "2025-01-06T10:05:00Z", { views: ["i1"] }),
+    ]);
+
+    assert.equal(report.sessions, 2);
+    assert.equal(report.documents, 4);
+    assert.equal(report.mergedSessions, 1);
+    assert.equal(report.splitDocuments, 0);
+  });
+
+  it("split a visitor's timeline where it idles past the gap", () => {
+    const at = (time: string) => new Date(`2025-01-06T${time}:00Z`);
+    const report = sessionization([
+      visit("a", "2025-01-06T10:00:00Z", { views: ["i1"] }),
+      // One document whose events straddle a two-hour pause
+      visit(
+        "a",
+        "2025-01-06T10:10:00Z",
+        {},
+        {
+          viewItems: [
+            { item: "i1", createdAt: at("10:10") },
+            { item: "i2", createdAt: at("12:10") },
+          ],
+        }
+      ),
+      visit("a", "2025-01-06T12:20:00Z", { carts: ["i2"] }),
+    ]);
+
+    assert.equal(report.sessions, 2);
+    assert.equal(report.documents, 3);
+    assert.equal(report.mergedSessions, 2);
+    assert.equal(report.splitDocuments, 1);
+  });
+});
+
+describe("visitor-sorted streams", () => {
+  const sorted = { ...INACTIVITY, trackingSortedByVisitor: true };
+
+  it("flush a visitor as soon as the next one starts", async () => {
+    // Out of order on purpose: a's second document arrives after b, so in
+    // sorted mode it can no longer join a's already flushed session
+    const docs = [
+      visit("a", "2025-01-06T10:00:00Z", { views: ["i1"] }),
+      visit("b", "2025-01-06T10:00:00Z", { views: ["i1"] }),
+      visit("a", "2025-01-06T10:10:00Z", { carts: ["i1"] }),
+    ];
+    const trusted = await computeAnalyticsFromDocStream(
+      stream(docs),
+      LISTINGS,
+      [],
+      undefined,
+      sorted
+    );
+    const buffered = await computeAnalyticsFromDocStream(
+      stream(docs),
+      LISTINGS,
+      [],
+      undefined,
+      INACTIVITY
+    );
+
+    assert.equal(trusted.sessionization.sessions, 3);
+    assert.equal(buffered.sessionization.sessions, 2);
+  });
+
+  it("count the buffer per visitor", async () => {
+    const docs = ["10:00", "10:05", "10:10"].map((time) =>
+      visit("a", `2025-01-06T${time}:00Z`, { views: ["i1"] })
+    );
+    await assert.rejects(
+      computeAnalyticsFromDocStream(stream(docs), LISTINGS, [], undefined, {
+        ...sorted,
+        maxBufferedDocuments: 2,
+      }),
+      SessionBufferError
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  computeAnalyticsFromDocs,
+  parseDateRange,
+} from "@/lib/analytic.service";
+import {
+  isValidTimeZone,
+  startOfZonedDay,
+  zonedDay,
+  zonedDayBounds,
+  zonedParts,
+} from "@/lib/timezone";
+import { listing, visit } from "./fixtures";
+
+const HOUR = 60 * 60 * 1000;
+
+const bounds = (day: string, timeZone: string) => {
+  const { from, to } = zonedDayBounds(day, timeZone);
+  return [from.toISOString(), to.toISOString()];
+};
+
+describe("time zone helpers", () => {
+  it("accepts IANA names and UTC only", () => {
+    assert.ok(isValidTimeZone("Europe/London"));
+    assert.ok(isValidTimeZone("UTC"));
+    assert.equal(isValidTimeZone("Mars/Olympus"), false);
+    assert.equal(isValidTimeZone("GMT+25"), false);
+  });
+
+  it("reads day, hour and Monday-based weekday in the zone", () => {
+    // Sunday 23:30 UTC is already Monday morning in Tokyo
+    const instant = new Date("2025-01-05T23:30:00Z");
+    assert.deepEqual(zonedParts(instant, "UTC"), {
+      day: "2025-01-05",
+      hour: 23,
+      weekday: 6,
+    });
+    assert.deepEqual(zonedParts(instant, "Asia/Tokyo"), {
+      day: "2025-01-06",
+      hour: 8,
+      weekday: 0,
+    });
+    assert.equal(zonedDay(instant, "Asia/Kolkata"), "2025-01-06");
+  });
+
+  it("gives 23- and 25-hour days around daylight saving changes", () => {
+    assert.deepEqual(bounds("2025-03-30", "Europe/London"), [
+      "2025-03-30T00:00:00.000Z",
+      "2025-03-30T22:59:59.999Z",
+    ]);
+    assert.deepEqual(bounds("2025-11-02", "America/New_York"), [
+      "2025-11-02T04:00:00.000Z",
+      "2025-11-03T04:59:59.999Z",
+    ]);
+    const { from, to } = zonedDayBounds("2025-10-26", "Europe/London");
+    assert.equal(to.getTime() + 1 - from.getTime(), 25 * HOUR);
+  });
+
+  it("starts a day whose midnight is skipped when the clocks jump", () => {
+    // Santiago moves from 00:00 to 01:00 on 2024-09-08
+    const start = startOfZonedDay("2024-09-08", "America/Santiago");
+    assert.equal(start.toISOString(), "2024-09-08T04:00:00.000Z");
+    assert.deepEqual(zonedParts(start, "America/Santiago"), {
+      day: "2024-09-08",
+      hour: 1,
+      weekday: 6,
+    });
+  });
+});
+
+describe("reporting time zone", () => {
+  it("sets the boundaries of parsed date ranges", () => {
+    const parsed = parseDateRange("2025-03-01", "2025-03-01", "Asia/Tokyo");
+    assert.ok(parsed.ok);
+    assert.equal(parsed.range.from?.toISOString(), "2025-02-28T15:00:00.000Z");
+    assert.equal(parsed.range.to?.toISOString(), "2025-03-01T14:59:59.999Z");
+  });
+
+  it("buckets days and the hourly heatmap in the zone", () => {
+    const docs = [
+      visit("a", "2025-01-05T23:30:00Z", { views: ["i1"] }),
+      visit("b", "2025-01-06T12:00:00Z", { views: ["i1"], carts: ["i1"] }),
+    ];
+    const listings = [listing("i1", 10, "Shirts")];
+    const utc = computeAnalyticsFromDocs(docs, listings, []);
+    const tokyo = computeAnalyticsFromDocs(docs, listings, [], undefined, {
+      timeZone: "Asia/Tokyo",
+    });
+
+    assert.equal(utc.timeZone, "UTC");
+    assert.equal(tokyo.timeZone, "Asia/Tokyo");
+    assert.deepEqual(
+      utc.daily.series.map((row) => [row.date, row.views]),
+      [
+        ["2025-01-05", 1],
+        ["2025-01-06", 1],
+      ]
+    );
+    assert.deepEqual(
+      tokyo.daily.series.map((row) => [row.date, row.views]),
+      [["2025-01-06", 2]]
+    );
+    assert.equal(utc.activityHeatmap.views[6][23], 1);
+    assert.equal(utc.activityHeatmap.carts[0][12], 1);
+    assert.equal(tokyo.activityHeatmap.views[0][8], 1);
+    assert.equal(tokyo.activityHeatmap.carts[0][21], 1);
+    const total = (grid: number[][]) =>
+      grid.flat().reduce((acc, value) => acc + value, 0);
+    assert.equal(total(tokyo.activityHeatmap.views), 2);
+    assert.equal(tokyo.activityHeatmap.views.length, 7);
+    assert.equal(tokyo.activityHeatmap.views[0].length, 24);
+  });
+});
@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { computeAnalyticsFromDocs } from "@/lib/analytic.service";
+import { assertClose, listing, visit } from "./fixtures";
+
+const profile = {
+  name: "test",
+  view: 1,
+  wishlist: 2,
+  cart: 3,
+  checkout: 5,
+  cartRemoval: 0.5,
+  halfLifeDays: null,
+};
+
+describe("weighted recommendations", () => {
+  it("applies the cart-removal multiplier once per session and item", () => {
+    const listings = ["a", "b", "c"].map((id) => listing(id, 10, "Shirts"));
+    const docs = [
+      // "a" leaves the cart twice: weight 3 · 0.5, not 3 · 0.5²
+      visit("v1", "2025-01-06T10:00:00Z", {
+        carts: ["b"],
+        removed: ["a", "a"],
+      }),
+      visit("v2", "2025-01-07T10:00:00Z", { carts: ["a", "c"] }),
+    ];
+    const { weightedRecos } = computeAnalyticsFromDocs(
+      docs,
+      listings,
+      [],
+      undefined,
+      { recoProfiles: [profile] }
+    );
+
+    const score = weightedRecos.recos.test.b?.find((r) => r.item === "a");
+    // (1.5 · 3) / √((1.5² + 3²) · 3²)
+    assertClose(score?.score ?? NaN, 4.5 / Math.sqrt(11.25 * 9));
+  });
+
+  it("leaves items that were bought after a removal unpenalised", () => {
+    const listings = ["a", "b"].map((id) => listing(id, 10, "Shirts"));
+    const docs = [
+      visit("v1", "2025-01-06T10:00:00Z", {
+        carts: ["b"],
+        removed: ["a"],
+        checkouts: ["a"],
+      }),
+      visit("v2", "2025-01-07T10:00:00Z", { carts: ["a"] }),
+    ];
+    const { weightedRecos } = computeAnalyticsFromDocs(
+      docs,
+      listings,
+      [],
+      undefined,
+      { recoProfiles: [profile] }
+    );
+
+    const score = weightedRecos.recos.test.b?.find((r) => r.item === "a");
+    // Checkout weight 5 for "a" in v1, cart weight 3 in v2
+    assertClose(score?.score ?? NaN, 15 / Math.sqrt((25 + 9) * 9));
+  });
+});
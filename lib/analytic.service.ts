@@ -1,7 +1,18 @@
-import { randomUUID } from "crypto";
-import { quantileSorted, mean, deviation } from "d3-array";
-import { format, isValid, parseISO } from "date-fns";
+import { createHash, randomUUID } from "crypto";
+import { quantileSorted, mean, median, deviation } from "d3-array";
+import {
+  addDays,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  format,
+  isValid,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
 import type { Db } from "mongodb";
+import { forecastSeries, type SeriesForecast } from "@/lib/forecast";
+import { zonedDay, zonedDayBounds, zonedParts } from "@/lib/timezone";
 
 type PriceTier = "Low" | "Mid" | "High" | "All";
 
@@ -16,7 +27,15 @@ type Session = {
   sessionId: string;
   visitorId: string;
   country: string;
+  /** Session start. */
   ts: Date;
+  /**
+   * The document's own `createdAt` was missing or unreadable, so `ts` is only
+   * a stand-in: the session is kept out of every day and hour bucket.
+   */
+  undated: boolean;
+  /** Latest event (or the start, for sessions without events). */
+  end: Date;
   nView: number;
   nCartAdd: number;
   nCartRemove: number;
@@ -26,8 +45,232 @@ type Session = {
   carts: SessionEvent[];
   wish: SessionEvent[];
   checkout: SessionEvent[];
+  /** Fallbacks collectSessionEvents had to apply to the raw document. */
+  issues: QualityLog;
+  /** Tracking documents first attributed to this session. */
+  documents: number;
+  /** Tracking documents with events in this session. */
+  sourceDocuments: number;
+  /** Of `documents`, those whose events continue in later sessions. */
+  splitDocuments: number;
 };
 
+export type DataQualityCode =
+  | "missing_id"
+  | "missing_visitor"
+  | "missing_country"
+  | "missing_created_at"
+  | "unparsable_date"
+  | "unresolved_item_ref"
+  | "unknown_item"
+  | "removal_before_add"
+  | "zero_price"
+  | "unresolved_category"
+  | "missing_name"
+  | "document_cap_reached";
+
+type QualityEntry = { count: number; samples: string[] };
+
+type QualityLog = Map<DataQualityCode, QualityEntry>;
+
+export type AnomalyDetectorName = "mad" | "stl" | "ewma";
+
+export type DailyMetric = "views" | "carts" | "checkouts" | "conversion";
+
+export type ForecastMetric = Exclude<DailyMetric, "conversion">;
+
+export type DailyAnomaly = {
+  date: string;
+  metric: DailyMetric;
+  detector: AnomalyDetectorName;
+  direction: "spike" | "drop";
+  /** |score| past the threshold: low, 1.5× (medium) or 2× (high). */
+  severity: "low" | "medium" | "high";
+  actual: number;
+  expected: number;
+  /** Band of values the detector would not have flagged. */
+  lower: number;
+  upper: number;
+  /** Signed deviation in units of the detector's spread. */
+  score: number;
+  explanation: string;
+};
+
+export type RateEstimate = {
+  rate: number;
+  low: number;
+  high: number;
+  /** Against the rest of the sessions; null for the overall row. */
+  pValue: number | null;
+  /** pValue adjusted for testing every listed country (Benjamini–Hochberg). */
+  adjustedPValue: number | null;
+  significant: "above" | "below" | null;
+};
+
+export type GeoFunnelRow = {
+  country: string;
+  sessions: number;
+  viewSessions: number;
+  cartSessions: number;
+  checkoutSessions: number;
+  cartAdds: number;
+  cartRemoves: number;
+  /** cartRemoves / cartAdds, capped at 1. */
+  leak: number;
+  /** Sessions with a cart add. */
+  cartRate: RateEstimate;
+  /** Sessions with a checkout. */
+  conversion: RateEstimate;
+};
+
+export type FunnelMetrics = {
+  /** Sessions that touched the segment (for items: any event on them). */
+  sessions: number;
+  viewSessions: number;
+  cartSessions: number;
+  checkoutSessions: number;
+  viewToCartSessions: number;
+  cartToCheckoutSessions: number;
+  viewToCheckoutSessions: number;
+  /** Checked-out items, counted per checkout event. */
+  checkouts: number;
+  viewToCart: number;
+  cartToCheckout: number;
+  viewToCheckout: number;
+  /** checkoutSessions / sessions */
+  conversion: number;
+};
+
+export type RevenueRow = { key: string; revenue: number; checkouts: number };
+
+export type LatencyStep = "viewToCart" | "cartToCheckout" | "cartToRemove";
+
+/** Seconds between two steps for one item; quantiles are read off buckets. */
+export type LatencyStats = {
+  count: number;
+  meanSeconds: number;
+  minSeconds: number | null;
+  p10Seconds: number | null;
+  p25Seconds: number | null;
+  medianSeconds: number | null;
+  p75Seconds: number | null;
+  p90Seconds: number | null;
+  maxSeconds: number | null;
+  /** Counts per bucket of AnalyticsResponse["latency"]["bucketSeconds"]. */
+  histogram: number[];
+};
+
+export type LatencySteps = Record<LatencyStep, LatencyStats>;
+
+/** Absorbing-chain outcome for one transient state (or state pair). */
+export type AbsorbingRow = {
+  /** Preceding state in the second-order chain; null for first order. */
+  previous: string | null;
+  state: string;
+  /** Observed transitions out of this state. */
+  transitions: number;
+  /** Probability of eventually reaching checkout rather than exit. */
+  pCheckout: number;
+  pExit: number;
+  /** Expected transitions until checkout or exit. */
+  expectedSteps: number;
+};
+
+/** Drop in checkout probability when a touchpoint is removed. */
+export type AttributionRow = {
+  /** Journey state removed; null when a whole category is removed. */
+  state: string | null;
+  /** Category whose touchpoints are removed; null for every category. */
+  category: string | null;
+  /** Baseline minus the checkout probability without the touchpoint. */
+  removalEffect: number;
+  /** removalEffect / baseline */
+  relativeEffect: number;
+  /** Share of the summed removal effects within the same table. */
+  share: number;
+};
+
+/** Event weights and recency decay for one recommendation profile. */
+export type RecoProfile = {
+  name: string;
+  view: number;
+  wishlist: number;
+  cart: number;
+  checkout: number;
+  /**
+   * Multiplier for items removed from the cart and not bought (1 = no
+   * penalty), applied once per session however many removals it has.
+   */
+  cartRemoval: number;
+  /** Sessions lose half their weight every halfLifeDays; null = no decay. */
+  halfLifeDays: number | null;
+};
+
+/** Symmetric session co-occurrence between categories or brands. */
+export type AffinityMatrix = {
+  keys: string[];
+  /** Sessions touching each key. */
+  sessions: number[];
+  /** Sessions touching both keys; the diagonal repeats `sessions`. */
+  counts: number[][];
+  /** P(column | row) */
+  confidence: number[][];
+  /** counts·N / (sessions[row]·sessions[col]); 1 means independent. */
+  lift: number[][];
+};
+
+export type CrossSellItem = {
+  item: string;
+  /** Sessions with the item and the target category. */
+  sessions: number;
+  /** P(item | session touches the category) */
+  confidence: number;
+  lift: number;
+};
+
+export type AssociationRule = {
+  antecedent: string[];
+  consequent: string[];
+  /** Sessions containing every item of the rule. */
+  count: number;
+  support: number;
+  /** P(consequent | antecedent) */
+  confidence: number;
+  /** confidence / P(consequent) */
+  lift: number;
+};
+
+export type AssociationResult = {
+  /** Sessions with 1..MAX_BASKET_ITEMS items of this kind. */
+  transactions: number;
+  /**
+   * Sessions with more than MAX_BASKET_ITEMS items, left out of every count
+   * (transactions and item supports too), so supports stay comparable.
+   */
+  skippedSessions: number;
+  itemsets: Array<{ items: string[]; count: number; support: number }>;
+  rules: AssociationRule[];
+};
+
+export type CohortPeriod = "week" | "month";
+
+export type CohortTable = Array<{
+  /** First day (yyyy-MM-dd) of the period the visitors were first seen in. */
+  cohort: string;
+  visitors: number;
+  /** Offset 0 is the cohort's own period; later offsets are returns. */
+  periods: Array<{
+    offset: number;
+    activeVisitors: number;
+    cartAddVisitors: number;
+    checkoutVisitors: number;
+    /** Shares of the cohort's visitors. */
+    returnRate: number;
+    repeatCartAddRate: number;
+    repeatCheckoutRate: number;
+  }>;
+}>;
+
 type ItemMeta = Record<
   string,
   {
@@ -35,6 +278,8 @@ type ItemMeta = Record<
     price: number;
     category: string;
     brand: string;
+    /** Null when the listing carries no stock figure. */
+    inStock: boolean | null;
   }
 >;
 
@@ -51,23 +296,63 @@ type TransitionEvent = {
   price: number;
 };
 
+/** Event counts per distinct item price, ascending by price. */
+export type PriceCounts = Array<{ price: number; count: number }>;
+
 export type AnalyticsResponse = {
   sessions: Array<{
     sessionId: string;
     visitorId: string;
     country: string;
     ts: string;
+    end: string;
+    durationSeconds: number;
     nView: number;
     nCartAdd: number;
     nCartRemove: number;
     nCheckout: number;
   }>;
+  summary: {
+    sessions: number;
+    visitors: number;
+    views: number;
+    cartAdds: number;
+    cartRemoves: number;
+    checkouts: number;
+    sessionsWithCartAdd: number;
+    sessionsWithCheckout: number;
+    firstSessionAt: string | null;
+    lastSessionAt: string | null;
+  };
   leak: {
     overall: number;
     items: Array<{ item: string; adds: number; removes: number; leak: number }>;
   };
   recos: Record<string, Array<{ item: string; score: number }>>;
+  /** Weighted cosine recommendations for each configured profile. */
+  weightedRecos: {
+    profiles: RecoProfile[];
+    recos: Record<string, AnalyticsResponse["recos"]>;
+  };
   frequentBundles: Array<{ items: [string, string]; support: number }>;
+  /** Category and brand affinities rolled up from session items. */
+  crossSell: {
+    /** Sessions with at least one item. */
+    sessions: number;
+    categories: AffinityMatrix;
+    brands: AffinityMatrix;
+    /** Items from other categories that sell alongside each category. */
+    intoCategory: Record<string, CrossSellItem[]>;
+  };
+  /** Apriori itemsets and rules over viewed and checked-out item sets. */
+  associations: {
+    minSupport: number;
+    minConfidence: number;
+    minLift: number;
+    maxItems: number;
+    viewed: AssociationResult;
+    bought: AssociationResult;
+  };
   priceMarkov: Record<
     PriceTier,
     { pViewToCart: number; pCartToCheckout: number }
@@ -90,10 +375,11 @@ export type AnalyticsResponse = {
     }>;
   };
   priceRangeData: {
-    viewFromPrices: number[];
-    viewToCartFromPrices: number[];
-    cartAddPrices: number[];
-    cartRemovePrices: number[];
+    viewFromPrices: PriceCounts;
+    viewToCartFromPrices: PriceCounts;
+    cartAddPrices: PriceCounts;
+    cartRemovePrices: PriceCounts;
+    checkoutPrices: PriceCounts;
   };
   categoryInteractions: Array<{
     category: string;
@@ -103,24 +389,167 @@ export type AnalyticsResponse = {
     total: number;
   }>;
   transitions: { states: string[]; counts: number[][]; probs: number[][] };
+  /**
+   * Sessions as paths start → events → checkout | exit, with checkout and
+   * exit absorbing; secondOrder is null unless markovOrder is 2.
+   */
+  absorbing: {
+    order: 1 | 2;
+    firstOrder: AbsorbingRow[];
+    secondOrder: AbsorbingRow[] | null;
+  };
+  /** Removal-effect attribution over the same journey graph. */
+  attribution: {
+    /** Probability that a session starting now reaches checkout. */
+    baseline: number;
+    byState: AttributionRow[];
+    byCategory: AttributionRow[];
+    byStateCategory: AttributionRow[];
+  };
   sankey: {
     nodes: string[];
     links: Array<{ source: number; target: number; value: number }>;
   };
   daily: {
-    series: Array<{ date: string; views: number; carts: number }>;
+    /** Every day from the first to the last active one; quiet days are 0. */
+    series: Array<{
+      date: string;
+      views: number;
+      carts: number;
+      checkouts: number;
+      sessions: number;
+      /** Share of the day's sessions with a checkout. */
+      conversion: number;
+    }>;
+    /** Daily cart counts outside mean ± anomalySigma·σ. */
     anomaly: {
       hasThresholds: boolean;
       lower: number;
       upper: number;
       outliers: string[];
     };
+    detectors: { names: AnomalyDetectorName[]; threshold: number };
+    /** Findings of every configured detector, by date. */
+    anomalies: DailyAnomaly[];
+    /**
+     * Holt-Winters projection for the days after the series (weekly
+     * seasonality); a metric is null with less than two weeks of history.
+     */
+    forecast: {
+      method: "holt-winters";
+      horizon: number;
+      /** Level of the prediction intervals. */
+      confidence: number;
+      dates: string[];
+      metrics: Record<ForecastMetric, SeriesForecast | null>;
+    };
+  };
+  /**
+   * Views, cart adds and checkouts per weekday (Monday first) and hour of
+   * day, as [weekday][hour] grids in the reporting time zone.
+   */
+  activityHeatmap: {
+    views: number[][];
+    carts: number[][];
+    checkouts: number[][];
+  };
+  /** IANA zone used for every day, hour and weekday in the response. */
+  timeZone: string;
+  /**
+   * Session funnel per country (top 100 by sessions) with Wilson intervals
+   * and a two-proportion test of each country against all other sessions.
+   */
+  geoInsights: {
+    /** Level of the intervals; tests are two-sided at 1 - confidence. */
+    confidence: number;
+    overall: GeoFunnelRow;
+    countries: GeoFunnelRow[];
+  };
+  /** How tracking documents were turned into sessions. */
+  sessionization: {
+    mode: SessionMode;
+    /** Inactivity timeout; null in document mode. */
+    gapMinutes: number | null;
+    sessions: number;
+    /** Tracking documents attributed to the sessions in range. */
+    documents: number;
+    /** Sessions assembled from more than one document. */
+    mergedSessions: number;
+    /** Documents whose events were split across several sessions. */
+    splitDocuments: number;
+    averageDurationSeconds: number;
+  };
+  /** Time between journey steps, per item within a session. */
+  latency: {
+    /** Upper bucket edges in seconds; one more open-ended bucket follows. */
+    bucketSeconds: number[];
+    overall: LatencySteps;
+    byTier: Partial<Record<PriceTier, LatencySteps>>;
+    byCategory: Array<LatencySteps & { category: string }>;
+  };
+  /** Retention of visitors grouped by the week (Monday) or month first seen. */
+  cohorts: Record<CohortPeriod, CohortTable>;
+  /** Checkout value at current listing prices (one unit per checkout item). */
+  revenue: {
+    gross: number;
+    checkouts: number;
+    /** Sessions with at least one checkout. */
+    orders: number;
+    averageOrderValue: number;
+    revenuePerVisitor: number;
+    /** Value of items removed from carts (leak removes × price). */
+    lostToCartRemovals: number;
+    cartRemovals: number;
+    byCategory: RevenueRow[];
+    byBrand: RevenueRow[];
+    byCountry: RevenueRow[];
+    byDay: Array<{ date: string; revenue: number; checkouts: number }>;
+  };
+  /** Session-level view → cart → checkout funnel from checkout events. */
+  funnel: {
+    overall: FunnelMetrics;
+    byTier: Partial<Record<PriceTier, FunnelMetrics>>;
+    byCategory: Array<FunnelMetrics & { category: string }>;
+    byCountry: Array<FunnelMetrics & { country: string }>;
+  };
+  dataQuality: {
+    /** Documents each check ran over (tracking: sessions in range). */
+    checked: { sessions: number; listings: number; categories: number };
+    /** Sessions with at least one tracking problem. */
+    affectedSessions: number;
+    issues: Array<{
+      source: "tracking" | "listings" | "productCategories";
+      code: DataQualityCode;
+      count: number;
+      /** Up to five document (or item) ids showing the problem. */
+      samples: string[];
+    }>;
   };
-  geoInsights: Array<{ country: string; conversionRate: number }>;
   itemMeta: ItemMeta;
+  range: { from: string | null; to: string | null };
+  ingestion: {
+    trackingDocuments: number;
+    listingDocuments: number;
+    categoryDocuments: number;
+    sessionRowsTruncated: boolean;
+    documentCapReached: boolean;
+    /** "rollups" when the range was assembled from persisted daily rollups. */
+    source: "raw" | "rollups";
+    /** Days merged from stored rollups; the rest were recomputed from raw. */
+    rollupDays: number;
+  };
+  generatedAt: string;
+  /** Set by the snapshot cache when the payload is served through it. */
+  cache?: {
+    status: "hit" | "stale" | "miss" | "bypass";
+    ageSeconds: number;
+    ttlSeconds: number;
+  };
   __version: string;
 };
 
+export type DateRange = { from: Date | null; to: Date | null };
+
 type RawDoc = Record<string, any>;
 
 type CategoryMap = Map<string, string>;
@@ -133,8 +562,7 @@ type MarkovSummary = {
   max: number;
 };
 
-const VERSION =
-  "v2025-10-06: checkout-tracking+direct-checkout-items (Next.js)";
+const VERSION = "v2025-10-19: server-date-range (Next.js)";
 
 function clampValue(value: number, min: number, max: number) {
   return Math.min(Math.max(value, min), max);
@@ -228,6 +656,59 @@ function parseDate(input: unknown): Date | null {
   return null;
 }
 
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDayBoundary(
+  value: string,
+  endOfDay: boolean,
+  timeZone: string
+): Date | null {
+  if (!DAY_PATTERN.test(value)) return null;
+  const d = new Date(`${value}T00:00:00.000Z`);
+  // Reject values that roll over into another day (e.g. 2025-09-31)
+  if (!isValid(d) || !d.toISOString().startsWith(value)) return null;
+  const bounds = zonedDayBounds(value, timeZone);
+  return endOfDay ? bounds.to : bounds.from;
+}
+
+/**
+ * Parses `from`/`to` query values (YYYY-MM-DD, both inclusive, as days in
+ * `timeZone`) into a DateRange. Missing values leave that side open.
+ */
+export function parseDateRange(
+  from?: string | null,
+  to?: string | null,
+  timeZone = "UTC"
+): { ok: true; range: DateRange } | { ok: false; error: string } {
+  const range: DateRange = { from: null, to: null };
+  if (from) {
+    range.from = parseDayBoundary(from, false, timeZone);
+    if (!range.from)
+      return { ok: false, error: `Invalid 'from' date: ${from}` };
+  }
+  if (to) {
+    range.to = parseDayBoundary(to, true, timeZone);
+    if (!range.to) return { ok: false, error: `Invalid 'to' date: ${to}` };
+  }
+  if (range.from && range.to && range.to < range.from) {
+    return { ok: false, error: "'to' date cannot be before 'from' date" };
+  }
+  return { ok: true, range };
+}
+
+function isInRange(date: Date, range: DateRange) {
+  if (range.from && date < range.from) return false;
+  if (range.to && date > range.to) return false;
+  return true;
+}
+
+function trackingFilter(range: DateRange): Record<string, unknown> {
+  const createdAt: Record<string, Date> = {};
+  if (range.from) createdAt.$gte = range.from;
+  if (range.to) createdAt.$lte = range.to;
+  return Object.keys(createdAt).length ? { createdAt } : {};
+}
+
 function safeGet<T>(obj: unknown, path: string): T | undefined {
   if (!obj) return undefined;
   return path.split(".").reduce<unknown>((acc, key) => {
@@ -238,124 +719,232 @@ function safeGet<T>(obj: unknown, path: string): T | undefined {
   }, obj) as T | undefined;
 }
 
-function buildCategoryMap(categories: RawDoc[]): CategoryMap {
+function buildCategoryMap(
+  categories: RawDoc[],
+  quality: QualityLog = new Map()
+): CategoryMap {
   const map = new Map<string, string>();
   for (const cat of categories ?? []) {
     const id = strId(cat?._id) ?? strId(cat?.id);
     const name = (cat?.name ?? "").toString().trim();
     if (id && name) {
       map.set(id, name);
+    } else if (!id) {
+      flagIssue(quality, "missing_id", name || undefined);
+    } else {
+      flagIssue(quality, "missing_name", id);
     }
   }
   return map;
 }
 
-function buildItemMeta(listings: RawDoc[], categoryMap: CategoryMap): ItemMeta {
+function buildItemMeta(
+  listings: RawDoc[],
+  categoryMap: CategoryMap,
+  quality?: QualityLog
+): ItemMeta {
   const meta: ItemMeta = {};
   for (const listing of listings ?? []) {
-    const id = strId(listing?._id);
-    if (!id) continue;
+    addListingMeta(meta, listing, categoryMap, quality);
+  }
+  return meta;
+}
 
-    const title =
-      safeGet<string>(listing, "productInfo.item_name.0.value") ??
-      listing?.alias ??
-      safeGet<string>(listing, "productInfo.sku") ??
-      id;
-
-    let price =
-      safeGet<number>(listing, "prodPricing.retailPrice") ??
-      safeGet<number>(
-        listing,
-        "prodPricing.listingWithoutStockVariations.0.retailPrice"
-      ) ??
-      0;
-    if (typeof price !== "number" || Number.isNaN(price)) {
-      price = Number(price) || 0;
-    }
+// First stock quantity found wins; listings without one are "unknown"
+const STOCK_PATHS = [
+  "prodPricing.stock",
+  "prodPricing.listingWithoutStockVariations.0.stock",
+  "prodPricing.listingWithoutStockVariations.0.quantity",
+  "stock",
+];
 
-    let categoryId =
-      safeGet<string>(listing, "productInfo.productCategory.$oid") ??
-      safeGet<string>(listing, "productInfo.productCategory");
-    const categoryIdStr = categoryId ? strId(categoryId) : null;
-    categoryId = categoryIdStr || undefined;
-
-    let category = categoryId ? categoryMap.get(categoryId) : undefined;
-    if (!category) {
-      category =
-        safeGet<string>(listing, "prodTechInfo.type") ??
-        safeGet<string>(listing, "productInfo.brand.0.value") ??
-        "Other";
-    }
-    category = String(category || "Other").trim() || "Other";
+function addListingMeta(
+  meta: ItemMeta,
+  listing: RawDoc,
+  categoryMap: CategoryMap,
+  quality: QualityLog = new Map()
+) {
+  const id = strId(listing?._id);
+  if (!id) {
+    flagIssue(quality, "missing_id", listing?.alias?.toString());
+    return;
+  }
 
-    const brand = safeGet<string>(listing, "productInfo.brand.0.value") ?? "";
+  const title =
+    safeGet<string>(listing, "productInfo.item_name.0.value") ??
+    listing?.alias ??
+    safeGet<string>(listing, "productInfo.sku") ??
+    id;
 
-    meta[id] = {
-      title: title.toString(),
-      price: Number.isFinite(price) ? price : 0,
-      category,
-      brand: brand?.toString?.() ?? "",
-    };
+  let price =
+    safeGet<number>(listing, "prodPricing.retailPrice") ??
+    safeGet<number>(
+      listing,
+      "prodPricing.listingWithoutStockVariations.0.retailPrice"
+    ) ??
+    0;
+  if (typeof price !== "number" || Number.isNaN(price)) {
+    price = Number(price) || 0;
   }
-  return meta;
+
+  let categoryId =
+    safeGet<string>(listing, "productInfo.productCategory.$oid") ??
+    safeGet<string>(listing, "productInfo.productCategory");
+  const categoryIdStr = categoryId ? strId(categoryId) : null;
+  categoryId = categoryIdStr || undefined;
+
+  let category = categoryId ? categoryMap.get(categoryId) : undefined;
+  if (categoryId && !category) flagIssue(quality, "unresolved_category", id);
+  if (!category) {
+    category =
+      safeGet<string>(listing, "prodTechInfo.type") ??
+      safeGet<string>(listing, "productInfo.brand.0.value") ??
+      "Other";
+  }
+  category = String(category || "Other").trim() || "Other";
+
+  const brand = safeGet<string>(listing, "productInfo.brand.0.value") ?? "";
+  if (!Number.isFinite(price) || price <= 0)
+    flagIssue(quality, "zero_price", id);
+
+  let stock: unknown = undefined;
+  for (const path of STOCK_PATHS) {
+    stock = safeGet<unknown>(listing, path);
+    if (stock != null) break;
+  }
+  const units = Number(stock);
+
+  meta[id] = {
+    title: title.toString(),
+    price: Number.isFinite(price) ? price : 0,
+    category,
+    brand: brand?.toString?.() ?? "",
+    inStock: stock == null || !Number.isFinite(units) ? null : units > 0,
+  };
+}
+
+const MAX_QUALITY_SAMPLES = 5;
+
+function flagIssue(log: QualityLog, code: DataQualityCode, sample?: string) {
+  const entry = log.get(code) ?? { count: 0, samples: [] };
+  entry.count += 1;
+  if (sample && entry.samples.length < MAX_QUALITY_SAMPLES) {
+    entry.samples.push(sample);
+  }
+  log.set(code, entry);
 }
 
 function collectSessionEvents(doc: RawDoc): Session {
-  const sessionId = strId(doc?._id) ?? randomUUID();
+  const issues: QualityLog = new Map();
+  const docId = strId(doc?._id);
+  const sample =
+    docId ?? (doc?.visitorId ? `visitor:${doc.visitorId}` : undefined);
+  const flag = (code: DataQualityCode) => flagIssue(issues, code, sample);
+  // Like parseDate, but a value that is present and unreadable is flagged
+  const readDate = (value: unknown) => {
+    if (value == null || value === "") return null;
+    const date = parseDate(value);
+    if (!date) flag("unparsable_date");
+    return date;
+  };
+
+  if (!docId) flag("missing_id");
+  if (doc?.visitorId == null || doc.visitorId === "") flag("missing_visitor");
+  if (!safeGet<string>(doc, "geo.country")) flag("missing_country");
+  if (safeGet(doc, "createdAt") == null) flag("missing_created_at");
+
+  const sessionId = docId ?? randomUUID();
   const visitorId = (doc?.visitorId ?? "unknown").toString();
   const country =
     (safeGet<string>(doc, "geo.country") ?? "Unknown") || "Unknown";
-  const ts = parseDate(safeGet(doc, "createdAt")) ?? new Date();
+  const createdAt = readDate(safeGet(doc, "createdAt"));
+  const ts = createdAt ?? new Date();
 
   const views: SessionEvent[] = [];
   const carts: SessionEvent[] = [];
   const wish: SessionEvent[] = [];
   const checkout: SessionEvent[] = [];
 
-  for (const raw of doc?.viewItems ?? []) {
+  // Item reference that does not resolve to an id is dropped and flagged
+  const itemRef = (raw: RawDoc) => {
     const id = strId(raw?.item);
+    if (!id) flag("unresolved_item_ref");
+    return id;
+  };
+  const removalTime = (raw: RawDoc, added: Date) => {
+    const removed = readDate(raw?.updatedAt) ?? added;
+    if (removed < added) flag("removal_before_add");
+    return removed;
+  };
+
+  for (const raw of doc?.viewItems ?? []) {
+    const id = itemRef(raw);
     if (!id) continue;
-    const time = parseDate(raw?.createdAt ?? raw?.date) ?? ts;
+    const time = readDate(raw?.createdAt ?? raw?.date) ?? ts;
     views.push({ itemId: id, ts: time });
   }
 
   for (const raw of doc?.cartItems ?? []) {
-    const id = strId(raw?.item);
+    const id = itemRef(raw);
     if (!id) continue;
-    const time = parseDate(raw?.createdAt) ?? ts;
+    const time = readDate(raw?.createdAt) ?? ts;
     const removed = Boolean(raw?.deleted);
     carts.push({ itemId: id, ts: time, add: 1, remove: 0 });
     if (removed) {
-      const rt = parseDate(raw?.updatedAt) ?? time;
+      const rt = removalTime(raw, time);
       carts.push({ itemId: id, ts: rt, add: 0, remove: 1 });
     }
   }
 
   for (const raw of doc?.wishlistItems ?? []) {
-    const id = strId(raw?.item);
+    const id = itemRef(raw);
     if (!id) continue;
-    const time = parseDate(raw?.createdAt ?? raw?.date) ?? ts;
+    const time = readDate(raw?.createdAt ?? raw?.date) ?? ts;
     const removed = Boolean(raw?.deleted);
     wish.push({ itemId: id, ts: time, add: 1, remove: 0 });
     if (removed) {
-      const rt = parseDate(raw?.updatedAt) ?? time;
+      const rt = removalTime(raw, time);
       wish.push({ itemId: id, ts: rt, add: 0, remove: 1 });
     }
   }
 
   // Process checkoutItems from the new backend structure
   for (const raw of doc?.checkoutItems ?? []) {
-    const id = strId(raw?.item);
+    const id = itemRef(raw);
     if (!id) continue;
-    const time = parseDate(raw?.createdAt) ?? ts;
+    const time = readDate(raw?.createdAt) ?? ts;
     const removed = Boolean(raw?.deleted);
     checkout.push({ itemId: id, ts: time, add: 1, remove: 0 });
     if (removed) {
-      const rt = parseDate(raw?.updatedAt) ?? time;
+      const rt = removalTime(raw, time);
       checkout.push({ itemId: id, ts: rt, add: 0, remove: 1 });
     }
   }
 
+  return finalizeSession({
+    sessionId,
+    visitorId,
+    country,
+    ts,
+    undated: !createdAt,
+    views,
+    carts,
+    wish,
+    checkout,
+    issues,
+    documents: 1,
+    sourceDocuments: 1,
+    splitDocuments: 0,
+  });
+}
+
+function finalizeSession(
+  base: Omit<
+    Session,
+    "end" | "nView" | "nCartAdd" | "nCartRemove" | "nCheckout" | "uniqueItems"
+  >
+): Session {
+  const { ts, views, carts, wish, checkout } = base;
   const nView = views.length;
   const nCartAdd = carts.reduce((acc, evt) => acc + (evt.add ?? 0), 0);
   const nCartRemove = carts.reduce((acc, evt) => acc + (evt.remove ?? 0), 0);
@@ -366,262 +955,1125 @@ function collectSessionEvents(doc: RawDoc): Session {
     ...wish.map((evt) => evt.itemId),
     ...checkout.map((evt) => evt.itemId),
   ]);
+  let end = ts;
+  for (const evt of [...views, ...carts, ...wish, ...checkout]) {
+    if (evt.ts > end) end = evt.ts;
+  }
 
   return {
-    sessionId,
-    visitorId,
-    country,
-    ts,
+    ...base,
+    end,
     nView,
     nCartAdd,
     nCartRemove,
     nCheckout,
     uniqueItems,
-    views,
-    carts,
-    wish,
-    checkout,
   };
 }
 
-function leakAnalytics(
-  sessions: Session[],
-  itemMeta: ItemMeta
-): {
-  overall: number;
-  items: Array<{ item: string; adds: number; removes: number; leak: number }>;
-} {
+export type SessionMode = "document" | "inactivity";
+
+export class SessionBufferError extends Error {
+  /** Documents the sessionizer was allowed to hold. */
+  readonly limit: number;
+
+  constructor(limit: number) {
+    super(
+      `more than ${limit} tracking documents buffered for inactivity ` +
+        "sessions; sort the input by visitorId and createdAt " +
+        "(trackingSortedByVisitor) or raise maxBufferedDocuments"
+    );
+    this.name = "SessionBufferError";
+    this.limit = limit;
+  }
+}
+
+type SessionizerEntry = {
+  ts: Date;
+  doc: Session;
+  kind: "visit" | "views" | "carts" | "wish" | "checkout";
+  event?: SessionEvent;
+};
+
+/**
+ * Regroups visit documents (parsed by collectSessionEvents) into sessions
+ * per visitor: events are ordered by time and a new session starts whenever
+ * the visitor is idle for longer than `gapMs`. Each document's own
+ * `createdAt` counts as activity, so documents without events still yield a
+ * session.
+ *
+ * Undated documents have no real place on the timeline and pass through as
+ * sessions of their own.
+ *
+ * Documents are buffered per visitor until flush(). When the input is known
+ * to be ordered by visitor, `sortedByVisitor` flushes each visitor as soon as
+ * the next one starts, so only one visitor is held in memory. Otherwise
+ * every document is held until flush(), and more than `maxBuffered` of them
+ * throw a SessionBufferError.
+ */
+function createSessionizer(
+  gapMs: number,
+  emit: (session: Session) => void,
+  sortedByVisitor = false,
+  maxBuffered = Infinity
+) {
+  const pending = new Map<string, Session[]>();
+  let lastKey: string | null = null;
+  let buffered = 0;
+
+  // Documents without a visitorId cannot be linked to anything else
+  const visitorKey = (doc: Session) =>
+    doc.issues.has("missing_visitor")
+      ? `doc:${doc.sessionId}`
+      : `visitor:${doc.visitorId}`;
+
+  const sessionize = (docs: Session[]) => {
+    const entries: SessionizerEntry[] = [];
+    for (const doc of docs) {
+      entries.push({ ts: doc.ts, doc, kind: "visit" });
+      for (const kind of ["views", "carts", "wish", "checkout"] as const) {
+        for (const event of doc[kind]) {
+          entries.push({ ts: event.ts, doc, kind, event });
+        }
+      }
+    }
+    entries.sort((a, b) => a.ts.getTime() - b.ts.getTime());
+
+    const groups: SessionizerEntry[][] = [];
+    let last: number | null = null;
+    for (const entry of entries) {
+      const time = entry.ts.getTime();
+      if (last == null || time - last > gapMs) groups.push([]);
+      groups[groups.length - 1].push(entry);
+      last = time;
+    }
+
+    const sessionsPerDoc = new Map<Session, number>();
+    const docsPerGroup = groups.map((group) => {
+      const docsInGroup = new Set(group.map((entry) => entry.doc));
+      for (const doc of docsInGroup) {
+        sessionsPerDoc.set(doc, (sessionsPerDoc.get(doc) ?? 0) + 1);
+      }
+      return docsInGroup;
+    });
+
+    const attributed = new Set<Session>();
+    groups.forEach((group, index) => {
+      const first = group[0].doc;
+      const issues: QualityLog = new Map();
+      let documents = 0;
+      let splitDocuments = 0;
+      for (const doc of docsPerGroup[index]) {
+        if (attributed.has(doc)) continue;
+        attributed.add(doc);
+        documents += 1;
+        mergeQualityLog(issues, doc.issues);
+        if ((sessionsPerDoc.get(doc) ?? 0) > 1) splitDocuments += 1;
+      }
+      const pick = (kind: SessionizerEntry["kind"]) =>
+        group
+          .filter((entry) => entry.kind === kind)
+          .map((entry) => entry.event as SessionEvent);
+
+      emit(
+        finalizeSession({
+          sessionId: first.issues.has("missing_visitor")
+            ? first.sessionId
+            : `${first.visitorId}@${group[0].ts.toISOString()}`,
+          visitorId: first.visitorId,
+          country: first.country,
+          ts: group[0].ts,
+          undated: false,
+          views: pick("views"),
+          carts: pick("carts"),
+          wish: pick("wish"),
+          checkout: pick("checkout"),
+          issues,
+          documents,
+          sourceDocuments: docsPerGroup[index].size,
+          splitDocuments,
+        })
+      );
+    });
+  };
+
+  const flush = () => {
+    for (const docs of pending.values()) sessionize(docs);
+    pending.clear();
+    buffered = 0;
+  };
+
+  return {
+    add(doc: Session) {
+      if (doc.undated) {
+        emit(doc);
+        return;
+      }
+      const key = visitorKey(doc);
+      if (sortedByVisitor && lastKey !== null && key !== lastKey) flush();
+      lastKey = key;
+      buffered += 1;
+      if (buffered > maxBuffered) throw new SessionBufferError(maxBuffered);
+      const docs = pending.get(key) ?? [];
+      docs.push(doc);
+      pending.set(key, docs);
+    },
+    flush,
+  };
+}
+
+// Every analytics section is an accumulator fed one session at a time, so
+// the tracking collection can be streamed through a cursor instead of being
+// loaded into memory. State grows with the distinct keys seen rather than
+// with the number of documents: items, item pairs, baskets (and the item
+// combinations sessions touched, for the price tier sections), days and
+// countries, plus one entry per distinct visitor in the session summary and
+// cohort sections. Those visitor sets are the part that is not bounded by
+// the catalogue.
+type SessionAccumulator<T, S> = {
+  add(session: Session, events: TransitionEvent[]): void;
+  result(): T;
+  /** Serializable partial aggregate (e.g. one day of a persisted rollup). */
+  state(): S;
+  /** Folds a partial aggregate from state() into this accumulator. */
+  merge(state: S): void;
+};
+
+type CountEntries<K = string> = Array<[K, number]>;
+
+function mergeCounts<K>(target: Map<K, number>, entries: CountEntries<K>) {
+  for (const [key, count] of entries) {
+    target.set(key, (target.get(key) ?? 0) + count);
+  }
+}
+
+type LeakState = {
+  adds: CountEntries;
+  removes: CountEntries;
+  totalAdds: number;
+  totalRemoves: number;
+};
+
+function leakAnalytics(): SessionAccumulator<
+  AnalyticsResponse["leak"],
+  LeakState
+> {
   const adds = new Map<string, number>();
   const removes = new Map<string, number>();
   let tAdds = 0;
   let tRem = 0;
 
-  for (const session of sessions) {
-    for (const evt of session.carts) {
-      const key = evt.itemId; // Use item ID as key, not category
-      const add = evt.add ?? 0;
-      const rem = evt.remove ?? 0;
-      if (add) {
-        adds.set(key, (adds.get(key) ?? 0) + add);
-        tAdds += add;
+  return {
+    add(session) {
+      for (const evt of session.carts) {
+        const key = evt.itemId; // Use item ID as key, not category
+        const add = evt.add ?? 0;
+        const rem = evt.remove ?? 0;
+        if (add) {
+          adds.set(key, (adds.get(key) ?? 0) + add);
+          tAdds += add;
+        }
+        if (rem) {
+          removes.set(key, (removes.get(key) ?? 0) + rem);
+          tRem += rem;
+        }
       }
-      if (rem) {
-        removes.set(key, (removes.get(key) ?? 0) + rem);
-        tRem += rem;
+    },
+    state() {
+      return {
+        adds: [...adds.entries()],
+        removes: [...removes.entries()],
+        totalAdds: tAdds,
+        totalRemoves: tRem,
+      };
+    },
+    merge(state) {
+      mergeCounts(adds, state.adds);
+      mergeCounts(removes, state.removes);
+      tAdds += state.totalAdds;
+      tRem += state.totalRemoves;
+    },
+    result() {
+      const rows: Array<{
+        item: string;
+        adds: number;
+        removes: number;
+        leak: number;
+      }> = [];
+      const keys = new Set([...adds.keys(), ...removes.keys()]);
+      for (const key of keys) {
+        const a = adds.get(key) ?? 0;
+        const r = removes.get(key) ?? 0;
+        const leak = a > 0 ? clampValue(r / a, 0, 1) : 0;
+        rows.push({ item: key, adds: a, removes: r, leak });
       }
-    }
-  }
 
-  const rows: Array<{
-    item: string;
-    adds: number;
-    removes: number;
-    leak: number;
-  }> = [];
-  const keys = new Set([...adds.keys(), ...removes.keys()]);
-  for (const key of keys) {
-    const a = adds.get(key) ?? 0;
-    const r = removes.get(key) ?? 0;
-    const leak = a > 0 ? clampValue(r / a, 0, 1) : 0;
-    rows.push({ item: key, adds: a, removes: r, leak });
-  }
-
-  rows.sort((a, b) => b.leak - a.leak || b.removes - a.removes);
+      rows.sort((a, b) => b.leak - a.leak || b.removes - a.removes);
 
-  return {
-    overall: tAdds > 0 ? clampValue(tRem / tAdds, 0, 1) : 0,
-    items: rows,
+      return {
+        overall: tAdds > 0 ? clampValue(tRem / tAdds, 0, 1) : 0,
+        items: rows,
+      };
+    },
   };
 }
 
-function cooccurrenceRecos(sessions: Session[]) {
+type CooccurrenceState = { pairs: CountEntries; freq: CountEntries };
+
+function cooccurrenceRecos(): SessionAccumulator<
+  {
+    recos: AnalyticsResponse["recos"];
+    bundles: AnalyticsResponse["frequentBundles"];
+    itemFreq: Map<string, number>;
+  },
+  CooccurrenceState
+> {
   const pairs = new Map<string, number>();
   const freq = new Map<string, number>();
 
-  for (const session of sessions) {
-    const items = Array.from(session.uniqueItems);
-    for (const id of items) {
-      freq.set(id, (freq.get(id) ?? 0) + 1);
-    }
-    for (let i = 0; i < items.length; i += 1) {
-      for (let j = i + 1; j < items.length; j += 1) {
-        const a = items[i];
-        const b = items[j];
-        const key = a < b ? `${a}|${b}` : `${b}|${a}`;
-        pairs.set(key, (pairs.get(key) ?? 0) + 1);
+  return {
+    add(session) {
+      const items = Array.from(session.uniqueItems);
+      for (const id of items) {
+        freq.set(id, (freq.get(id) ?? 0) + 1);
+      }
+      for (let i = 0; i < items.length; i += 1) {
+        for (let j = i + 1; j < items.length; j += 1) {
+          const a = items[i];
+          const b = items[j];
+          const key = a < b ? `${a}|${b}` : `${b}|${a}`;
+          pairs.set(key, (pairs.get(key) ?? 0) + 1);
+        }
+      }
+    },
+    state() {
+      return { pairs: [...pairs.entries()], freq: [...freq.entries()] };
+    },
+    merge(state) {
+      mergeCounts(pairs, state.pairs);
+      mergeCounts(freq, state.freq);
+    },
+    result() {
+      const recos: Record<string, Array<{ item: string; score: number }>> = {};
+      for (const [key, support] of pairs.entries()) {
+        const [a, b] = key.split("|");
+        const score =
+          support / Math.sqrt((freq.get(a) ?? 1) * (freq.get(b) ?? 1));
+        (recos[a] ??= []).push({ item: b, score });
+        (recos[b] ??= []).push({ item: a, score });
       }
-    }
-  }
-
-  const recos: Record<string, Array<{ item: string; score: number }>> = {};
-  for (const [key, support] of pairs.entries()) {
-    const [a, b] = key.split("|");
-    const score = support / Math.sqrt((freq.get(a) ?? 1) * (freq.get(b) ?? 1));
-    (recos[a] ??= []).push({ item: b, score });
-    (recos[b] ??= []).push({ item: a, score });
-  }
 
-  for (const key of Object.keys(recos)) {
-    recos[key].sort((x, y) => y.score - x.score);
-    recos[key] = recos[key].slice(0, 10);
-  }
+      for (const key of Object.keys(recos)) {
+        recos[key].sort((x, y) => y.score - x.score);
+        recos[key] = recos[key].slice(0, 10);
+      }
 
-  const bundles = [...pairs.entries()]
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 15)
-    .map(([key, support]) => {
-      const [i, j] = key.split("|");
-      return { items: [i, j] as [string, string], support };
-    });
+      const bundles = [...pairs.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 15)
+        .map(([key, support]) => {
+          const [i, j] = key.split("|");
+          return { items: [i, j] as [string, string], support };
+        });
 
-  return { recos, bundles, itemFreq: freq };
+      return { recos, bundles, itemFreq: freq };
+    },
+  };
 }
 
-function robustPriceSplits(prices: number[]) {
-  const filtered = prices.filter(Number.isFinite);
-  if (!filtered.length) {
-    return { tLow: null, tHigh: null, dispMin: 0, dispMax: 0 };
-  }
-  const sorted = [...filtered].sort((a, b) => a - b);
-  const p05 = quantileSorted(sorted, 0.05) ?? sorted[0];
-  const p95 = quantileSorted(sorted, 0.95) ?? sorted[sorted.length - 1];
-  const clipped = sorted.filter((value) => value >= p05 && value <= p95);
-  const logValues = clipped
-    .map((value) => Math.log1p(value))
-    .sort((a, b) => a - b);
-  const l33 = quantileSorted(logValues, 0.33);
-  const l66 = quantileSorted(logValues, 0.66);
-  const tLow = typeof l33 === "number" ? Math.expm1(l33) : null;
-  const tHigh = typeof l66 === "number" ? Math.expm1(l66) : null;
-  return { tLow, tHigh, dispMin: p05, dispMax: p95 };
-}
+// Larger baskets would make the subset enumeration explode
+const MAX_BASKET_ITEMS = 20;
+// Itemsets seen in a single session are never reported
+const MIN_ITEMSET_SESSIONS = 2;
+const MAX_ASSOCIATION_ITEMSETS = 100;
+const MAX_ASSOCIATION_RULES = 200;
 
-function priceSegmentedMarkov(
-  sessions: Session[],
-  itemMeta: ItemMeta
-): MarkovSummary {
-  const prices = Object.values(itemMeta)
-    .map((meta) => meta.price || 0)
-    .filter(Number.isFinite);
-  const { tLow, tHigh, dispMin, dispMax } = robustPriceSplits(prices);
+type BasketCounts = {
+  transactions: number;
+  skippedSessions: number;
+  items: CountEntries;
+  /** Sorted item ids joined by "|", for baskets of two or more items. */
+  baskets: CountEntries;
+};
 
-  const tiers = new Map<
-    PriceTier,
-    {
-      nViewSess: number;
-      nViewThenCartSess: number;
-      adds: number;
-      removes: number;
+type AssociationState = { viewed: BasketCounts; bought: BasketCounts };
+
+type AssociationThresholds = {
+  minSupport: number;
+  minConfidence: number;
+  minLift: number;
+  maxItems: number;
+};
+
+function* combinations<T>(items: T[], size: number, from = 0): Generator<T[]> {
+  if (size === 0) {
+    yield [];
+    return;
+  }
+  for (let i = from; i <= items.length - size; i += 1) {
+    for (const rest of combinations(items, size - 1, i + 1)) {
+      yield [items[i], ...rest];
     }
-  >();
+  }
+}
 
-  const tierForItem = (id: string): PriceTier => {
-    const price = itemMeta[id]?.price ?? 0;
-    if (tLow == null || tHigh == null || tLow === tHigh) return "All";
-    if (price <= tLow) return "Low";
-    if (price <= tHigh) return "Mid";
-    return "High";
-  };
+// Item ids are ordered by UTF-16 code unit everywhere (as Array#sort() does
+// for baskets), item by item, so itemsets that share a prefix stay adjacent
+// for the join below
+function compareItemsets(a: string[], b: string[]) {
+  for (let i = 0; i < Math.min(a.length, b.length); i += 1) {
+    if (a[i] !== b[i]) return a[i] < b[i] ? -1 : 1;
+  }
+  return a.length - b.length;
+}
 
-  const overall = { nViewSess: 0, nViewThenCartSess: 0, adds: 0, removes: 0 };
+// Level-wise Apriori: frequent k-itemsets are joined into (k+1)-candidates,
+// pruned by their subsets, then counted against the weighted baskets.
+function mineAssociations(
+  counts: {
+    transactions: number;
+    skippedSessions: number;
+    items: Map<string, number>;
+    baskets: Map<string, number>;
+  },
+  thresholds: AssociationThresholds
+): AssociationResult {
+  const { transactions } = counts;
+  const minCount = Math.max(
+    MIN_ITEMSET_SESSIONS,
+    Math.ceil(thresholds.minSupport * transactions)
+  );
+  const support = new Map<string, number>();
+  for (const [item, count] of counts.items) {
+    if (count >= minCount) support.set(item, count);
+  }
 
-  for (const session of sessions) {
-    const viewed = new Set<PriceTier>(
-      session.views.map((evt) => tierForItem(evt.itemId))
-    );
-    const added = new Set<PriceTier>(
-      session.carts
-        .filter((evt) => evt.add)
-        .map((evt) => tierForItem(evt.itemId))
-    );
+  const baskets = [...counts.baskets.entries()]
+    .map(
+      ([key, weight]) =>
+        [key.split("|").filter((item) => support.has(item)), weight] as const
+    )
+    .filter(([items]) => items.length >= 2);
 
-    if (session.views.length > 0) {
-      overall.nViewSess += 1;
-      if (session.carts.some((evt) => evt.add)) {
-        overall.nViewThenCartSess += 1;
+  let level = [...support.keys()].map((item) => [item]).sort(compareItemsets);
+  for (let size = 2; size <= thresholds.maxItems && level.length; size += 1) {
+    const candidates = new Map<string, number>();
+    for (let i = 0; i < level.length; i += 1) {
+      for (let j = i + 1; j < level.length; j += 1) {
+        const a = level[i];
+        const b = level[j];
+        if (a.slice(0, -1).join("|") !== b.slice(0, -1).join("|")) break;
+        const candidate = [...a, b[b.length - 1]];
+        const pruned = candidate.some(
+          (_, skip) =>
+            !support.has(candidate.filter((__, k) => k !== skip).join("|"))
+        );
+        if (!pruned) candidates.set(candidate.join("|"), 0);
       }
     }
+    if (!candidates.size) break;
 
-    for (const tier of viewed) {
-      const state = tiers.get(tier) ?? {
-        nViewSess: 0,
-        nViewThenCartSess: 0,
-        adds: 0,
-        removes: 0,
-      };
-      state.nViewSess += 1;
-      if (added.has(tier)) {
-        state.nViewThenCartSess += 1;
+    for (const [items, weight] of baskets) {
+      if (items.length < size) continue;
+      for (const subset of combinations(items, size)) {
+        const key = subset.join("|");
+        const count = candidates.get(key);
+        if (count != null) candidates.set(key, count + weight);
       }
-      tiers.set(tier, state);
     }
 
-    for (const evt of session.carts) {
-      const tier = tierForItem(evt.itemId);
-      const state = tiers.get(tier) ?? {
-        nViewSess: 0,
-        nViewThenCartSess: 0,
-        adds: 0,
-        removes: 0,
-      };
-      state.adds += evt.add ?? 0;
-      state.removes += evt.remove ?? 0;
-      tiers.set(tier, state);
-      overall.adds += evt.add ?? 0;
-      overall.removes += evt.remove ?? 0;
+    level = [];
+    for (const [key, count] of candidates) {
+      if (count < minCount) continue;
+      support.set(key, count);
+      level.push(key.split("|"));
     }
+    level.sort(compareItemsets);
   }
 
-  const model: Record<
-    PriceTier,
-    { pViewToCart: number; pCartToCheckout: number }
-  > = {
-    Low: { pViewToCart: 0, pCartToCheckout: 0 },
-    Mid: { pViewToCart: 0, pCartToCheckout: 0 },
-    High: { pViewToCart: 0, pCartToCheckout: 0 },
-    All: { pViewToCart: 0, pCartToCheckout: 0 },
-  };
-
-  for (const [tier, state] of tiers.entries()) {
-    const viewToCart =
-      state.nViewSess > 0 ? state.nViewThenCartSess / state.nViewSess : 0;
-    const denom = state.adds > 0 ? state.adds : 1;
-    const cartToCheckout = clampValue(
-      (state.adds - state.removes) / denom,
-      0,
-      1
-    );
-    model[tier] = { pViewToCart: viewToCart, pCartToCheckout: cartToCheckout };
+  const itemsets: AssociationResult["itemsets"] = [];
+  const rules: AssociationRule[] = [];
+  for (const [key, count] of support) {
+    const items = key.split("|");
+    if (items.length < 2) continue;
+    itemsets.push({ items, count, support: count / transactions });
+    for (let size = 1; size < items.length; size += 1) {
+      for (const antecedent of combinations(items, size)) {
+        const consequent = items.filter((item) => !antecedent.includes(item));
+        const confidence = count / (support.get(antecedent.join("|")) ?? count);
+        const consequentShare =
+          (support.get(consequent.join("|")) ?? 0) / transactions;
+        const lift = consequentShare > 0 ? confidence / consequentShare : 0;
+        if (confidence < thresholds.minConfidence) continue;
+        if (lift < thresholds.minLift) continue;
+        rules.push({
+          antecedent,
+          consequent,
+          count,
+          support: count / transactions,
+          confidence,
+          lift,
+        });
+      }
+    }
   }
 
-  if (!tiers.size) {
-    const denom = overall.adds > 0 ? overall.adds : 1;
-    model.All = {
-      pViewToCart:
-        overall.nViewSess > 0
-          ? overall.nViewThenCartSess / overall.nViewSess
-          : 0,
-      pCartToCheckout: clampValue(
-        (overall.adds - overall.removes) / denom,
-        0,
-        1
-      ),
-    };
-    return { model, tLow, tHigh, min: dispMin, max: dispMax };
-  }
+  return {
+    transactions,
+    skippedSessions: counts.skippedSessions,
+    itemsets: itemsets
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_ASSOCIATION_ITEMSETS),
+    rules: rules
+      .sort((a, b) => b.lift - a.lift || b.confidence - a.confidence)
+      .slice(0, MAX_ASSOCIATION_RULES),
+  };
+}
 
-  const denomAll = overall.adds > 0 ? overall.adds : 1;
-  model.All = {
-    pViewToCart:
-      overall.nViewSess > 0 ? overall.nViewThenCartSess / overall.nViewSess : 0,
-    pCartToCheckout: clampValue(
-      (overall.adds - overall.removes) / denomAll,
-      0,
-      1
-    ),
+function associationRules(
+  thresholds: AssociationThresholds
+): SessionAccumulator<AnalyticsResponse["associations"], AssociationState> {
+  const emptyCounts = () => ({
+    transactions: 0,
+    skippedSessions: 0,
+    items: new Map<string, number>(),
+    baskets: new Map<string, number>(),
+  });
+  const kinds = { viewed: emptyCounts(), bought: emptyCounts() };
+
+  const addBasket = (
+    counts: ReturnType<typeof emptyCounts>,
+    events: SessionEvent[]
+  ) => {
+    const items = [
+      ...new Set(events.filter((e) => e.add !== 0).map((e) => e.itemId)),
+    ].sort();
+    if (!items.length) return;
+    // An oversized basket counted for its single items but not its itemsets
+    // would deflate every rule's confidence, so it is left out entirely
+    if (items.length > MAX_BASKET_ITEMS) {
+      counts.skippedSessions += 1;
+      return;
+    }
+    counts.transactions += 1;
+    for (const item of items) {
+      counts.items.set(item, (counts.items.get(item) ?? 0) + 1);
+    }
+    if (items.length >= 2) {
+      const key = items.join("|");
+      counts.baskets.set(key, (counts.baskets.get(key) ?? 0) + 1);
+    }
+  };
+  const stateOf = (counts: ReturnType<typeof emptyCounts>): BasketCounts => ({
+    transactions: counts.transactions,
+    skippedSessions: counts.skippedSessions,
+    items: [...counts.items.entries()],
+    baskets: [...counts.baskets.entries()],
+  });
+
+  return {
+    add(session) {
+      addBasket(kinds.viewed, session.views);
+      addBasket(kinds.bought, session.checkout);
+    },
+    state() {
+      return { viewed: stateOf(kinds.viewed), bought: stateOf(kinds.bought) };
+    },
+    merge(state) {
+      for (const kind of ["viewed", "bought"] as const) {
+        kinds[kind].transactions += state[kind].transactions;
+        kinds[kind].skippedSessions += state[kind].skippedSessions;
+        mergeCounts(kinds[kind].items, state[kind].items);
+        mergeCounts(kinds[kind].baskets, state[kind].baskets);
+      }
+    },
+    result() {
+      return {
+        ...thresholds,
+        viewed: mineAssociations(kinds.viewed, thresholds),
+        bought: mineAssociations(kinds.bought, thresholds),
+      };
+    },
+  };
+}
+
+// Matrices keep the most visited keys so the heatmap stays readable
+const MAX_CROSS_SELL_KEYS = 20;
+// Per target category, ranked by shared sessions
+const MAX_CROSS_SELL_ITEMS = 25;
+
+type CrossSellState = {
+  sessions: number;
+  categories: CountEntries;
+  categoryPairs: CountEntries;
+  brands: CountEntries;
+  brandPairs: CountEntries;
+  items: CountEntries;
+  /** "item|category" for categories other than the item's own */
+  itemCategories: CountEntries;
+};
+
+function crossSellAffinities(
+  itemMeta: ItemMeta
+): SessionAccumulator<AnalyticsResponse["crossSell"], CrossSellState> {
+  let sessions = 0;
+  const categories = new Map<string, number>();
+  const categoryPairs = new Map<string, number>();
+  const brands = new Map<string, number>();
+  const brandPairs = new Map<string, number>();
+  const items = new Map<string, number>();
+  const itemCategories = new Map<string, number>();
+  const categoryOf = (id: string) => itemMeta[id]?.category ?? "Other";
+  const brandOf = (id: string) => itemMeta[id]?.brand || "Unknown";
+  const bump = (target: Map<string, number>, key: string) =>
+    target.set(key, (target.get(key) ?? 0) + 1);
+
+  const countKeys = (
+    keys: string[],
+    freq: Map<string, number>,
+    pairs: Map<string, number>
+  ) => {
+    keys.sort();
+    for (let i = 0; i < keys.length; i += 1) {
+      bump(freq, keys[i]);
+      for (let j = i + 1; j < keys.length; j += 1) {
+        bump(pairs, JSON.stringify([keys[i], keys[j]]));
+      }
+    }
+  };
+
+  const matrix = (
+    freq: Map<string, number>,
+    pairs: Map<string, number>
+  ): AffinityMatrix => {
+    const keys = [...freq.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_CROSS_SELL_KEYS)
+      .map(([key]) => key);
+    const counts = keys.map((a) =>
+      keys.map((b) => {
+        if (a === b) return freq.get(a) ?? 0;
+        const key = JSON.stringify(a < b ? [a, b] : [b, a]);
+        return pairs.get(key) ?? 0;
+      })
+    );
+    const totals = keys.map((key) => freq.get(key) ?? 0);
+    return {
+      keys,
+      sessions: totals,
+      counts,
+      confidence: counts.map((row, i) =>
+        row.map((count) => (totals[i] ? count / totals[i] : 0))
+      ),
+      lift: counts.map((row, i) =>
+        row.map((count, j) =>
+          totals[i] && totals[j]
+            ? (count * sessions) / (totals[i] * totals[j])
+            : 0
+        )
+      ),
+    };
+  };
+
+  return {
+    add(session) {
+      const ids = [...session.uniqueItems];
+      if (!ids.length) return;
+      sessions += 1;
+      const sessionCategories = [...new Set(ids.map(categoryOf))];
+      countKeys([...sessionCategories], categories, categoryPairs);
+      countKeys([...new Set(ids.map(brandOf))], brands, brandPairs);
+      for (const id of ids) {
+        bump(items, id);
+        for (const category of sessionCategories) {
+          if (category !== categoryOf(id)) {
+            bump(itemCategories, JSON.stringify([id, category]));
+          }
+        }
+      }
+    },
+    state() {
+      return {
+        sessions,
+        categories: [...categories.entries()],
+        categoryPairs: [...categoryPairs.entries()],
+        brands: [...brands.entries()],
+        brandPairs: [...brandPairs.entries()],
+        items: [...items.entries()],
+        itemCategories: [...itemCategories.entries()],
+      };
+    },
+    merge(state) {
+      sessions += state.sessions;
+      mergeCounts(categories, state.categories);
+      mergeCounts(categoryPairs, state.categoryPairs);
+      mergeCounts(brands, state.brands);
+      mergeCounts(brandPairs, state.brandPairs);
+      mergeCounts(items, state.items);
+      mergeCounts(itemCategories, state.itemCategories);
+    },
+    result() {
+      const intoCategory: Record<string, CrossSellItem[]> = {};
+      for (const [key, count] of itemCategories) {
+        const [item, category] = JSON.parse(key) as [string, string];
+        const itemSessions = items.get(item) ?? 0;
+        const categorySessions = categories.get(category) ?? 0;
+        (intoCategory[category] ??= []).push({
+          item,
+          sessions: count,
+          confidence: categorySessions ? count / categorySessions : 0,
+          lift:
+            itemSessions && categorySessions
+              ? (count * sessions) / (itemSessions * categorySessions)
+              : 0,
+        });
+      }
+      for (const category of Object.keys(intoCategory)) {
+        intoCategory[category] = intoCategory[category]
+          .sort((a, b) => b.sessions - a.sessions || b.lift - a.lift)
+          .slice(0, MAX_CROSS_SELL_ITEMS);
+      }
+      return {
+        sessions,
+        categories: matrix(categories, categoryPairs),
+        brands: matrix(brands, brandPairs),
+        intoCategory,
+      };
+    },
+  };
+}
+
+/**
+ * Top items from other categories that co-occur with `category`, re-ranked
+ * by `sortBy` among the stored candidates. Works on cached snapshots too.
+ */
+export function topCrossSellInto(
+  analytics: Pick<AnalyticsResponse, "crossSell">,
+  category: string,
+  k = 10,
+  sortBy: "sessions" | "lift" | "confidence" = "sessions"
+): CrossSellItem[] {
+  return [...(analytics.crossSell.intoCategory[category] ?? [])]
+    .sort((a, b) => b[sortBy] - a[sortBy])
+    .slice(0, k);
+}
+
+export type ItemRecommendation = {
+  itemId: string;
+  /** Sum of the item's scores against every seed it neighbours. */
+  score: number;
+  /** Seeds that list the item among their neighbours. */
+  seeds: number;
+  title: string | null;
+  price: number | null;
+  category: string | null;
+  brand: string | null;
+  inStock: boolean | null;
+};
+
+export type RecommendationFilters = {
+  /** Weighting profile from weightedRecos; null uses the plain cosine. */
+  profile?: string | null;
+  /** Drop candidates sharing a (known) category with any seed. */
+  excludeSeedCategories?: boolean;
+  /** Drop candidates whose listing is known to be out of stock. */
+  inStockOnly?: boolean;
+};
+
+/**
+ * Merged recommendations for one or more seed items (e.g. a cart), with
+ * listing metadata attached. Works on cached snapshots too.
+ */
+export function recommendForItems(
+  analytics: Pick<AnalyticsResponse, "recos" | "weightedRecos" | "itemMeta">,
+  seeds: string[],
+  k = 10,
+  filters: RecommendationFilters = {}
+): ItemRecommendation[] {
+  const recos =
+    filters.profile == null
+      ? analytics.recos
+      : analytics.weightedRecos.recos[filters.profile] ?? {};
+  const exclude = new Set(seeds);
+  const seedCategories = new Set(
+    seeds.flatMap((id) => {
+      const category = analytics.itemMeta[id]?.category;
+      return category ? [category] : [];
+    })
+  );
+
+  const merged = new Map<string, { score: number; seeds: number }>();
+  for (const seed of exclude) {
+    for (const { item, score } of recos[seed] ?? []) {
+      if (exclude.has(item)) continue;
+      const meta = analytics.itemMeta[item];
+      if (filters.inStockOnly && meta?.inStock === false) continue;
+      if (
+        filters.excludeSeedCategories &&
+        meta &&
+        seedCategories.has(meta.category)
+      ) {
+        continue;
+      }
+      const entry = merged.get(item) ?? { score: 0, seeds: 0 };
+      entry.score += score;
+      entry.seeds += 1;
+      merged.set(item, entry);
+    }
+  }
+
+  return [...merged.entries()]
+    .sort((a, b) => b[1].score - a[1].score)
+    .slice(0, k)
+    .map(([itemId, entry]) => {
+      const meta = analytics.itemMeta[itemId];
+      return {
+        itemId,
+        score: entry.score,
+        seeds: entry.seeds,
+        title: meta?.title ?? null,
+        price: meta?.price ?? null,
+        category: meta?.category ?? null,
+        brand: meta?.brand ?? null,
+        inStock: meta?.inStock ?? null,
+      };
+    });
+}
+
+type WeightedRecoState = {
+  /** Session time (ms) that carries decay weight 1 in the sums below. */
+  anchor: number | null;
+  pairs: CountEntries;
+  norms: CountEntries;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One weighted item-item cosine per profile: an item's weight in a session
+// is its strongest event, and each session is scaled by its recency decay.
+function weightedRecos(
+  profiles: RecoProfile[]
+): SessionAccumulator<
+  AnalyticsResponse["weightedRecos"],
+  Record<string, WeightedRecoState>
+> {
+  const models = profiles.map((profile) => ({
+    profile,
+    anchor: null as number | null,
+    pairs: new Map<string, number>(),
+    norms: new Map<string, number>(),
+  }));
+  // Decay relative to the anchor; sums stay comparable after rescaling
+  const decay = (profile: RecoProfile, from: number, to: number) =>
+    profile.halfLifeDays == null
+      ? 1
+      : Math.pow(2, (to - from) / (profile.halfLifeDays * DAY_MS));
+  // Scale of a session at `time`, moving the anchor forward before the
+  // weights of much newer sessions could overflow
+  const scaleAt = (model: (typeof models)[number], time: number) => {
+    model.anchor ??= time;
+    const scale = decay(model.profile, model.anchor, time);
+    if (scale < 1e100) return scale;
+    const factor = 1 / scale;
+    for (const sums of [model.pairs, model.norms]) {
+      for (const [key, value] of sums) sums.set(key, value * factor);
+    }
+    model.anchor = time;
+    return 1;
+  };
+
+  return {
+    add(session) {
+      for (const model of models) {
+        const { profile } = model;
+        const weights = new Map<string, number>();
+        const bump = (itemId: string, weight: number) =>
+          weights.set(itemId, Math.max(weights.get(itemId) ?? 0, weight));
+        for (const view of session.views) bump(view.itemId, profile.view);
+        for (const wish of session.wish) {
+          if (wish.add) bump(wish.itemId, profile.wishlist);
+        }
+        for (const cart of session.carts) {
+          if (cart.add) bump(cart.itemId, profile.cart);
+        }
+        const bought = new Set<string>();
+        for (const item of session.checkout) {
+          if (!item.add) continue;
+          bought.add(item.itemId);
+          bump(item.itemId, profile.checkout);
+        }
+        // Once per item, however often it left the cart in the session
+        const removed = new Set(
+          session.carts
+            .filter((cart) => cart.remove && !bought.has(cart.itemId))
+            .map((cart) => cart.itemId)
+        );
+        for (const itemId of removed) {
+          const weight = weights.get(itemId);
+          if (weight != null) weights.set(itemId, weight * profile.cartRemoval);
+        }
+
+        const scale = scaleAt(model, session.ts.getTime());
+        const items = [...weights.entries()].filter(([, w]) => w > 0);
+        for (const [id, w] of items) {
+          model.norms.set(id, (model.norms.get(id) ?? 0) + scale * w * w);
+        }
+        for (let i = 0; i < items.length; i += 1) {
+          for (let j = i + 1; j < items.length; j += 1) {
+            const [a, wa] = items[i];
+            const [b, wb] = items[j];
+            const key = a < b ? `${a}|${b}` : `${b}|${a}`;
+            model.pairs.set(key, (model.pairs.get(key) ?? 0) + scale * wa * wb);
+          }
+        }
+      }
+    },
+    state() {
+      return Object.fromEntries(
+        models.map((model) => [
+          model.profile.name,
+          {
+            anchor: model.anchor,
+            pairs: [...model.pairs.entries()],
+            norms: [...model.norms.entries()],
+          },
+        ])
+      );
+    },
+    merge(state) {
+      for (const model of models) {
+        const source = state[model.profile.name];
+        if (!source || source.anchor == null) continue;
+        const scale = scaleAt(model, source.anchor);
+        for (const [target, entries] of [
+          [model.pairs, source.pairs],
+          [model.norms, source.norms],
+        ] as const) {
+          for (const [key, value] of entries) {
+            target.set(key, (target.get(key) ?? 0) + scale * value);
+          }
+        }
+      }
+    },
+    result() {
+      const recos: Record<string, AnalyticsResponse["recos"]> = {};
+      for (const model of models) {
+        const byItem: AnalyticsResponse["recos"] = {};
+        for (const [key, pair] of model.pairs) {
+          const [a, b] = key.split("|");
+          const norm = Math.sqrt(
+            (model.norms.get(a) ?? 0) * (model.norms.get(b) ?? 0)
+          );
+          if (!norm) continue;
+          const score = pair / norm;
+          (byItem[a] ??= []).push({ item: b, score });
+          (byItem[b] ??= []).push({ item: a, score });
+        }
+        for (const key of Object.keys(byItem)) {
+          byItem[key] = byItem[key]
+            .sort((x, y) => y.score - x.score)
+            .slice(0, 10);
+        }
+        recos[model.profile.name] = byItem;
+      }
+      return { profiles, recos };
+    },
+  };
+}
+
+function robustPriceSplits(prices: number[]) {
+  const filtered = prices.filter(Number.isFinite);
+  if (!filtered.length) {
+    return { tLow: null, tHigh: null, dispMin: 0, dispMax: 0 };
+  }
+  const sorted = [...filtered].sort((a, b) => a - b);
+  const p05 = quantileSorted(sorted, 0.05) ?? sorted[0];
+  const p95 = quantileSorted(sorted, 0.95) ?? sorted[sorted.length - 1];
+  const clipped = sorted.filter((value) => value >= p05 && value <= p95);
+  const logValues = clipped
+    .map((value) => Math.log1p(value))
+    .sort((a, b) => a - b);
+  const l33 = quantileSorted(logValues, 0.33);
+  const l66 = quantileSorted(logValues, 0.66);
+  const tLow = typeof l33 === "number" ? Math.expm1(l33) : null;
+  const tHigh = typeof l66 === "number" ? Math.expm1(l66) : null;
+  return { tLow, tHigh, dispMin: p05, dispMax: p95 };
+}
+
+// Price tiers are cut at the 33rd/66th log-price percentiles of the catalogue
+function priceTiers(itemMeta: ItemMeta) {
+  const prices = Object.values(itemMeta)
+    .map((meta) => meta.price || 0)
+    .filter(Number.isFinite);
+  const splits = robustPriceSplits(prices);
+  const { tLow, tHigh } = splits;
+  const tierForItem = (id: string): PriceTier => {
+    const price = itemMeta[id]?.price ?? 0;
+    if (tLow == null || tHigh == null || tLow === tHigh) return "All";
+    if (price <= tLow) return "Low";
+    if (price <= tHigh) return "Mid";
+    return "High";
+  };
+  return { ...splits, tierForItem };
+}
+
+const TOUCH_VIEW = 1;
+const TOUCH_CART = 2;
+const TOUCH_CHECKOUT = 4;
+
+type TierTouch = {
+  viewed: boolean;
+  carted: boolean;
+  checkedOut: boolean;
+  checkouts: number;
+};
+
+// The items a session viewed, added to the cart and checked out, as one key.
+// Sections that split sessions by price tier count these keys instead of
+// tiers, so stored rollups stay valid when the catalogue's cut points move
+function sessionItemKey(session: Session) {
+  const touches = new Map<string, [number, number]>();
+  const touch = (itemId: string, flag: number, checkouts = 0) => {
+    const entry = touches.get(itemId) ?? [0, 0];
+    entry[0] |= flag;
+    entry[1] += checkouts;
+    touches.set(itemId, entry);
   };
+  for (const view of session.views) touch(view.itemId, TOUCH_VIEW);
+  for (const cart of session.carts) {
+    if (cart.add) touch(cart.itemId, TOUCH_CART);
+  }
+  for (const item of session.checkout) {
+    if (item.add) touch(item.itemId, TOUCH_CHECKOUT, item.add);
+  }
+  if (!touches.size) return null;
+  return JSON.stringify(
+    [...touches.entries()]
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([itemId, [flags, checkouts]]) => [itemId, flags, checkouts])
+  );
+}
+
+// What a session keyed by sessionItemKey did within each price tier
+function tierTouches(key: string, tierForItem: (id: string) => PriceTier) {
+  const tiers = new Map<PriceTier, TierTouch>();
+  const items = JSON.parse(key) as Array<[string, number, number]>;
+  for (const [itemId, flags, checkouts] of items) {
+    const tier = tierForItem(itemId);
+    const entry = tiers.get(tier) ?? {
+      viewed: false,
+      carted: false,
+      checkedOut: false,
+      checkouts: 0,
+    };
+    if (flags & TOUCH_VIEW) entry.viewed = true;
+    if (flags & TOUCH_CART) entry.carted = true;
+    if (flags & TOUCH_CHECKOUT) entry.checkedOut = true;
+    entry.checkouts += checkouts;
+    tiers.set(tier, entry);
+  }
+  return tiers;
+}
+
+type TierStats = {
+  nViewSess: number;
+  nViewThenCartSess: number;
+  nCartSess: number;
+  nCartThenCheckoutSess: number;
+};
+
+type MarkovState = { sessionItems: CountEntries; overall: TierStats };
+
+function priceSegmentedMarkov(
+  itemMeta: ItemMeta
+): SessionAccumulator<MarkovSummary, MarkovState> {
+  const { tLow, tHigh, dispMin, dispMax, tierForItem } = priceTiers(itemMeta);
+
+  const emptyStats = (): TierStats => ({
+    nViewSess: 0,
+    nViewThenCartSess: 0,
+    nCartSess: 0,
+    nCartThenCheckoutSess: 0,
+  });
+  const sessionItems = new Map<string, number>();
+  const overall = emptyStats();
+
+  const rates = (stats: TierStats) => ({
+    pViewToCart:
+      stats.nViewSess > 0 ? stats.nViewThenCartSess / stats.nViewSess : 0,
+    pCartToCheckout:
+      stats.nCartSess > 0 ? stats.nCartThenCheckoutSess / stats.nCartSess : 0,
+  });
+
+  return {
+    add(session) {
+      const viewed = session.views.length > 0;
+      const added = session.carts.some((evt) => evt.add);
+      const checkedOut = session.checkout.some((evt) => evt.add);
+
+      if (viewed) {
+        overall.nViewSess += 1;
+        if (added) overall.nViewThenCartSess += 1;
+      }
+      if (added) {
+        overall.nCartSess += 1;
+        if (checkedOut) overall.nCartThenCheckoutSess += 1;
+      }
+
+      const key = sessionItemKey(session);
+      if (key) sessionItems.set(key, (sessionItems.get(key) ?? 0) + 1);
+    },
+    state() {
+      return {
+        sessionItems: [...sessionItems.entries()],
+        overall: { ...overall },
+      };
+    },
+    merge(state) {
+      const fold = (target: TierStats, source: TierStats) => {
+        target.nViewSess += source.nViewSess;
+        target.nViewThenCartSess += source.nViewThenCartSess;
+        target.nCartSess += source.nCartSess;
+        target.nCartThenCheckoutSess += source.nCartThenCheckoutSess;
+      };
+      mergeCounts(sessionItems, state.sessionItems);
+      fold(overall, state.overall);
+    },
+    result() {
+      const model: Record<
+        PriceTier,
+        { pViewToCart: number; pCartToCheckout: number }
+      > = {
+        Low: { pViewToCart: 0, pCartToCheckout: 0 },
+        Mid: { pViewToCart: 0, pCartToCheckout: 0 },
+        High: { pViewToCart: 0, pCartToCheckout: 0 },
+        All: { pViewToCart: 0, pCartToCheckout: 0 },
+      };
 
-  return { model, tLow, tHigh, min: dispMin, max: dispMax };
+      const tiers = new Map<PriceTier, TierStats>();
+      for (const [key, count] of sessionItems) {
+        for (const [tier, touch] of tierTouches(key, tierForItem)) {
+          if (!touch.viewed && !touch.carted) continue;
+          const stats = tiers.get(tier) ?? emptyStats();
+          if (touch.viewed) {
+            stats.nViewSess += count;
+            if (touch.carted) stats.nViewThenCartSess += count;
+          }
+          if (touch.carted) {
+            stats.nCartSess += count;
+            if (touch.checkedOut) stats.nCartThenCheckoutSess += count;
+          }
+          tiers.set(tier, stats);
+        }
+      }
+      for (const [tier, stats] of tiers.entries()) {
+        model[tier] = rates(stats);
+      }
+      model.All = rates(overall);
+
+      return { model, tLow, tHigh, min: dispMin, max: dispMax };
+    },
+  };
 }
 
 function buildEventStreamForSession(
@@ -687,243 +2139,1387 @@ function buildEventStreamForSession(
   return events;
 }
 
-function transitionMatrixAndSankey(sessions: Session[], itemMeta: ItemMeta) {
-  const states: TransitionEvent["type"][] = [
-    "cart_add",
-    "cart_remove",
-    "view",
-    "wishlist_add",
-    "wishlist_remove",
-    "checkout",
-  ];
+const TRANSITION_STATES: TransitionEvent["type"][] = [
+  "cart_add",
+  "cart_remove",
+  "view",
+  "wishlist_add",
+  "wishlist_remove",
+  "checkout",
+];
+
+type TransitionState = { counts: number[][] };
+
+function transitionMatrixAndSankey(): SessionAccumulator<
+  {
+    states: string[];
+    counts: number[][];
+    probs: number[][];
+    sankey: AnalyticsResponse["sankey"];
+  },
+  TransitionState
+> {
+  const states = TRANSITION_STATES;
   const index = Object.fromEntries(
     states.map((state, idx) => [state, idx] as const)
   );
   const n = states.length;
   const counts = Array.from({ length: n }, () => Array(n).fill(0));
-  const transitions: Array<{ from: TransitionEvent; to: TransitionEvent }> = [];
-
-  for (const session of sessions) {
-    const events = buildEventStreamForSession(session, itemMeta);
-    for (let i = 0; i < events.length - 1; i += 1) {
-      const from = events[i];
-      const to = events[i + 1];
-      const ia = index[from.type];
-      const ib = index[to.type];
-      if (ia == null || ib == null) continue;
-      counts[ia][ib] += 1;
-      transitions.push({ from, to });
-    }
-  }
-
-  const probs = counts.map((row) => {
-    const sum = row.reduce((acc, value) => acc + value, 0);
-    return sum ? row.map((value) => value / sum) : row.map(() => 0);
-  });
-
-  const links: Array<{ source: number; target: number; value: number }> = [];
-  for (let i = 0; i < n; i += 1) {
-    for (let j = 0; j < n; j += 1) {
-      const value = counts[i][j];
-      if (value > 0) {
-        links.push({ source: i, target: j, value });
-      }
-    }
-  }
 
   return {
-    states,
-    counts,
-    probs,
-    sankey: { nodes: states, links },
-    allTransitions: transitions,
-  };
-}
-
-function priceBandsFromQuantiles(
-  itemMeta: ItemMeta,
-  transitions: Array<{ from: TransitionEvent; to: TransitionEvent }>
-) {
-  const prices = Object.values(itemMeta)
-    .map((meta) => meta.price || 0)
-    .filter(Number.isFinite);
-  if (!prices.length) {
-    return {
-      bands: [
-        {
-          name: "All" as PriceTier | "All",
-          min: 0,
-          max: 0,
-          viewToCart: 0,
-          wishToCart: 0,
-          nView: 0,
-          nWish: 0,
-        },
-      ],
-    };
-  }
-
-  const { tLow, tHigh, dispMin, dispMax } = robustPriceSplits(prices);
-  if (!(tLow != null && tHigh != null && tLow < tHigh)) {
-    return {
-      bands: [
-        {
-          name: "All" as PriceTier | "All",
-          min: dispMin,
-          max: dispMax,
-          viewToCart: 0,
-          wishToCart: 0,
-          nView: 0,
-          nWish: 0,
-        },
-      ],
-    };
-  }
-
-  const bands: Array<{
-    name: PriceTier;
-    min: number;
-    max: number;
-    viewToCart: number;
-    wishToCart: number;
-    nView: number;
-    nWish: number;
-  }> = [
-    {
-      name: "Low",
-      min: dispMin,
-      max: tLow,
-      viewToCart: 0,
-      wishToCart: 0,
-      nView: 0,
-      nWish: 0,
+    add(_session, events) {
+      for (let i = 0; i < events.length - 1; i += 1) {
+        const ia = index[events[i].type];
+        const ib = index[events[i + 1].type];
+        if (ia == null || ib == null) continue;
+        counts[ia][ib] += 1;
+      }
     },
-    {
-      name: "Mid",
-      min: tLow,
-      max: tHigh,
-      viewToCart: 0,
-      wishToCart: 0,
-      nView: 0,
-      nWish: 0,
+    state() {
+      return { counts: counts.map((row) => [...row]) };
     },
-    {
-      name: "High",
-      min: tHigh,
-      max: dispMax,
-      viewToCart: 0,
-      wishToCart: 0,
-      nView: 0,
-      nWish: 0,
+    merge(state) {
+      state.counts.forEach((row, i) =>
+        row.forEach((value, j) => {
+          if (counts[i]?.[j] != null) counts[i][j] += value;
+        })
+      );
     },
-  ];
+    result() {
+      const probs = counts.map((row) => {
+        const sum = row.reduce((acc, value) => acc + value, 0);
+        return sum ? row.map((value) => value / sum) : row.map(() => 0);
+      });
 
-  const bandForPrice = (price: number): PriceTier => {
-    if (price <= tLow) return "Low";
-    if (price <= tHigh) return "Mid";
-    return "High";
-  };
+      const links: Array<{ source: number; target: number; value: number }> =
+        [];
+      for (let i = 0; i < n; i += 1) {
+        for (let j = 0; j < n; j += 1) {
+          const value = counts[i][j];
+          if (value > 0) {
+            links.push({ source: i, target: j, value });
+          }
+        }
+      }
 
-  const totals: Record<PriceTier, { view: number; wish: number }> = {
-    Low: { view: 0, wish: 0 },
-    Mid: { view: 0, wish: 0 },
-    High: { view: 0, wish: 0 },
-    All: { view: 0, wish: 0 },
+      return {
+        states,
+        counts,
+        probs,
+        sankey: { nodes: states, links },
+      };
+    },
   };
+}
 
-  const hits: Record<PriceTier, { viewCart: number; wishCart: number }> = {
-    Low: { viewCart: 0, wishCart: 0 },
-    Mid: { viewCart: 0, wishCart: 0 },
-    High: { viewCart: 0, wishCart: 0 },
-    All: { viewCart: 0, wishCart: 0 },
-  };
+const ABSORBING_START = "start";
+const ABSORBING_EXIT = "exit";
+const ABSORBING_STATES = new Set(["checkout", ABSORBING_EXIT]);
 
-  for (const transition of transitions) {
-    const price = transition.from.price ?? 0;
-    const band = bandForPrice(price);
-    if (transition.from.type === "view") {
-      totals[band].view += 1;
-      if (transition.to.type === "cart_add") {
-        hits[band].viewCart += 1;
-      }
+// Gaussian elimination with partial pivoting; solves a·x = b for every
+// column of b. Rows of `a` are modified in place.
+function solveLinearSystem(a: number[][], b: number[][]): number[][] {
+  const n = a.length;
+  const x = b.map((row) => [...row]);
+  for (let col = 0; col < n; col += 1) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row += 1) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
     }
-    if (transition.from.type === "wishlist_add") {
-      totals[band].wish += 1;
-      if (transition.to.type === "cart_add") {
-        hits[band].wishCart += 1;
-      }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [x[col], x[pivot]] = [x[pivot], x[col]];
+    const lead = a[col][col] || Number.EPSILON;
+    for (let row = 0; row < n; row += 1) {
+      if (row === col || !a[row][col]) continue;
+      const factor = a[row][col] / lead;
+      for (let k = col; k < n; k += 1) a[row][k] -= factor * a[col][k];
+      x[row] = x[row].map((value, k) => value - factor * x[col][k]);
     }
   }
-
-  const alpha = 1;
-  for (const band of bands) {
-    const totalsForBand = totals[band.name];
-    const hitsForBand = hits[band.name];
-    band.nView = totalsForBand.view;
-    band.nWish = totalsForBand.wish;
-    band.viewToCart = totalsForBand.view
-      ? (hitsForBand.viewCart + alpha) / (totalsForBand.view + 2 * alpha)
-      : 0;
-    band.wishToCart = totalsForBand.wish
-      ? (hitsForBand.wishCart + alpha) / (totalsForBand.wish + 2 * alpha)
-      : 0;
-  }
-
-  return { bands };
+  return x.map((row, i) => row.map((value) => value / (a[i][i] || 1)));
 }
 
-function buildPriceRangeData(
-  sessions: Session[],
-  itemMeta: ItemMeta,
-  transitions: Array<{ from: TransitionEvent; to: TransitionEvent }>
+// Transient states are the keys of `counts`; any target that is not a key
+// must be absorbing. Returns absorption probabilities and expected steps.
+function absorbingChain(
+  counts: Map<string, Map<string, number>>,
+  absorbing: string[]
 ) {
-  const priceRangeData = {
-    viewFromPrices: [] as number[],
-    viewToCartFromPrices: [] as number[],
-    cartAddPrices: [] as number[],
-    cartRemovePrices: [] as number[],
-  };
-
-  for (const transition of transitions) {
-    if (transition.from.type === "view") {
-      const price = Number(transition.from.price) || 0;
-      priceRangeData.viewFromPrices.push(price);
-      if (transition.to.type === "cart_add") {
-        priceRangeData.viewToCartFromPrices.push(price);
+  const transient = [...counts.keys()];
+  const index = new Map(transient.map((state, i) => [state, i]));
+  const n = transient.length;
+  const totals = transient.map((state) =>
+    [...(counts.get(state)?.values() ?? [])].reduce((acc, v) => acc + v, 0)
+  );
+  // (I - Q)·[B | t] = [R | 1]
+  const a = transient.map((_, i) =>
+    Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))
+  );
+  const b = transient.map(() => [...absorbing.map(() => 0), 1]);
+  transient.forEach((state, i) => {
+    for (const [target, count] of counts.get(state) ?? []) {
+      const p = totals[i] ? count / totals[i] : 0;
+      const j = index.get(target);
+      if (j != null) {
+        a[i][j] -= p;
+      } else {
+        const k = absorbing.indexOf(target);
+        if (k !== -1) b[i][k] += p;
       }
     }
-  }
+  });
+  const solved = n ? solveLinearSystem(a, b) : [];
+  return transient.map((state, i) => ({
+    state,
+    transitions: totals[i],
+    absorption: absorbing.map((_, k) => solved[i][k]),
+    expectedSteps: solved[i][absorbing.length],
+  }));
+}
 
-  for (const session of sessions) {
-    for (const cart of session.carts) {
-      const price = Number(itemMeta[cart.itemId]?.price) || 0;
-      if (cart.add) priceRangeData.cartAddPrices.push(price);
-      if (cart.remove) priceRangeData.cartRemovePrices.push(price);
-    }
-  }
+type AbsorbingState = { triples: CountEntries };
 
-  return priceRangeData;
-}
+function absorbingConversion(
+  order: 1 | 2
+): SessionAccumulator<AnalyticsResponse["absorbing"], AbsorbingState> {
+  // "previous|state|next" -> count; first-order counts sum over previous
+  const triples = new Map<string, number>();
 
-function geoBehavioralInsights(sessions: Session[]) {
-  const byCountry = new Map<string, { n: number; converted: number }>();
-  for (const session of sessions) {
-    const key = session.country || "Unknown";
-    const entry = byCountry.get(key) ?? { n: 0, converted: 0 };
-    entry.n += 1;
-    if (session.nCartAdd > 0) entry.converted += 1;
-    byCountry.set(key, entry);
-  }
-  return [...byCountry.entries()]
-    .map(([country, stats]) => ({
-      country,
-      conversionRate: stats.n ? stats.converted / stats.n : 0,
-    }))
-    .sort((a, b) => b.conversionRate - a.conversionRate)
-    .slice(0, 20);
+  const rows = (
+    counts: Map<string, Map<string, number>>,
+    previousOf: (key: string) => string | null,
+    stateOf: (key: string) => string
+  ): AbsorbingRow[] =>
+    absorbingChain(counts, ["checkout", ABSORBING_EXIT])
+      .map((row) => ({
+        previous: previousOf(row.state),
+        state: stateOf(row.state),
+        transitions: row.transitions,
+        pCheckout: row.absorption[0],
+        pExit: row.absorption[1],
+        expectedSteps: row.expectedSteps,
+      }))
+      .sort((x, y) => y.transitions - x.transitions);
+
+  return {
+    add(_session, events) {
+      const path = [ABSORBING_START];
+      for (const event of events) {
+        path.push(event.type);
+        if (event.type === "checkout") break;
+      }
+      if (path[path.length - 1] !== "checkout") path.push(ABSORBING_EXIT);
+      for (let i = 0; i < path.length - 1; i += 1) {
+        const key = `${path[i - 1] ?? ""}|${path[i]}|${path[i + 1]}`;
+        triples.set(key, (triples.get(key) ?? 0) + 1);
+      }
+    },
+    state() {
+      return { triples: [...triples.entries()] };
+    },
+    merge(state) {
+      mergeCounts(triples, state.triples);
+    },
+    result() {
+      const firstOrder = new Map<string, Map<string, number>>();
+      const secondOrder = new Map<string, Map<string, number>>();
+      const bump = (
+        target: Map<string, Map<string, number>>,
+        from: string,
+        to: string,
+        count: number
+      ) => {
+        const row = target.get(from) ?? new Map<string, number>();
+        row.set(to, (row.get(to) ?? 0) + count);
+        target.set(from, row);
+      };
+      for (const [key, count] of triples) {
+        const [previous, state, next] = key.split("|");
+        bump(firstOrder, state, next, count);
+        // Pair states carry the current state forward: (p, s) -> (s, n)
+        bump(
+          secondOrder,
+          `${previous}|${state}`,
+          ABSORBING_STATES.has(next) ? next : `${state}|${next}`,
+          count
+        );
+      }
+
+      return {
+        order,
+        firstOrder: rows(
+          firstOrder,
+          () => null,
+          (key) => key
+        ),
+        secondOrder:
+          order === 2
+            ? rows(
+                secondOrder,
+                (key) => key.split("|")[0] || null,
+                (key) => key.split("|")[1]
+              )
+            : null,
+      };
+    },
+  };
 }
 
-function categoryInteractions(sessions: Session[], itemMeta: ItemMeta) {
+// Categories beyond this many (by touchpoints) are pooled as "Other"
+const MAX_ATTRIBUTION_CATEGORIES = 12;
+// Category names are free text, so keys are joined with control characters
+const SEP = "\u001f";
+const EDGE_SEP = "\u001e";
+
+type AttributionState = { transitions: CountEntries };
+
+function removalAttribution(
+  itemMeta: ItemMeta
+): SessionAccumulator<AnalyticsResponse["attribution"], AttributionState> {
+  // from -> to over start, exit, checkout and type+category states
+  const transitions = new Map<string, number>();
+
+  // Checkout probability from start when `removed` states lead nowhere
+  const conversion = (
+    counts: Map<string, Map<string, number>>,
+    removed: (state: string) => boolean
+  ) => {
+    const transient = [...counts.keys()];
+    const index = new Map(transient.map((state, i) => [state, i]));
+    const a = transient.map((_, i) =>
+      transient.map((_, j) => (i === j ? 1 : 0))
+    );
+    const b = transient.map(() => [0]);
+    transient.forEach((state, i) => {
+      if (removed(state)) return;
+      const row = counts.get(state) ?? new Map<string, number>();
+      const total = [...row.values()].reduce((acc, value) => acc + value, 0);
+      for (const [target, count] of row) {
+        const j = index.get(target);
+        if (j != null) a[i][j] -= count / total;
+        else if (target === "checkout") b[i][0] += count / total;
+      }
+    });
+    const start = index.get(ABSORBING_START);
+    if (start == null) return 0;
+    return solveLinearSystem(a, b)[start][0];
+  };
+
+  return {
+    add(_session, events) {
+      const path = [ABSORBING_START];
+      for (const event of events) {
+        if (event.type === "checkout") break;
+        const category = itemMeta[event.itemId]?.category ?? "Other";
+        path.push(`${event.type}${SEP}${category}`);
+      }
+      path.push(
+        events.some((event) => event.type === "checkout")
+          ? "checkout"
+          : ABSORBING_EXIT
+      );
+      for (let i = 0; i < path.length - 1; i += 1) {
+        const key = `${path[i]}${EDGE_SEP}${path[i + 1]}`;
+        transitions.set(key, (transitions.get(key) ?? 0) + 1);
+      }
+    },
+    state() {
+      return { transitions: [...transitions.entries()] };
+    },
+    merge(state) {
+      mergeCounts(transitions, state.transitions);
+    },
+    result() {
+      const touchpoints = new Map<string, number>();
+      for (const [key, count] of transitions) {
+        const [from] = key.split(EDGE_SEP);
+        if (!from.includes(SEP)) continue;
+        const category = from.split(SEP)[1];
+        touchpoints.set(category, (touchpoints.get(category) ?? 0) + count);
+      }
+      const kept = new Set(
+        [...touchpoints.entries()]
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, MAX_ATTRIBUTION_CATEGORIES)
+          .map(([category]) => category)
+      );
+      const pooled = (state: string) => {
+        if (!state.includes(SEP)) return state;
+        const [type, category] = state.split(SEP);
+        return kept.has(category) ? state : `${type}${SEP}Other`;
+      };
+
+      const counts = new Map<string, Map<string, number>>();
+      for (const [key, count] of transitions) {
+        const [from, to] = key.split(EDGE_SEP).map(pooled);
+        const row = counts.get(from) ?? new Map<string, number>();
+        row.set(to, (row.get(to) ?? 0) + count);
+        counts.set(from, row);
+      }
+
+      const baseline = conversion(counts, () => false);
+      const table = (
+        candidates: Array<{ state: string | null; category: string | null }>
+      ) => {
+        const rows = candidates.map(({ state, category }) => {
+          const removalEffect = Math.max(
+            0,
+            baseline -
+              conversion(counts, (key) => {
+                if (!key.includes(SEP)) return false;
+                const [type, keyCategory] = key.split(SEP);
+                return (
+                  (state == null || type === state) &&
+                  (category == null || keyCategory === category)
+                );
+              })
+          );
+          return {
+            state,
+            category,
+            removalEffect,
+            relativeEffect: baseline > 0 ? removalEffect / baseline : 0,
+            share: 0,
+          };
+        });
+        const total = rows.reduce((acc, row) => acc + row.removalEffect, 0);
+        for (const row of rows) {
+          row.share = total > 0 ? row.removalEffect / total : 0;
+        }
+        return rows.sort((a, b) => b.removalEffect - a.removalEffect);
+      };
+
+      const states = [...counts.keys()].filter((key) => key.includes(SEP));
+      const types = [...new Set(states.map((key) => key.split(SEP)[0]))];
+      const categories = [...new Set(states.map((key) => key.split(SEP)[1]))];
+
+      return {
+        baseline,
+        byState: table(types.map((state) => ({ state, category: null }))),
+        byCategory: table(
+          categories.map((category) => ({ state: null, category }))
+        ),
+        byStateCategory: table(
+          states.map((key) => {
+            const [state, category] = key.split(SEP);
+            return { state, category };
+          })
+        ),
+      };
+    },
+  };
+}
+
+type BandCounts = {
+  view: number;
+  wish: number;
+  viewCart: number;
+  wishCart: number;
+};
+
+// Counted per item and banded when reading, with the current cut points
+type PriceBandState = { items: Array<[string, BandCounts]> };
+
+function priceBandsFromQuantiles(
+  itemMeta: ItemMeta
+): SessionAccumulator<AnalyticsResponse["priceBands"], PriceBandState> {
+  const prices = Object.values(itemMeta)
+    .map((meta) => meta.price || 0)
+    .filter(Number.isFinite);
+  const { tLow, tHigh, dispMin, dispMax } = robustPriceSplits(prices);
+  const hasBands =
+    prices.length > 0 && tLow != null && tHigh != null && tLow < tHigh;
+
+  const bandForPrice = (price: number): PriceTier => {
+    if (price <= (tLow ?? 0)) return "Low";
+    if (price <= (tHigh ?? 0)) return "Mid";
+    return "High";
+  };
+
+  const items = new Map<string, BandCounts>();
+  const emptyCounts = (): BandCounts => ({
+    view: 0,
+    wish: 0,
+    viewCart: 0,
+    wishCart: 0,
+  });
+  const countsFor = (itemId: string) => {
+    const entry = items.get(itemId) ?? emptyCounts();
+    items.set(itemId, entry);
+    return entry;
+  };
+
+  return {
+    add(_session, events) {
+      for (let i = 0; i < events.length - 1; i += 1) {
+        const from = events[i];
+        const to = events[i + 1];
+        if (from.type === "view") {
+          const counts = countsFor(from.itemId);
+          counts.view += 1;
+          if (to.type === "cart_add") counts.viewCart += 1;
+        }
+        if (from.type === "wishlist_add") {
+          const counts = countsFor(from.itemId);
+          counts.wish += 1;
+          if (to.type === "cart_add") counts.wishCart += 1;
+        }
+      }
+    },
+    state() {
+      return {
+        items: [...items.entries()].map(
+          ([itemId, counts]) => [itemId, { ...counts }] as [string, BandCounts]
+        ),
+      };
+    },
+    merge(state) {
+      for (const [itemId, source] of state.items) {
+        const counts = countsFor(itemId);
+        for (const field of Object.keys(counts) as Array<keyof BandCounts>) {
+          counts[field] += source[field];
+        }
+      }
+    },
+    result() {
+      if (!hasBands) {
+        return {
+          bands: [
+            {
+              name: "All" as PriceTier | "All",
+              min: prices.length ? dispMin : 0,
+              max: prices.length ? dispMax : 0,
+              viewToCart: 0,
+              wishToCart: 0,
+              nView: 0,
+              nWish: 0,
+            },
+          ],
+        };
+      }
+
+      const bands: Array<{
+        name: PriceTier;
+        min: number;
+        max: number;
+        viewToCart: number;
+        wishToCart: number;
+        nView: number;
+        nWish: number;
+      }> = [
+        {
+          name: "Low",
+          min: dispMin,
+          max: tLow as number,
+          viewToCart: 0,
+          wishToCart: 0,
+          nView: 0,
+          nWish: 0,
+        },
+        {
+          name: "Mid",
+          min: tLow as number,
+          max: tHigh as number,
+          viewToCart: 0,
+          wishToCart: 0,
+          nView: 0,
+          nWish: 0,
+        },
+        {
+          name: "High",
+          min: tHigh as number,
+          max: dispMax,
+          viewToCart: 0,
+          wishToCart: 0,
+          nView: 0,
+          nWish: 0,
+        },
+      ];
+
+      const totals = new Map<PriceTier, BandCounts>();
+      for (const [itemId, counts] of items) {
+        const band = bandForPrice(itemMeta[itemId]?.price ?? 0);
+        const target = totals.get(band) ?? emptyCounts();
+        for (const field of Object.keys(target) as Array<keyof BandCounts>) {
+          target[field] += counts[field];
+        }
+        totals.set(band, target);
+      }
+
+      const alpha = 1;
+      for (const band of bands) {
+        const counts = totals.get(band.name);
+        if (!counts) continue;
+        band.nView = counts.view;
+        band.nWish = counts.wish;
+        band.viewToCart = counts.view
+          ? (counts.viewCart + alpha) / (counts.view + 2 * alpha)
+          : 0;
+        band.wishToCart = counts.wish
+          ? (counts.wishCart + alpha) / (counts.wish + 2 * alpha)
+          : 0;
+      }
+
+      return { bands };
+    },
+  };
+}
+
+type PriceRangeState = {
+  viewFrom: CountEntries<number>;
+  viewToCartFrom: CountEntries<number>;
+  cartAdd: CountEntries<number>;
+  cartRemove: CountEntries<number>;
+  checkout: CountEntries<number>;
+};
+
+function buildPriceRangeData(
+  itemMeta: ItemMeta
+): SessionAccumulator<AnalyticsResponse["priceRangeData"], PriceRangeState> {
+  // Histograms keyed by price: bounded by the number of distinct prices
+  const viewFrom = new Map<number, number>();
+  const viewToCartFrom = new Map<number, number>();
+  const cartAdd = new Map<number, number>();
+  const cartRemove = new Map<number, number>();
+  const checkout = new Map<number, number>();
+  const bump = (map: Map<number, number>, price: number) =>
+    map.set(price, (map.get(price) ?? 0) + 1);
+  const toCounts = (map: Map<number, number>): PriceCounts =>
+    [...map.entries()]
+      .sort((a, b) => a[0] - b[0])
+      .map(([price, count]) => ({ price, count }));
+
+  return {
+    add(session, events) {
+      for (let i = 0; i < events.length - 1; i += 1) {
+        const from = events[i];
+        if (from.type === "view") {
+          const price = Number(from.price) || 0;
+          bump(viewFrom, price);
+          if (events[i + 1].type === "cart_add") {
+            bump(viewToCartFrom, price);
+          }
+        }
+      }
+
+      for (const cart of session.carts) {
+        const price = Number(itemMeta[cart.itemId]?.price) || 0;
+        if (cart.add) bump(cartAdd, price);
+        if (cart.remove) bump(cartRemove, price);
+      }
+
+      for (const item of session.checkout) {
+        if (item.add) {
+          bump(checkout, Number(itemMeta[item.itemId]?.price) || 0);
+        }
+      }
+    },
+    state() {
+      return {
+        viewFrom: [...viewFrom.entries()],
+        viewToCartFrom: [...viewToCartFrom.entries()],
+        cartAdd: [...cartAdd.entries()],
+        cartRemove: [...cartRemove.entries()],
+        checkout: [...checkout.entries()],
+      };
+    },
+    merge(state) {
+      mergeCounts(viewFrom, state.viewFrom);
+      mergeCounts(viewToCartFrom, state.viewToCartFrom);
+      mergeCounts(cartAdd, state.cartAdd);
+      mergeCounts(cartRemove, state.cartRemove);
+      mergeCounts(checkout, state.checkout);
+    },
+    result() {
+      return {
+        viewFromPrices: toCounts(viewFrom),
+        viewToCartFromPrices: toCounts(viewToCartFrom),
+        cartAddPrices: toCounts(cartAdd),
+        cartRemovePrices: toCounts(cartRemove),
+        checkoutPrices: toCounts(checkout),
+      };
+    },
+  };
+}
+
+type GeoCounts = {
+  sessions: number;
+  viewSessions: number;
+  cartSessions: number;
+  checkoutSessions: number;
+  cartAdds: number;
+  cartRemoves: number;
+};
+
+type GeoState = { countries: Array<[string, GeoCounts]> };
+
+const MAX_GEO_COUNTRIES = 100;
+const GEO_CONFIDENCE = 0.95;
+const GEO_Z = 1.959964;
+
+// Abramowitz & Stegun 7.1.26, absolute error below 1.5e-7
+function normalCdf(x: number) {
+  const t = 1 / (1 + (0.3275911 * Math.abs(x)) / Math.SQRT2);
+  const poly =
+    t *
+    (0.254829592 +
+      t *
+        (-0.284496736 +
+          t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp((-x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function wilsonInterval(successes: number, n: number, z: number) {
+  if (!n) return { low: 0, high: 0 };
+  const p = successes / n;
+  const z2 = z * z;
+  const center = (p + z2 / (2 * n)) / (1 + z2 / n);
+  const half =
+    (z * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n))) / (1 + z2 / n);
+  return {
+    low: clampValue(center - half, 0, 1),
+    high: clampValue(center + half, 0, 1),
+  };
+}
+
+// Pooled two-proportion z-test, two-sided
+function twoProportionPValue(x1: number, n1: number, x2: number, n2: number) {
+  if (!n1 || !n2) return null;
+  const pooled = (x1 + x2) / (n1 + n2);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+  if (!se) return 1;
+  const z = Math.abs(x1 / n1 - x2 / n2) / se;
+  return 2 * (1 - normalCdf(z));
+}
+
+// Benjamini–Hochberg adjusted p-values (nulls are not tests). Flagging those
+// below α keeps the expected share of false flags among all flags at α
+function benjaminiHochberg(pValues: Array<number | null>) {
+  const ranked = pValues
+    .flatMap((p, index) => (p == null ? [] : [{ p, index }]))
+    .sort((a, b) => a.p - b.p);
+  const adjusted: Array<number | null> = pValues.map(() => null);
+  let smallest = 1;
+  for (let rank = ranked.length; rank >= 1; rank -= 1) {
+    const { p, index } = ranked[rank - 1];
+    smallest = Math.min(smallest, (p * ranked.length) / rank);
+    adjusted[index] = smallest;
+  }
+  return adjusted;
+}
+
+function geoBehavioralInsights(): SessionAccumulator<
+  AnalyticsResponse["geoInsights"],
+  GeoState
+> {
+  const byCountry = new Map<string, GeoCounts>();
+  const emptyCounts = (): GeoCounts => ({
+    sessions: 0,
+    viewSessions: 0,
+    cartSessions: 0,
+    checkoutSessions: 0,
+    cartAdds: 0,
+    cartRemoves: 0,
+  });
+  const mergeInto = (key: string, counts: GeoCounts) => {
+    const entry = byCountry.get(key) ?? emptyCounts();
+    for (const field of Object.keys(entry) as Array<keyof GeoCounts>) {
+      entry[field] += counts[field];
+    }
+    byCountry.set(key, entry);
+  };
+
+  return {
+    add(session) {
+      mergeInto(session.country || "Unknown", {
+        sessions: 1,
+        viewSessions: session.nView > 0 ? 1 : 0,
+        cartSessions: session.nCartAdd > 0 ? 1 : 0,
+        checkoutSessions: session.nCheckout > 0 ? 1 : 0,
+        cartAdds: session.nCartAdd,
+        cartRemoves: session.nCartRemove,
+      });
+    },
+    state() {
+      return {
+        countries: [...byCountry.entries()].map(
+          ([country, counts]) => [country, { ...counts }] as [string, GeoCounts]
+        ),
+      };
+    },
+    merge(state) {
+      for (const [country, counts] of state.countries) {
+        mergeInto(country, counts);
+      }
+    },
+    result() {
+      const total = emptyCounts();
+      for (const counts of byCountry.values()) {
+        for (const field of Object.keys(total) as Array<keyof GeoCounts>) {
+          total[field] += counts[field];
+        }
+      }
+      // Against the rest: the country's own sessions left out of the total
+      const restPValue = (counts: GeoCounts, field: keyof GeoCounts) =>
+        twoProportionPValue(
+          counts[field],
+          counts.sessions,
+          total[field] - counts[field],
+          total.sessions - counts.sessions
+        );
+      const estimate = (
+        successes: number,
+        n: number,
+        overall: { successes: number; n: number } | null,
+        adjustedPValue: number | null
+      ): RateEstimate => {
+        const rate = n ? successes / n : 0;
+        const pValue = overall
+          ? twoProportionPValue(
+              successes,
+              n,
+              overall.successes - successes,
+              overall.n - n
+            )
+          : null;
+        const rest =
+          overall && overall.n > n
+            ? (overall.successes - successes) / (overall.n - n)
+            : rate;
+        return {
+          rate,
+          ...wilsonInterval(successes, n, GEO_Z),
+          pValue,
+          adjustedPValue,
+          significant:
+            adjustedPValue != null && adjustedPValue < 1 - GEO_CONFIDENCE
+              ? rate > rest
+                ? "above"
+                : "below"
+              : null,
+        };
+      };
+      const row = (
+        country: string,
+        counts: GeoCounts,
+        compare: boolean,
+        adjusted: { cartRate: number | null; conversion: number | null } = {
+          cartRate: null,
+          conversion: null,
+        }
+      ): GeoFunnelRow => ({
+        country,
+        ...counts,
+        leak:
+          counts.cartAdds > 0
+            ? clampValue(counts.cartRemoves / counts.cartAdds, 0, 1)
+            : 0,
+        cartRate: estimate(
+          counts.cartSessions,
+          counts.sessions,
+          compare ? { successes: total.cartSessions, n: total.sessions } : null,
+          adjusted.cartRate
+        ),
+        conversion: estimate(
+          counts.checkoutSessions,
+          counts.sessions,
+          compare
+            ? { successes: total.checkoutSessions, n: total.sessions }
+            : null,
+          adjusted.conversion
+        ),
+      });
+
+      const listed = [...byCountry.entries()]
+        .sort((a, b) => b[1].sessions - a[1].sessions)
+        .slice(0, MAX_GEO_COUNTRIES);
+      const cartRates = benjaminiHochberg(
+        listed.map(([, counts]) => restPValue(counts, "cartSessions"))
+      );
+      const conversions = benjaminiHochberg(
+        listed.map(([, counts]) => restPValue(counts, "checkoutSessions"))
+      );
+
+      return {
+        confidence: GEO_CONFIDENCE,
+        overall: row("All countries", total, false),
+        countries: listed.map(([country, counts], index) =>
+          row(country, counts, true, {
+            cartRate: cartRates[index],
+            conversion: conversions[index],
+          })
+        ),
+      };
+    },
+  };
+}
+
+type SessionizationState = {
+  sessions: number;
+  documents: number;
+  mergedSessions: number;
+  splitDocuments: number;
+  durationMs: number;
+};
+
+function sessionizationReport(
+  options: ResolvedAnalyticsOptions
+): SessionAccumulator<
+  AnalyticsResponse["sessionization"],
+  SessionizationState
+> {
+  const totals: SessionizationState = {
+    sessions: 0,
+    documents: 0,
+    mergedSessions: 0,
+    splitDocuments: 0,
+    durationMs: 0,
+  };
+
+  return {
+    add(session) {
+      totals.sessions += 1;
+      totals.documents += session.documents;
+      if (session.sourceDocuments > 1) totals.mergedSessions += 1;
+      totals.splitDocuments += session.splitDocuments;
+      totals.durationMs += session.end.getTime() - session.ts.getTime();
+    },
+    state() {
+      return { ...totals };
+    },
+    merge(state) {
+      for (const key of Object.keys(totals) as Array<keyof typeof totals>) {
+        totals[key] += state[key];
+      }
+    },
+    result() {
+      return {
+        mode: options.sessionMode,
+        gapMinutes:
+          options.sessionMode === "inactivity"
+            ? options.sessionGapMinutes
+            : null,
+        sessions: totals.sessions,
+        documents: totals.documents,
+        mergedSessions: totals.mergedSessions,
+        splitDocuments: totals.splitDocuments,
+        averageDurationSeconds:
+          totals.sessions > 0 ? totals.durationMs / totals.sessions / 1000 : 0,
+      };
+    },
+  };
+}
+
+type RevenueTotals = { revenue: number; checkouts: number };
+
+type RevenueState = {
+  gross: number;
+  checkouts: number;
+  orders: number;
+  lost: number;
+  removals: number;
+  byCategory: Array<[string, RevenueTotals]>;
+  byBrand: Array<[string, RevenueTotals]>;
+  byCountry: Array<[string, RevenueTotals]>;
+  byDay: Array<[string, RevenueTotals]>;
+};
+
+// Money is derived from the listing price at load time; tracking documents
+// carry no prices or quantities of their own.
+function revenueAnalytics(
+  itemMeta: ItemMeta,
+  timeZone: string
+): SessionAccumulator<
+  Omit<AnalyticsResponse["revenue"], "revenuePerVisitor">,
+  RevenueState
+> {
+  let gross = 0;
+  let checkouts = 0;
+  let orders = 0;
+  let lost = 0;
+  let removals = 0;
+  const byCategory = new Map<string, RevenueTotals>();
+  const byBrand = new Map<string, RevenueTotals>();
+  const byCountry = new Map<string, RevenueTotals>();
+  const byDay = new Map<string, RevenueTotals>();
+  const addTo = (
+    target: Map<string, RevenueTotals>,
+    key: string,
+    totals: RevenueTotals
+  ) => {
+    const entry = target.get(key) ?? { revenue: 0, checkouts: 0 };
+    entry.revenue += totals.revenue;
+    entry.checkouts += totals.checkouts;
+    target.set(key, entry);
+  };
+  const entries = (target: Map<string, RevenueTotals>) =>
+    [...target.entries()].map(
+      ([key, totals]) => [key, { ...totals }] as [string, RevenueTotals]
+    );
+  const rows = (target: Map<string, RevenueTotals>): RevenueRow[] =>
+    [...target.entries()]
+      .map(([key, totals]) => ({ key, ...totals }))
+      .sort((a, b) => b.revenue - a.revenue);
+
+  return {
+    add(session) {
+      let sessionCheckouts = 0;
+      for (const item of session.checkout) {
+        if (!item.add) continue;
+        const meta = itemMeta[item.itemId];
+        const totals = {
+          revenue: (Number(meta?.price) || 0) * item.add,
+          checkouts: item.add,
+        };
+        gross += totals.revenue;
+        checkouts += totals.checkouts;
+        sessionCheckouts += totals.checkouts;
+        addTo(byCategory, meta?.category || "Other", totals);
+        addTo(byBrand, meta?.brand || "Unknown", totals);
+        addTo(byCountry, session.country || "Unknown", totals);
+        if (!session.undated) addTo(byDay, dayKey(item.ts, timeZone), totals);
+      }
+      if (sessionCheckouts > 0) orders += 1;
+
+      for (const cart of session.carts) {
+        if (!cart.remove) continue;
+        removals += cart.remove;
+        lost += (Number(itemMeta[cart.itemId]?.price) || 0) * cart.remove;
+      }
+    },
+    state() {
+      return {
+        gross,
+        checkouts,
+        orders,
+        lost,
+        removals,
+        byCategory: entries(byCategory),
+        byBrand: entries(byBrand),
+        byCountry: entries(byCountry),
+        byDay: entries(byDay),
+      };
+    },
+    merge(state) {
+      gross += state.gross;
+      checkouts += state.checkouts;
+      orders += state.orders;
+      lost += state.lost;
+      removals += state.removals;
+      for (const [key, totals] of state.byCategory) {
+        addTo(byCategory, key, totals);
+      }
+      for (const [key, totals] of state.byBrand) addTo(byBrand, key, totals);
+      for (const [key, totals] of state.byCountry) {
+        addTo(byCountry, key, totals);
+      }
+      for (const [key, totals] of state.byDay) addTo(byDay, key, totals);
+    },
+    result() {
+      return {
+        gross,
+        checkouts,
+        orders,
+        averageOrderValue: orders > 0 ? gross / orders : 0,
+        lostToCartRemovals: lost,
+        cartRemovals: removals,
+        byCategory: rows(byCategory),
+        byBrand: rows(byBrand),
+        byCountry: rows(byCountry),
+        byDay: [...byDay.entries()]
+          .sort((a, b) => a[0].localeCompare(b[0]))
+          .map(([date, totals]) => ({ date, ...totals })),
+      };
+    },
+  };
+}
+
+function revenueWithVisitors(
+  revenue: Omit<AnalyticsResponse["revenue"], "revenuePerVisitor">,
+  visitors: number
+): AnalyticsResponse["revenue"] {
+  return {
+    ...revenue,
+    revenuePerVisitor: visitors > 0 ? revenue.gross / visitors : 0,
+  };
+}
+
+type FunnelCounts = Omit<
+  FunnelMetrics,
+  "viewToCart" | "cartToCheckout" | "viewToCheckout" | "conversion"
+>;
+
+type FunnelState = {
+  segments: Array<[string, FunnelCounts]>;
+  /** Tier segments are derived from these when reading (sessionItemKey). */
+  sessionItems: CountEntries;
+};
+
+// Segment keys are "<kind>:<name>"; names may contain ":" themselves
+function checkoutFunnel(
+  itemMeta: ItemMeta
+): SessionAccumulator<AnalyticsResponse["funnel"], FunnelState> {
+  const { tierForItem } = priceTiers(itemMeta);
+  const segments = new Map<string, FunnelCounts>();
+  const sessionItems = new Map<string, number>();
+  const emptyCounts = (): FunnelCounts => ({
+    sessions: 0,
+    viewSessions: 0,
+    cartSessions: 0,
+    checkoutSessions: 0,
+    viewToCartSessions: 0,
+    cartToCheckoutSessions: 0,
+    viewToCheckoutSessions: 0,
+    checkouts: 0,
+  });
+  const metrics = (counts: FunnelCounts): FunnelMetrics => {
+    const ratio = (a: number, b: number) => (b > 0 ? a / b : 0);
+    return {
+      ...counts,
+      viewToCart: ratio(counts.viewToCartSessions, counts.viewSessions),
+      cartToCheckout: ratio(counts.cartToCheckoutSessions, counts.cartSessions),
+      viewToCheckout: ratio(counts.viewToCheckoutSessions, counts.viewSessions),
+      conversion: ratio(counts.checkoutSessions, counts.sessions),
+    };
+  };
+  // Adds `sessions` sessions that touched a segment as `entry` describes
+  const count = (counts: FunnelCounts, entry: TierTouch, sessions = 1) => {
+    counts.sessions += sessions;
+    if (entry.viewed) counts.viewSessions += sessions;
+    if (entry.carted) counts.cartSessions += sessions;
+    if (entry.checkedOut) counts.checkoutSessions += sessions;
+    if (entry.viewed && entry.carted) counts.viewToCartSessions += sessions;
+    if (entry.carted && entry.checkedOut) {
+      counts.cartToCheckoutSessions += sessions;
+    }
+    if (entry.viewed && entry.checkedOut) {
+      counts.viewToCheckoutSessions += sessions;
+    }
+    counts.checkouts += entry.checkouts * sessions;
+  };
+
+  return {
+    add(session) {
+      const touched = new Map<string, TierTouch>();
+      const touch = (key: string) => {
+        const entry = touched.get(key) ?? {
+          viewed: false,
+          carted: false,
+          checkedOut: false,
+          checkouts: 0,
+        };
+        touched.set(key, entry);
+        return entry;
+      };
+      // Every session counts overall and for its country, even if empty
+      const sessionKeys = ["overall:", `country:${session.country}`];
+      sessionKeys.forEach(touch);
+      const keysFor = (itemId: string) => [
+        ...sessionKeys,
+        `category:${itemMeta[itemId]?.category ?? "Other"}`,
+      ];
+
+      for (const view of session.views) {
+        for (const key of keysFor(view.itemId)) touch(key).viewed = true;
+      }
+      for (const cart of session.carts) {
+        if (!cart.add) continue;
+        for (const key of keysFor(cart.itemId)) touch(key).carted = true;
+      }
+      for (const item of session.checkout) {
+        if (!item.add) continue;
+        for (const key of keysFor(item.itemId)) {
+          const entry = touch(key);
+          entry.checkedOut = true;
+          entry.checkouts += item.add;
+        }
+      }
+
+      for (const [key, entry] of touched) {
+        const counts = segments.get(key) ?? emptyCounts();
+        count(counts, entry);
+        segments.set(key, counts);
+      }
+
+      const key = sessionItemKey(session);
+      if (key) sessionItems.set(key, (sessionItems.get(key) ?? 0) + 1);
+    },
+    state() {
+      return {
+        segments: [...segments.entries()].map(
+          ([key, counts]) => [key, { ...counts }] as [string, FunnelCounts]
+        ),
+        sessionItems: [...sessionItems.entries()],
+      };
+    },
+    merge(state) {
+      for (const [key, source] of state.segments) {
+        const counts = segments.get(key) ?? emptyCounts();
+        for (const field of Object.keys(counts) as Array<keyof FunnelCounts>) {
+          counts[field] += source[field] ?? 0;
+        }
+        segments.set(key, counts);
+      }
+      mergeCounts(sessionItems, state.sessionItems);
+    },
+    result() {
+      const tiers = new Map<PriceTier, FunnelCounts>();
+      for (const [key, sessions] of sessionItems) {
+        for (const [tier, touch] of tierTouches(key, tierForItem)) {
+          const counts = tiers.get(tier) ?? emptyCounts();
+          count(counts, touch, sessions);
+          tiers.set(tier, counts);
+        }
+      }
+      const funnel: AnalyticsResponse["funnel"] = {
+        overall: metrics(segments.get("overall:") ?? emptyCounts()),
+        byTier: {},
+        byCategory: [],
+        byCountry: [],
+      };
+      for (const [tier, counts] of tiers) funnel.byTier[tier] = metrics(counts);
+      for (const [key, counts] of segments) {
+        const split = key.indexOf(":");
+        const kind = key.slice(0, split);
+        const name = key.slice(split + 1);
+        if (kind === "category") {
+          funnel.byCategory.push({ category: name, ...metrics(counts) });
+        }
+        if (kind === "country") {
+          funnel.byCountry.push({ country: name, ...metrics(counts) });
+        }
+      }
+      funnel.byCategory.sort((a, b) => b.sessions - a.sessions);
+      funnel.byCountry.sort((a, b) => b.sessions - a.sessions);
+      return funnel;
+    },
+  };
+}
+
+const LATENCY_STEPS: LatencyStep[] = [
+  "viewToCart",
+  "cartToCheckout",
+  "cartToRemove",
+];
+// 10s .. 7 days; wide enough for same-visit and come-back-later journeys
+const LATENCY_BUCKET_SECONDS = [
+  10, 30, 60, 120, 300, 600, 1800, 3600, 10800, 21600, 43200, 86400, 259200,
+  604800,
+];
+
+type LatencyHistogram = {
+  counts: number[];
+  sumSeconds: number;
+  minSeconds: number | null;
+  maxSeconds: number | null;
+};
+
+// Tier histograms are folded from "item:<id>" segments when reading, so
+// they follow the catalogue's current cut points
+type LatencyState = {
+  segments: Array<[string, Array<[LatencyStep, LatencyHistogram]>]>;
+};
+
+function emptyLatencyHistogram(): LatencyHistogram {
+  return {
+    counts: new Array(LATENCY_BUCKET_SECONDS.length + 1).fill(0),
+    sumSeconds: 0,
+    minSeconds: null,
+    maxSeconds: null,
+  };
+}
+
+function latencyStats(histogram: LatencyHistogram): LatencyStats {
+  const count = histogram.counts.reduce((a, b) => a + b, 0);
+  const { minSeconds, maxSeconds } = histogram;
+  // Linear interpolation inside the bucket holding the requested rank
+  const quantile = (q: number) => {
+    if (!count || minSeconds == null || maxSeconds == null) return null;
+    const rank = q * count;
+    let seen = 0;
+    for (let i = 0; i < histogram.counts.length; i += 1) {
+      const inBucket = histogram.counts[i];
+      if (!inBucket || seen + inBucket < rank) {
+        seen += inBucket;
+        continue;
+      }
+      const lower = Math.max(LATENCY_BUCKET_SECONDS[i - 1] ?? 0, minSeconds);
+      const upper = Math.min(
+        LATENCY_BUCKET_SECONDS[i] ?? maxSeconds,
+        maxSeconds
+      );
+      return lower + ((rank - seen) / inBucket) * Math.max(0, upper - lower);
+    }
+    return maxSeconds;
+  };
+
+  return {
+    count,
+    meanSeconds: count ? histogram.sumSeconds / count : 0,
+    minSeconds,
+    p10Seconds: quantile(0.1),
+    p25Seconds: quantile(0.25),
+    medianSeconds: quantile(0.5),
+    p75Seconds: quantile(0.75),
+    p90Seconds: quantile(0.9),
+    maxSeconds,
+    histogram: [...histogram.counts],
+  };
+}
+
+function stepLatency(
+  itemMeta: ItemMeta
+): SessionAccumulator<AnalyticsResponse["latency"], LatencyState> {
+  const { tierForItem } = priceTiers(itemMeta);
+  const segments = new Map<string, Map<LatencyStep, LatencyHistogram>>();
+
+  const record = (key: string, step: LatencyStep, seconds: number) => {
+    const steps = segments.get(key) ?? new Map();
+    const histogram = steps.get(step) ?? emptyLatencyHistogram();
+    let bucket = LATENCY_BUCKET_SECONDS.findIndex((edge) => seconds <= edge);
+    if (bucket === -1) bucket = LATENCY_BUCKET_SECONDS.length;
+    histogram.counts[bucket] += 1;
+    histogram.sumSeconds += seconds;
+    histogram.minSeconds = Math.min(histogram.minSeconds ?? seconds, seconds);
+    histogram.maxSeconds = Math.max(histogram.maxSeconds ?? seconds, seconds);
+    steps.set(step, histogram);
+    segments.set(key, steps);
+  };
+  const foldSteps = (
+    target: Map<LatencyStep, LatencyHistogram>,
+    steps: Iterable<[LatencyStep, LatencyHistogram]>
+  ) => {
+    for (const [step, source] of steps) {
+      const histogram = target.get(step) ?? emptyLatencyHistogram();
+      source.counts.forEach((count, i) => {
+        histogram.counts[i] += count;
+      });
+      histogram.sumSeconds += source.sumSeconds;
+      for (const bound of ["minSeconds", "maxSeconds"] as const) {
+        const pick = bound === "minSeconds" ? Math.min : Math.max;
+        const value = source[bound];
+        const current = histogram[bound];
+        if (value == null) continue;
+        histogram[bound] = current == null ? value : pick(current, value);
+      }
+      target.set(step, histogram);
+    }
+  };
+  const stepsFor = (key: string, from = segments) =>
+    Object.fromEntries(
+      LATENCY_STEPS.map((step) => [
+        step,
+        latencyStats(from.get(key)?.get(step) ?? emptyLatencyHistogram()),
+      ])
+    ) as LatencySteps;
+
+  return {
+    add(_session, events) {
+      // First occurrence per item; each step is timed once per session
+      const firstView = new Map<string, Date>();
+      const firstAdd = new Map<string, Date>();
+      const timed = new Set<string>();
+      const sample = (
+        step: LatencyStep,
+        itemId: string,
+        from: Date,
+        to: Date
+      ) => {
+        if (timed.has(`${step}:${itemId}`)) return;
+        timed.add(`${step}:${itemId}`);
+        const seconds = (to.getTime() - from.getTime()) / 1000;
+        if (seconds < 0) return;
+        for (const key of [
+          "overall:",
+          `item:${itemId}`,
+          `category:${itemMeta[itemId]?.category ?? "Other"}`,
+        ]) {
+          record(key, step, seconds);
+        }
+      };
+
+      for (const event of events) {
+        const added = firstAdd.get(event.itemId);
+        if (event.type === "view" && !firstView.has(event.itemId)) {
+          firstView.set(event.itemId, event.ts);
+        } else if (event.type === "cart_add" && !added) {
+          firstAdd.set(event.itemId, event.ts);
+          const viewed = firstView.get(event.itemId);
+          if (viewed) sample("viewToCart", event.itemId, viewed, event.ts);
+        } else if (event.type === "checkout" && added) {
+          sample("cartToCheckout", event.itemId, added, event.ts);
+        } else if (event.type === "cart_remove" && added) {
+          sample("cartToRemove", event.itemId, added, event.ts);
+        }
+      }
+    },
+    state() {
+      return {
+        segments: [...segments.entries()].map(
+          ([key, steps]) =>
+            [
+              key,
+              [...steps.entries()].map(
+                ([step, histogram]) =>
+                  [step, { ...histogram, counts: [...histogram.counts] }] as [
+                    LatencyStep,
+                    LatencyHistogram
+                  ]
+              ),
+            ] as [string, Array<[LatencyStep, LatencyHistogram]>]
+        ),
+      };
+    },
+    merge(state) {
+      for (const [key, steps] of state.segments) {
+        const target = segments.get(key) ?? new Map();
+        foldSteps(target, steps);
+        segments.set(key, target);
+      }
+    },
+    result() {
+      const tiers = new Map<string, Map<LatencyStep, LatencyHistogram>>();
+      for (const [key, steps] of segments) {
+        if (!key.startsWith("item:")) continue;
+        const tier = tierForItem(key.slice("item:".length));
+        const target = tiers.get(tier) ?? new Map();
+        foldSteps(target, steps);
+        tiers.set(tier, target);
+      }
+      const latency: AnalyticsResponse["latency"] = {
+        bucketSeconds: LATENCY_BUCKET_SECONDS,
+        overall: stepsFor("overall:"),
+        byTier: {},
+        byCategory: [],
+      };
+      for (const tier of tiers.keys()) {
+        latency.byTier[tier as PriceTier] = stepsFor(tier, tiers);
+      }
+      for (const key of segments.keys()) {
+        const split = key.indexOf(":");
+        const kind = key.slice(0, split);
+        const name = key.slice(split + 1);
+        if (kind === "category") {
+          latency.byCategory.push({ category: name, ...stepsFor(key) });
+        }
+      }
+      const samples = (steps: LatencySteps) =>
+        LATENCY_STEPS.reduce((total, step) => total + steps[step].count, 0);
+      latency.byCategory.sort((a, b) => samples(b) - samples(a));
+      return latency;
+    },
+  };
+}
+
+type CategoryState = { categories: AnalyticsResponse["categoryInteractions"] };
+
+function categoryInteractions(
+  itemMeta: ItemMeta
+): SessionAccumulator<
+  AnalyticsResponse["categoryInteractions"],
+  CategoryState
+> {
   const byCategory = new Map<
     string,
     {
@@ -947,165 +3543,1981 @@ function categoryInteractions(sessions: Session[], itemMeta: ItemMeta) {
     byCategory.set(category, entry);
   };
 
-  for (const session of sessions) {
-    for (const view of session.views) {
-      bump(itemMeta[view.itemId]?.category ?? "Other", "views");
+  return {
+    add(session) {
+      for (const view of session.views) {
+        bump(itemMeta[view.itemId]?.category ?? "Other", "views");
+      }
+      for (const cart of session.carts) {
+        if (cart.add) {
+          bump(itemMeta[cart.itemId]?.category ?? "Other", "carts");
+        }
+      }
+      for (const wish of session.wish) {
+        if (wish.add) {
+          bump(itemMeta[wish.itemId]?.category ?? "Other", "wish");
+        }
+      }
+    },
+    state() {
+      return {
+        categories: [...byCategory.values()].map((entry) => ({ ...entry })),
+      };
+    },
+    merge(state) {
+      for (const row of state.categories) {
+        const entry = byCategory.get(row.category) ?? {
+          category: row.category,
+          views: 0,
+          carts: 0,
+          wish: 0,
+          total: 0,
+        };
+        entry.views += row.views;
+        entry.carts += row.carts;
+        entry.wish += row.wish;
+        entry.total += row.total;
+        byCategory.set(row.category, entry);
+      }
+    },
+    result() {
+      return [...byCategory.values()]
+        .sort((a, b) => b.total - a.total)
+        .slice(0, 20);
+    },
+  };
+}
+
+type DailyCounts = {
+  views: number;
+  carts: number;
+  checkouts: number;
+  /** Sessions starting that day, for the conversion rate. */
+  sessions: number;
+  checkoutSessions: number;
+};
+
+type DailyState = { days: Array<[string, DailyCounts]> };
+
+// Day bucket shared by every per-day series so they line up on the chart
+function dayKey(
+  date: Date | string | number | null | undefined,
+  timeZone: string
+) {
+  if (!date) return zonedDay(new Date(), timeZone);
+  const candidate =
+    date instanceof Date ? date : parseDate(date) ?? new Date(date);
+  const safeDate = candidate && isValid(candidate) ? candidate : new Date();
+  return zonedDay(safeDate, timeZone);
+}
+
+/** Expected value and typical deviation per day; null = no judgement. */
+type DetectorFit = Array<{ expected: number; spread: number } | null>;
+
+type AnomalyDetector = {
+  /** How the expectation is formed, for anomaly explanations. */
+  basis: string;
+  fit(values: number[], dates: string[]): DetectorFit;
+};
+
+// Scales the MAD to σ for normal data
+const MAD_TO_SIGMA = 1.4826;
+
+// MAD-based σ; falls back to the mean absolute deviation when more than
+// half the values are identical, and to 0 when all of them are
+function robustSpread(values: number[], center: number) {
+  const deviations = values.map((value) => Math.abs(value - center));
+  const mad = MAD_TO_SIGMA * (median(deviations) ?? 0);
+  return mad > 0 ? mad : 1.2533 * (mean(deviations) ?? 0);
+}
+
+const MAD_HALF_WINDOW = 7;
+const STL_TREND_HALF_WINDOW = 3;
+const EWMA_LAMBDA = 0.3;
+const EWMA_WARMUP_DAYS = 7;
+
+export const ANOMALY_DETECTORS: Record<AnomalyDetectorName, AnomalyDetector> = {
+  // Median and MAD of the surrounding days, excluding the day itself
+  mad: {
+    basis: `the median of the ${MAD_HALF_WINDOW} days either side`,
+    fit(values) {
+      return values.map((_, index) => {
+        const window = [
+          ...values.slice(Math.max(0, index - MAD_HALF_WINDOW), index),
+          ...values.slice(index + 1, index + 1 + MAD_HALF_WINDOW),
+        ];
+        if (window.length < MAD_HALF_WINDOW) return null;
+        const expected = median(window) ?? 0;
+        return { expected, spread: robustSpread(window, expected) };
+      });
+    },
+  },
+  // Moving-median trend plus a per-weekday seasonal median, refined once;
+  // the threshold applies to the robust spread of all residuals
+  stl: {
+    basis: "the local trend plus the usual weekday effect",
+    fit(values, dates) {
+      if (values.length < 14) return values.map(() => null);
+      const weekdays = dates.map((date) => parseISO(date).getDay());
+      const trendOf = (series: number[]) =>
+        series.map(
+          (_, index) =>
+            median(
+              series.slice(
+                Math.max(0, index - STL_TREND_HALF_WINDOW),
+                index + STL_TREND_HALF_WINDOW + 1
+              )
+            ) ?? 0
+        );
+      let trend = trendOf(values);
+      let seasonal: number[] = [];
+      for (let pass = 0; pass < 2; pass += 1) {
+        const byWeekday = new Map<number, number[]>();
+        values.forEach((value, index) => {
+          const list = byWeekday.get(weekdays[index]) ?? [];
+          list.push(value - trend[index]);
+          byWeekday.set(weekdays[index], list);
+        });
+        seasonal = weekdays.map((day) => median(byWeekday.get(day) ?? []) ?? 0);
+        trend = trendOf(values.map((value, index) => value - seasonal[index]));
+      }
+      const expected = values.map((_, index) => trend[index] + seasonal[index]);
+      const spread = robustSpread(
+        values.map((value, index) => value - expected[index]),
+        0
+      );
+      return expected.map((value) => ({ expected: value, spread }));
+    },
+  },
+  // EWMA of earlier days with an exponentially weighted variance; values
+  // are winsorised at ±3σ before updating so spikes do not drag the mean
+  ewma: {
+    basis: "the exponentially weighted average of earlier days",
+    fit(values) {
+      const fits: DetectorFit = values.map(() => null);
+      if (values.length <= EWMA_WARMUP_DAYS) return fits;
+      const warmup = values.slice(0, EWMA_WARMUP_DAYS);
+      let level = median(warmup) ?? 0;
+      let variance = robustSpread(warmup, level) ** 2;
+      for (let index = EWMA_WARMUP_DAYS; index < values.length; index += 1) {
+        const spread = Math.sqrt(variance);
+        fits[index] = { expected: level, spread };
+        const clipped = clampValue(
+          values[index],
+          level - 3 * spread,
+          level + 3 * spread
+        );
+        const delta = spread > 0 ? clipped - level : values[index] - level;
+        level += EWMA_LAMBDA * delta;
+        variance = (1 - EWMA_LAMBDA) * (variance + EWMA_LAMBDA * delta ** 2);
+      }
+      return fits;
+    },
+  },
+};
+
+const DAILY_METRICS: Record<DailyMetric, string> = {
+  views: "Views",
+  carts: "Cart adds",
+  checkouts: "Checkouts",
+  conversion: "Conversion",
+};
+
+const FORECAST_METRICS: ForecastMetric[] = ["views", "carts", "checkouts"];
+
+function dailyTrends(
+  options: ResolvedAnalyticsOptions
+): SessionAccumulator<AnalyticsResponse["daily"], DailyState> {
+  const {
+    anomalySigma: sigma,
+    anomalyDetectors: detectors,
+    anomalyThreshold: threshold,
+    forecastDays,
+    forecastBacktestWeeks,
+    timeZone,
+  } = options;
+  const byDay = new Map<string, DailyCounts>();
+  const record = (date: Date) => {
+    const key = dayKey(date, timeZone);
+    const entry = byDay.get(key) ?? {
+      views: 0,
+      carts: 0,
+      checkouts: 0,
+      sessions: 0,
+      checkoutSessions: 0,
+    };
+    byDay.set(key, entry);
+    return entry;
+  };
+
+  return {
+    add(session) {
+      if (session.undated) return;
+      for (const view of session.views) {
+        record(view.ts).views += 1;
+      }
+      for (const cart of session.carts) {
+        if (cart.add) record(cart.ts).carts += 1;
+      }
+      for (const item of session.checkout) {
+        if (item.add) record(item.ts).checkouts += item.add;
+      }
+      const start = record(session.ts);
+      start.sessions += 1;
+      if (session.nCheckout > 0) start.checkoutSessions += 1;
+    },
+    state() {
+      return {
+        days: [...byDay.entries()].map(
+          ([day, counts]) => [day, { ...counts }] as [string, DailyCounts]
+        ),
+      };
+    },
+    merge(state) {
+      for (const [day, counts] of state.days) {
+        const entry = byDay.get(day);
+        if (!entry) {
+          byDay.set(day, { ...counts });
+          continue;
+        }
+        for (const field of Object.keys(entry) as Array<keyof DailyCounts>) {
+          entry[field] += counts[field];
+        }
+      }
+    },
+    result() {
+      // Quiet days are zeros, not gaps, so detectors see outages too
+      const keys = [...byDay.keys()].sort();
+      const dates: string[] = [];
+      if (keys.length) {
+        const last = keys[keys.length - 1];
+        for (
+          let day = parseISO(keys[0]);
+          format(day, "yyyy-MM-dd") <= last;
+          day = addDays(day, 1)
+        ) {
+          dates.push(format(day, "yyyy-MM-dd"));
+        }
+      }
+      const series = dates.map((date) => {
+        const counts = byDay.get(date);
+        return {
+          date,
+          views: counts?.views ?? 0,
+          carts: counts?.carts ?? 0,
+          checkouts: counts?.checkouts ?? 0,
+          sessions: counts?.sessions ?? 0,
+          conversion: counts?.sessions
+            ? counts.checkoutSessions / counts.sessions
+            : 0,
+        };
+      });
+
+      const cartCounts = series.map((row) => row.carts);
+      const avg = mean(cartCounts) ?? 0;
+      const std = deviation(cartCounts) ?? 0;
+      const lower = avg > 0 ? Math.max(0, avg - sigma * std) : 0;
+      const upper = avg + sigma * std;
+      const hasThresholds = cartCounts.length >= 3 && std > 0;
+      const outliers = hasThresholds
+        ? series
+            .filter((row) => row.carts < lower || row.carts > upper)
+            .map((row) => row.date)
+        : [];
+
+      const anomalies: DailyAnomaly[] = [];
+      for (const metric of Object.keys(DAILY_METRICS) as DailyMetric[]) {
+        const values = series.map((row) => row[metric]);
+        const show = (value: number) =>
+          metric === "conversion"
+            ? `${(value * 100).toFixed(1)}%`
+            : value.toFixed(value % 1 ? 1 : 0);
+        for (const name of detectors) {
+          const detector = ANOMALY_DETECTORS[name];
+          detector.fit(values, dates).forEach((fit, index) => {
+            if (!fit || !(fit.spread > 0)) return;
+            const actual = values[index];
+            const score = (actual - fit.expected) / fit.spread;
+            if (Math.abs(score) < threshold) return;
+            const direction = score > 0 ? "spike" : "drop";
+            anomalies.push({
+              date: dates[index],
+              metric,
+              detector: name,
+              direction,
+              severity:
+                Math.abs(score) >= 2 * threshold
+                  ? "high"
+                  : Math.abs(score) >= 1.5 * threshold
+                  ? "medium"
+                  : "low",
+              actual,
+              expected: fit.expected,
+              lower: Math.max(0, fit.expected - threshold * fit.spread),
+              upper:
+                metric === "conversion"
+                  ? Math.min(1, fit.expected + threshold * fit.spread)
+                  : fit.expected + threshold * fit.spread,
+              score,
+              explanation:
+                `${DAILY_METRICS[metric]} ${show(actual)} against ` +
+                `${show(fit.expected)} expected from ${detector.basis}: ` +
+                `${Math.abs(score).toFixed(1)}× the usual deviation ` +
+                `${direction === "spike" ? "above" : "below"}`,
+            });
+          });
+        }
+      }
+      anomalies.sort(
+        (a, b) =>
+          a.date.localeCompare(b.date) || Math.abs(b.score) - Math.abs(a.score)
+      );
+
+      const lastDay = dates[dates.length - 1];
+      const forecast: AnalyticsResponse["daily"]["forecast"] = {
+        method: "holt-winters",
+        horizon: forecastDays,
+        confidence: 0.95,
+        dates: lastDay
+          ? Array.from({ length: forecastDays }, (_, index) =>
+              format(addDays(parseISO(lastDay), index + 1), "yyyy-MM-dd")
+            )
+          : [],
+        metrics: Object.fromEntries(
+          FORECAST_METRICS.map((metric) => [
+            metric,
+            forecastSeries(
+              series.map((row) => row[metric]),
+              {
+                horizon: forecastDays,
+                season: 7,
+                backtestDays: forecastBacktestWeeks * 7,
+              }
+            ),
+          ])
+        ) as Record<ForecastMetric, SeriesForecast | null>,
+      };
+
+      return {
+        series,
+        anomaly: { hasThresholds, lower, upper, outliers },
+        detectors: { names: detectors, threshold },
+        anomalies,
+        forecast,
+      };
+    },
+  };
+}
+
+type SummaryState = Omit<
+  AnalyticsResponse["summary"],
+  "firstSessionAt" | "lastSessionAt"
+> & {
+  firstSessionAt: string | null;
+  lastSessionAt: string | null;
+  /** Kept so that stored days merge into an exact distinct count. */
+  visitorIds: string[];
+};
+
+function sessionSummary(): SessionAccumulator<
+  AnalyticsResponse["summary"],
+  SummaryState
+> {
+  const visitors = new Set<string>();
+  const summary: AnalyticsResponse["summary"] = {
+    sessions: 0,
+    visitors: 0,
+    views: 0,
+    cartAdds: 0,
+    cartRemoves: 0,
+    checkouts: 0,
+    sessionsWithCartAdd: 0,
+    sessionsWithCheckout: 0,
+    firstSessionAt: null,
+    lastSessionAt: null,
+  };
+  let first: Date | null = null;
+  let last: Date | null = null;
+
+  return {
+    add(session) {
+      // Sessions without a visitorId are not one shared "unknown" visitor
+      if (!session.issues.has("missing_visitor")) {
+        visitors.add(session.visitorId);
+      }
+      summary.sessions += 1;
+      summary.views += session.nView;
+      summary.cartAdds += session.nCartAdd;
+      summary.cartRemoves += session.nCartRemove;
+      summary.checkouts += session.nCheckout;
+      if (session.nCartAdd > 0) summary.sessionsWithCartAdd += 1;
+      if (session.nCheckout > 0) summary.sessionsWithCheckout += 1;
+      if (session.undated) return;
+      if (!first || session.ts < first) first = session.ts;
+      if (!last || session.ts > last) last = session.ts;
+    },
+    state() {
+      return {
+        ...summary,
+        visitors: visitors.size,
+        firstSessionAt: first ? (first as Date).toISOString() : null,
+        lastSessionAt: last ? (last as Date).toISOString() : null,
+        visitorIds: [...visitors],
+      };
+    },
+    merge(state) {
+      summary.sessions += state.sessions;
+      summary.views += state.views;
+      summary.cartAdds += state.cartAdds;
+      summary.cartRemoves += state.cartRemoves;
+      summary.checkouts += state.checkouts;
+      summary.sessionsWithCartAdd += state.sessionsWithCartAdd;
+      summary.sessionsWithCheckout += state.sessionsWithCheckout;
+      for (const visitorId of state.visitorIds) visitors.add(visitorId);
+      const stateFirst = state.firstSessionAt
+        ? new Date(state.firstSessionAt)
+        : null;
+      const stateLast = state.lastSessionAt
+        ? new Date(state.lastSessionAt)
+        : null;
+      if (stateFirst && (!first || stateFirst < first)) first = stateFirst;
+      if (stateLast && (!last || stateLast > last)) last = stateLast;
+    },
+    result() {
+      return {
+        ...summary,
+        visitors: visitors.size,
+        firstSessionAt: first ? (first as Date).toISOString() : null,
+        lastSessionAt: last ? (last as Date).toISOString() : null,
+      };
+    },
+  };
+}
+
+type ActivityHeatmap = AnalyticsResponse["activityHeatmap"];
+
+const emptyWeek = () =>
+  Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+
+// Same event counts as dailyTrends, by weekday and hour in the zone
+function activityHeatmap(
+  timeZone: string
+): SessionAccumulator<ActivityHeatmap, ActivityHeatmap> {
+  const counts: ActivityHeatmap = {
+    views: emptyWeek(),
+    carts: emptyWeek(),
+    checkouts: emptyWeek(),
+  };
+  const bump = (grid: number[][], date: Date, amount = 1) => {
+    if (!isValid(date)) return;
+    const { weekday, hour } = zonedParts(date, timeZone);
+    grid[weekday][hour] += amount;
+  };
+
+  return {
+    add(session) {
+      if (session.undated) return;
+      for (const view of session.views) bump(counts.views, view.ts);
+      for (const cart of session.carts) {
+        if (cart.add) bump(counts.carts, cart.ts);
+      }
+      for (const item of session.checkout) {
+        if (item.add) bump(counts.checkouts, item.ts, item.add);
+      }
+    },
+    state() {
+      return JSON.parse(JSON.stringify(counts));
+    },
+    merge(state) {
+      for (const metric of Object.keys(counts) as Array<
+        keyof ActivityHeatmap
+      >) {
+        state[metric]?.forEach((row, weekday) =>
+          row.forEach((value, hour) => {
+            counts[metric][weekday][hour] += value;
+          })
+        );
+      }
+    },
+    result() {
+      return JSON.parse(JSON.stringify(counts));
+    },
+  };
+}
+
+// Bit flags per visitor and day
+const VISITOR_ACTIVE = 1;
+const VISITOR_CART_ADD = 2;
+const VISITOR_CHECKOUT = 4;
+const MAX_COHORT_OFFSET = 12;
+
+type CohortState = { visitors: Array<[string, CountEntries]> };
+
+function cohortRetention(
+  timeZone: string
+): SessionAccumulator<AnalyticsResponse["cohorts"], CohortState> {
+  // visitorId -> local day -> flags. Kept per day so rollups stay
+  // independent of the cohort period.
+  const activity = new Map<string, Map<string, number>>();
+
+  const mark = (visitorId: string, day: string, flags: number) => {
+    const days = activity.get(visitorId) ?? new Map<string, number>();
+    days.set(day, (days.get(day) ?? 0) | flags);
+    activity.set(visitorId, days);
+  };
+
+  const table = (period: CohortPeriod): CohortTable => {
+    const periodStart = (day: string) =>
+      period === "week"
+        ? startOfWeek(parseISO(day), { weekStartsOn: 1 })
+        : startOfMonth(parseISO(day));
+    const offsetBetween = (from: Date, to: Date) =>
+      period === "week"
+        ? differenceInCalendarWeeks(to, from, { weekStartsOn: 1 })
+        : differenceInCalendarMonths(to, from);
+
+    let lastDay = "";
+    for (const days of activity.values()) {
+      for (const day of days.keys()) if (day > lastDay) lastDay = day;
+    }
+    if (!lastDay) return [];
+    const lastPeriod = periodStart(lastDay);
+
+    const cohorts = new Map<
+      string,
+      { start: Date; visitors: number; periods: number[][] }
+    >();
+    for (const days of activity.values()) {
+      const firstDay = [...days.keys()].sort()[0];
+      const start = periodStart(firstDay);
+      const key = format(start, "yyyy-MM-dd");
+      let cohort = cohorts.get(key);
+      if (!cohort) {
+        // Only offsets that have been fully or partly observed
+        const observed = Math.min(
+          offsetBetween(start, lastPeriod),
+          MAX_COHORT_OFFSET
+        );
+        cohort = {
+          start,
+          visitors: 0,
+          periods: Array.from({ length: observed + 1 }, () => [0, 0, 0]),
+        };
+        cohorts.set(key, cohort);
+      }
+      cohort.visitors += 1;
+
+      const flagsByOffset = new Map<number, number>();
+      for (const [day, flags] of days) {
+        const offset = offsetBetween(cohort.start, periodStart(day));
+        flagsByOffset.set(offset, (flagsByOffset.get(offset) ?? 0) | flags);
+      }
+      for (const [offset, flags] of flagsByOffset) {
+        const counts = cohort.periods[offset];
+        if (!counts) continue;
+        if (flags & VISITOR_ACTIVE) counts[0] += 1;
+        if (flags & VISITOR_CART_ADD) counts[1] += 1;
+        if (flags & VISITOR_CHECKOUT) counts[2] += 1;
+      }
+    }
+
+    return [...cohorts.entries()]
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .map(([key, cohort]) => ({
+        cohort: key,
+        visitors: cohort.visitors,
+        periods: cohort.periods.map(([active, carts, checkouts], offset) => ({
+          offset,
+          activeVisitors: active,
+          cartAddVisitors: carts,
+          checkoutVisitors: checkouts,
+          returnRate: active / cohort.visitors,
+          repeatCartAddRate: carts / cohort.visitors,
+          repeatCheckoutRate: checkouts / cohort.visitors,
+        })),
+      }));
+  };
+
+  return {
+    add(session) {
+      // Placeholder visitor ids would lump unrelated traffic together
+      if (session.issues.has("missing_visitor") || session.undated) return;
+      let flags = VISITOR_ACTIVE;
+      if (session.nCartAdd > 0) flags |= VISITOR_CART_ADD;
+      if (session.nCheckout > 0) flags |= VISITOR_CHECKOUT;
+      mark(session.visitorId, dayKey(session.ts, timeZone), flags);
+    },
+    state() {
+      return {
+        visitors: [...activity.entries()].map(
+          ([visitorId, days]) =>
+            [visitorId, [...days.entries()]] as [string, CountEntries]
+        ),
+      };
+    },
+    merge(state) {
+      for (const [visitorId, days] of state.visitors) {
+        for (const [day, flags] of days) mark(visitorId, day, flags);
+      }
+    },
+    result() {
+      return { week: table("week"), month: table("month") };
+    },
+  };
+}
+
+type DataQualityState = {
+  sessions: number;
+  affectedSessions: number;
+  issues: Array<[DataQualityCode, QualityEntry]>;
+};
+
+function mergeQualityLog(
+  target: QualityLog,
+  entries: Iterable<[DataQualityCode, QualityEntry]>
+) {
+  for (const [code, source] of entries) {
+    const entry = target.get(code) ?? { count: 0, samples: [] };
+    entry.count += source.count;
+    for (const sample of source.samples) {
+      if (entry.samples.length >= MAX_QUALITY_SAMPLES) break;
+      if (!entry.samples.includes(sample)) entry.samples.push(sample);
     }
-    for (const cart of session.carts) {
-      if (cart.add) {
-        bump(itemMeta[cart.itemId]?.category ?? "Other", "carts");
+    target.set(code, entry);
+  }
+}
+
+// Collects the fallbacks recorded on each session plus references to items
+// that are missing from the catalogue.
+function dataQualityChecks(
+  itemMeta: ItemMeta
+): SessionAccumulator<DataQualityState, DataQualityState> {
+  const log: QualityLog = new Map();
+  let sessions = 0;
+  let affectedSessions = 0;
+  const snapshot = (): DataQualityState => ({
+    sessions,
+    affectedSessions,
+    issues: [...log.entries()].map(([code, entry]) => [
+      code,
+      { count: entry.count, samples: [...entry.samples] },
+    ]),
+  });
+
+  return {
+    add(session) {
+      sessions += 1;
+      const issues: QualityLog = new Map(session.issues);
+      for (const id of session.uniqueItems) {
+        if (!itemMeta[id]) flagIssue(issues, "unknown_item", id);
       }
+      if (issues.size) affectedSessions += 1;
+      mergeQualityLog(log, issues);
+    },
+    state: snapshot,
+    merge(state) {
+      sessions += state.sessions;
+      affectedSessions += state.affectedSessions;
+      mergeQualityLog(log, state.issues);
+    },
+    result: snapshot,
+  };
+}
+
+type ActivityCounts = {
+  views: number;
+  cartAdds: number;
+  cartRemoves: number;
+  wishlistAdds: number;
+  wishlistRemoves: number;
+  checkouts: number;
+};
+
+type ActivityState = {
+  items: Array<[string, ActivityCounts]>;
+  categories: Array<[string, ActivityCounts]>;
+};
+
+// Per-item and per-category event counts. Not part of the dashboard payload;
+// persisted with each daily rollup for downstream consumers.
+function itemActivity(
+  itemMeta: ItemMeta
+): SessionAccumulator<ActivityState, ActivityState> {
+  const items = new Map<string, ActivityCounts>();
+  const categories = new Map<string, ActivityCounts>();
+  const emptyCounts = (): ActivityCounts => ({
+    views: 0,
+    cartAdds: 0,
+    cartRemoves: 0,
+    wishlistAdds: 0,
+    wishlistRemoves: 0,
+    checkouts: 0,
+  });
+  const addTo = (
+    target: Map<string, ActivityCounts>,
+    key: string,
+    counts: Partial<ActivityCounts>
+  ) => {
+    const entry = target.get(key) ?? emptyCounts();
+    for (const field of Object.keys(counts) as Array<keyof ActivityCounts>) {
+      entry[field] += counts[field] ?? 0;
     }
-    for (const wish of session.wish) {
-      if (wish.add) {
-        bump(itemMeta[wish.itemId]?.category ?? "Other", "wish");
+    target.set(key, entry);
+  };
+  const bump = (itemId: string, counts: Partial<ActivityCounts>) => {
+    addTo(items, itemId, counts);
+    addTo(categories, itemMeta[itemId]?.category ?? "Other", counts);
+  };
+  const snapshot = (): ActivityState => ({
+    items: [...items.entries()].map(([id, counts]) => [id, { ...counts }]),
+    categories: [...categories.entries()].map(([name, counts]) => [
+      name,
+      { ...counts },
+    ]),
+  });
+
+  return {
+    add(session) {
+      for (const view of session.views) {
+        bump(view.itemId, { views: 1 });
+      }
+      for (const cart of session.carts) {
+        bump(cart.itemId, {
+          cartAdds: cart.add ?? 0,
+          cartRemoves: cart.remove ?? 0,
+        });
+      }
+      for (const wish of session.wish) {
+        bump(wish.itemId, {
+          wishlistAdds: wish.add ?? 0,
+          wishlistRemoves: wish.remove ?? 0,
+        });
       }
+      for (const checkout of session.checkout) {
+        bump(checkout.itemId, { checkouts: checkout.add ?? 0 });
+      }
+    },
+    state: snapshot,
+    merge(state) {
+      for (const [id, counts] of state.items) addTo(items, id, counts);
+      for (const [name, counts] of state.categories) {
+        addTo(categories, name, counts);
+      }
+    },
+    result: snapshot,
+  };
+}
+
+export type CollectionNames = {
+  tracking: string;
+  listings: string;
+  productCategories: string;
+  rollups: string;
+};
+
+export type AnalyticsOptions = {
+  collections?: Partial<CollectionNames>;
+  /** Documents fetched per cursor round trip. */
+  batchSize?: number;
+  /** Stop after this many tracking documents; null streams everything. */
+  maxDocuments?: number | null;
+  /** Upper bound on product category documents loaded into the lookup map. */
+  maxCategories?: number;
+  /** Compact session rows kept in the payload (all sessions are counted). */
+  maxSessionRows?: number;
+  /** Daily cart counts outside mean ± anomalySigma·σ are flagged. */
+  anomalySigma?: number;
+  /** Detectors run on daily views, carts, checkouts and conversion. */
+  anomalyDetectors?: AnomalyDetectorName[];
+  /** Deviation, in each detector's spread, that counts as an anomaly. */
+  anomalyThreshold?: number;
+  /** Days projected by the daily forecast. */
+  forecastDays?: number;
+  /** Trailing weeks held out to report the forecast's backtest MAPE. */
+  forecastBacktestWeeks?: number;
+  /** IANA zone that days, hours and weekdays are reported in. */
+  timeZone?: string;
+  /**
+   * Bounded ranges spanning at least this many days are served by merging
+   * persisted daily rollups; null always scans raw tracking documents.
+   */
+  rollupMinDays?: number | null;
+  /**
+   * "document" treats each tracking document as a session; "inactivity"
+   * regroups events per visitor, splitting after sessionGapMinutes idle.
+   */
+  sessionMode?: SessionMode;
+  sessionGapMinutes?: number;
+  /**
+   * Documents given to computeAnalyticsFromDocStream or
+   * evaluateRecommendations are ordered by visitorId (e.g. `mongoexport
+   * --sort '{visitorId: 1, createdAt: 1}'`), so inactivity sessions hold one
+   * visitor at a time. computeAnalyticsFromMongo sorts its own cursor.
+   */
+  trackingSortedByVisitor?: boolean;
+  /** Unsorted streamed input: documents held for sessionization at most. */
+  maxBufferedDocuments?: number;
+  /** Order of the absorbing Markov chain; 2 conditions on two states. */
+  markovOrder?: 1 | 2;
+  /** Weighting profiles compared in weightedRecos. */
+  recoProfiles?: RecoProfile[];
+  /** Association rules: minimum itemset support (share of sessions). */
+  ruleMinSupport?: number;
+  ruleMinConfidence?: number;
+  ruleMinLift?: number;
+  /** Largest itemset mined (2-5). */
+  ruleMaxItems?: number;
+};
+
+type ResolvedAnalyticsOptions = Required<
+  Omit<AnalyticsOptions, "collections">
+> & { collections: CollectionNames };
+
+export const DEFAULT_ANALYTICS_OPTIONS: ResolvedAnalyticsOptions = {
+  collections: {
+    tracking: "customervisits",
+    listings: "listings",
+    productCategories: "productcategories",
+    rollups: "analyticsdailyrollups",
+  },
+  batchSize: 1000,
+  maxDocuments: null,
+  maxCategories: 10000,
+  maxSessionRows: 20000,
+  anomalySigma: 2,
+  anomalyDetectors: ["mad", "stl", "ewma"],
+  anomalyThreshold: 3.5,
+  forecastDays: 14,
+  forecastBacktestWeeks: 2,
+  timeZone: "UTC",
+  rollupMinDays: null,
+  sessionMode: "document",
+  sessionGapMinutes: 30,
+  trackingSortedByVisitor: false,
+  maxBufferedDocuments: 250000,
+  markovOrder: 1,
+  recoProfiles: [
+    {
+      name: "balanced",
+      view: 1,
+      wishlist: 2,
+      cart: 3,
+      checkout: 5,
+      cartRemoval: 0.5,
+      halfLifeDays: 30,
+    },
+    {
+      name: "purchase intent",
+      view: 0.25,
+      wishlist: 1,
+      cart: 3,
+      checkout: 8,
+      cartRemoval: 0.25,
+      halfLifeDays: 14,
+    },
+  ],
+  ruleMinSupport: 0.005,
+  ruleMinConfidence: 0.1,
+  ruleMinLift: 1,
+  ruleMaxItems: 3,
+};
+
+function resolveOptions(options: AnalyticsOptions): ResolvedAnalyticsOptions {
+  return {
+    ...DEFAULT_ANALYTICS_OPTIONS,
+    ...options,
+    collections: {
+      ...DEFAULT_ANALYTICS_OPTIONS.collections,
+      ...options.collections,
+    },
+  };
+}
+
+// Sections that are merged across days. Keys double as field names in the
+// persisted rollup documents, so renaming one invalidates stored rollups.
+function createSections(itemMeta: ItemMeta, options: ResolvedAnalyticsOptions) {
+  return {
+    leak: leakAnalytics(),
+    cooccurrence: cooccurrenceRecos(),
+    weightedRecos: weightedRecos(options.recoProfiles),
+    crossSell: crossSellAffinities(itemMeta),
+    associations: associationRules({
+      minSupport: options.ruleMinSupport,
+      minConfidence: options.ruleMinConfidence,
+      minLift: options.ruleMinLift,
+      maxItems: options.ruleMaxItems,
+    }),
+    markov: priceSegmentedMarkov(itemMeta),
+    transitions: transitionMatrixAndSankey(),
+    absorbing: absorbingConversion(options.markovOrder),
+    attribution: removalAttribution(itemMeta),
+    priceBands: priceBandsFromQuantiles(itemMeta),
+    priceRangeData: buildPriceRangeData(itemMeta),
+    geoInsights: geoBehavioralInsights(),
+    funnel: checkoutFunnel(itemMeta),
+    latency: stepLatency(itemMeta),
+    revenue: revenueAnalytics(itemMeta, options.timeZone),
+    sessionization: sessionizationReport(options),
+    categoryInteractions: categoryInteractions(itemMeta),
+    daily: dailyTrends(options),
+    activityHeatmap: activityHeatmap(options.timeZone),
+    summary: sessionSummary(),
+    cohorts: cohortRetention(options.timeZone),
+    dataQuality: dataQualityChecks(itemMeta),
+  };
+}
+
+type Sections = ReturnType<typeof createSections>;
+
+type CatalogueSources = {
+  listingDocuments: number;
+  categoryDocuments: number;
+  /** Problems found while loading listings and categories. */
+  quality?: { listings: QualityLog; productCategories: QualityLog };
+};
+
+type SectionStates = {
+  [K in keyof Sections]: ReturnType<Sections[K]["state"]>;
+};
+
+type AccumulatorHooks = {
+  /** Called for every session in range, after the sections have seen it. */
+  onSession?: (session: Session, events: TransitionEvent[]) => void;
+  /** Tracking documents arrive ordered by visitorId (inactivity mode). */
+  sortedByVisitor?: boolean;
+  /** Otherwise, documents the sessionizer may hold before giving up. */
+  maxBuffered?: number;
+};
+
+function createAnalyticsAccumulator(
+  itemMeta: ItemMeta,
+  range: DateRange,
+  options: ResolvedAnalyticsOptions,
+  hooks: AccumulatorHooks = {}
+) {
+  const sections = createSections(itemMeta, options);
+  const accumulators = Object.values(sections) as Array<
+    SessionAccumulator<unknown, unknown>
+  >;
+
+  const sessionRows: AnalyticsResponse["sessions"] = [];
+  let trackingDocuments = 0;
+  let sessionCount = 0;
+
+  const addSession = (session: Session) => {
+    if (!isInRange(session.ts, range)) return;
+    sessionCount += 1;
+
+    const events = buildEventStreamForSession(session, itemMeta);
+    for (const accumulator of accumulators) {
+      accumulator.add(session, events);
+    }
+    hooks.onSession?.(session, events);
+
+    if (sessionRows.length < options.maxSessionRows) {
+      sessionRows.push({
+        sessionId: session.sessionId,
+        visitorId: session.visitorId,
+        country: session.country,
+        ts: session.ts.toISOString(),
+        end: session.end.toISOString(),
+        durationSeconds: (session.end.getTime() - session.ts.getTime()) / 1000,
+        nView: session.nView,
+        nCartAdd: session.nCartAdd,
+        nCartRemove: session.nCartRemove,
+        nCheckout: session.nCheckout,
+      });
     }
+  };
+  const sessionizer =
+    options.sessionMode === "inactivity"
+      ? createSessionizer(
+          options.sessionGapMinutes * 60 * 1000,
+          addSession,
+          hooks.sortedByVisitor,
+          hooks.maxBuffered
+        )
+      : null;
+
+  return {
+    add(doc: RawDoc) {
+      trackingDocuments += 1;
+      const parsed = collectSessionEvents(doc);
+      if (sessionizer) {
+        sessionizer.add(parsed);
+      } else {
+        addSession(parsed);
+      }
+    },
+    state(): SectionStates {
+      sessionizer?.flush();
+      const states = {} as Record<string, unknown>;
+      for (const [name, section] of Object.entries(sections)) {
+        states[name] = section.state();
+      }
+      return states as SectionStates;
+    },
+    /** Folds one stored day in; its sessions are counted but not listed. */
+    merge(states: SectionStates) {
+      for (const [name, section] of Object.entries(sections)) {
+        (section as SessionAccumulator<unknown, unknown>).merge(
+          states[name as keyof Sections]
+        );
+      }
+      sessionCount += states.summary.sessions;
+    },
+    result(sources: CatalogueSources): AnalyticsResponse {
+      sessionizer?.flush();
+      const { recos, bundles } = sections.cooccurrence.result();
+      const markovSummary = sections.markov.result();
+      const transitionInfo = sections.transitions.result();
+      const trackingQuality = sections.dataQuality.result();
+      const documentCapReached =
+        options.maxDocuments != null &&
+        trackingDocuments >= options.maxDocuments;
+      // Not a problem with any one document, but later documents are missing
+      const scanIssues = new Map<DataQualityCode, QualityEntry>(
+        documentCapReached
+          ? [
+              [
+                "document_cap_reached",
+                { count: trackingDocuments, samples: [] },
+              ],
+            ]
+          : []
+      );
+      const summary = sections.summary.result();
+      const issueRows = (
+        source: AnalyticsResponse["dataQuality"]["issues"][number]["source"],
+        entries: Iterable<[DataQualityCode, QualityEntry]>
+      ) =>
+        [...entries].map(([code, entry]) => ({
+          source,
+          code,
+          count: entry.count,
+          samples: entry.samples,
+        }));
+
+      return {
+        sessions: sessionRows,
+        summary,
+        leak: sections.leak.result(),
+        recos,
+        weightedRecos: sections.weightedRecos.result(),
+        crossSell: sections.crossSell.result(),
+        frequentBundles: bundles,
+        associations: sections.associations.result(),
+        priceMarkov: markovSummary.model,
+        priceMarkovMeta: {
+          tLow: markovSummary.tLow,
+          tHigh: markovSummary.tHigh,
+          min: markovSummary.min,
+          max: markovSummary.max,
+        },
+        priceBands: sections.priceBands.result(),
+        priceRangeData: sections.priceRangeData.result(),
+        categoryInteractions: sections.categoryInteractions.result(),
+        transitions: {
+          states: transitionInfo.states,
+          counts: transitionInfo.counts,
+          probs: transitionInfo.probs,
+        },
+        absorbing: sections.absorbing.result(),
+        attribution: sections.attribution.result(),
+        sankey: transitionInfo.sankey,
+        daily: sections.daily.result(),
+        activityHeatmap: sections.activityHeatmap.result(),
+        timeZone: options.timeZone,
+        geoInsights: sections.geoInsights.result(),
+        sessionization: sections.sessionization.result(),
+        funnel: sections.funnel.result(),
+        latency: sections.latency.result(),
+        cohorts: sections.cohorts.result(),
+        revenue: revenueWithVisitors(
+          sections.revenue.result(),
+          summary.visitors
+        ),
+        dataQuality: {
+          checked: {
+            sessions: trackingQuality.sessions,
+            listings: sources.listingDocuments,
+            categories: sources.categoryDocuments,
+          },
+          affectedSessions: trackingQuality.affectedSessions,
+          issues: [
+            ...issueRows("tracking", scanIssues),
+            ...issueRows("tracking", trackingQuality.issues),
+            ...issueRows("listings", sources.quality?.listings ?? []),
+            ...issueRows(
+              "productCategories",
+              sources.quality?.productCategories ?? []
+            ),
+          ].sort((a, b) => b.count - a.count),
+        },
+        itemMeta,
+        range: {
+          from: range.from ? range.from.toISOString() : null,
+          to: range.to ? range.to.toISOString() : null,
+        },
+        ingestion: {
+          trackingDocuments,
+          listingDocuments: sources.listingDocuments,
+          categoryDocuments: sources.categoryDocuments,
+          sessionRowsTruncated: sessionCount > sessionRows.length,
+          documentCapReached,
+          source: "raw",
+          rollupDays: 0,
+        },
+        generatedAt: new Date().toISOString(),
+        __version: VERSION,
+      };
+    },
+  };
+}
+
+type DocumentSources = {
+  listings: Iterable<RawDoc>;
+  productCategories: Iterable<RawDoc>;
+};
+
+function loadDocumentCatalogue(
+  sources: DocumentSources,
+  opts: ResolvedAnalyticsOptions
+) {
+  const categories = [...sources.productCategories].slice(
+    0,
+    opts.maxCategories
+  );
+  const listings = [...sources.listings];
+  const quality = { listings: new Map(), productCategories: new Map() };
+  const itemMeta = buildItemMeta(
+    listings,
+    buildCategoryMap(categories, quality.productCategories),
+    quality.listings
+  );
+  const counts: CatalogueSources = {
+    listingDocuments: listings.length,
+    categoryDocuments: categories.length,
+    quality,
+  };
+  return { itemMeta, counts };
+}
+
+function prepareDocsAccumulator(
+  sources: DocumentSources,
+  range: DateRange,
+  options: AnalyticsOptions,
+  streamed = false
+) {
+  const opts = resolveOptions(options);
+  const { itemMeta, counts } = loadDocumentCatalogue(sources, opts);
+  // Documents given as an array are in memory already; a stream is not
+  const hooks: AccumulatorHooks = streamed
+    ? {
+        sortedByVisitor: opts.trackingSortedByVisitor,
+        maxBuffered: opts.maxBufferedDocuments,
+      }
+    : {};
+  return {
+    opts,
+    accumulator: createAnalyticsAccumulator(itemMeta, range, opts, hooks),
+    counts,
+  };
+}
+
+/**
+ * Mongo-free entry point: computes the same AnalyticsResponse as
+ * computeAnalyticsFromMongo from documents that are already in memory, such
+ * as parsed `mongoexport` dumps (see lib/extended-json.ts).
+ */
+export function computeAnalyticsFromDocs(
+  trackingDocs: Iterable<RawDoc>,
+  listings: Iterable<RawDoc>,
+  productCategories: Iterable<RawDoc>,
+  range: DateRange = { from: null, to: null },
+  options: AnalyticsOptions = {}
+): AnalyticsResponse {
+  const { opts, accumulator, counts } = prepareDocsAccumulator(
+    { listings: listings ?? [], productCategories: productCategories ?? [] },
+    range,
+    options
+  );
+  let scanned = 0;
+  for (const doc of trackingDocs ?? []) {
+    if (opts.maxDocuments != null && scanned >= opts.maxDocuments) break;
+    scanned += 1;
+    accumulator.add(doc);
   }
+  return accumulator.result(counts);
+}
 
-  return [...byCategory.values()]
-    .sort((a, b) => b.total - a.total)
-    .slice(0, 20);
+/**
+ * Streaming variant of computeAnalyticsFromDocs for tracking exports that
+ * are too large to hold in memory (e.g. NDJSON read line by line). Inactivity
+ * sessions need the export sorted by visitor (trackingSortedByVisitor);
+ * unsorted input is buffered up to maxBufferedDocuments.
+ */
+export async function computeAnalyticsFromDocStream(
+  trackingDocs: AsyncIterable<RawDoc> | Iterable<RawDoc>,
+  listings: Iterable<RawDoc>,
+  productCategories: Iterable<RawDoc>,
+  range: DateRange = { from: null, to: null },
+  options: AnalyticsOptions = {}
+): Promise<AnalyticsResponse> {
+  const { opts, accumulator, counts } = prepareDocsAccumulator(
+    { listings, productCategories },
+    range,
+    options,
+    true
+  );
+  let scanned = 0;
+  for await (const doc of trackingDocs) {
+    if (opts.maxDocuments != null && scanned >= opts.maxDocuments) break;
+    scanned += 1;
+    accumulator.add(doc);
+  }
+  return accumulator.result(counts);
 }
 
-function dailyTrends(sessions: Session[]) {
-  const byDay = new Map<string, { views: number; carts: number }>();
-  const dayKey = (date: Date | string | number | null | undefined) => {
-    if (!date) return format(new Date(), "yyyy-MM-dd");
-    const candidate =
-      date instanceof Date ? date : parseDate(date) ?? new Date(date);
-    const safeDate = candidate && isValid(candidate) ? candidate : new Date();
-    return format(safeDate, "yyyy-MM-dd");
+export type EvaluationSession = {
+  sessionId: string;
+  visitorId: string;
+  /** Session start. */
+  ts: Date;
+  /** Views, cart, wishlist and checkout events in time order. */
+  events: Array<{ type: TransitionEvent["type"]; itemId: string; ts: Date }>;
+};
+
+/**
+ * A recommender under evaluation: fitted once on the training sessions, it
+ * returns the top k items to suggest next to the seed items of a session.
+ */
+export type RecoScorer = {
+  name: string;
+  train(
+    sessions: EvaluationSession[]
+  ): (seeds: string[], k: number) => string[];
+};
+
+export type EvaluationOptions = AnalyticsOptions & {
+  range?: DateRange;
+  /** Sessions starting at or after this instant are test sessions. */
+  splitAt?: Date | null;
+  /** Without splitAt, the earliest share of sessions used for training. */
+  trainShare?: number;
+  /** Cutoffs the metrics are reported at. */
+  ks?: number[];
+  /** Distinct items hidden at the end of each test session. */
+  holdout?: number;
+  /** Evaluated after the built-in cooccurrence, weighted and popularity ones. */
+  scorers?: RecoScorer[];
+};
+
+export type RecoMetrics = {
+  k: number;
+  /** Share of test cases with at least one hidden item in the top k. */
+  hitRate: number;
+  precision: number;
+  recall: number;
+  mrr: number;
+  ndcg: number;
+  /** Distinct items recommended in any top k over the catalogue size. */
+  coverage: number;
+};
+
+export type RecoEvaluation = {
+  split: {
+    /** First test session start; null when every session is training. */
+    at: string | null;
+    trainSessions: number;
+    testSessions: number;
+    /** Test sessions with at least one seed item left after hiding. */
+    cases: number;
   };
+  holdout: number;
+  catalogueItems: number;
+  results: Array<{
+    scorer: string;
+    metrics: RecoMetrics[];
+    /** Cases for which the scorer had nothing to recommend. */
+    coldStart: number;
+  }>;
+};
+
+type EvaluatedSession = {
+  session: Session;
+  events: TransitionEvent[];
+  evaluation: EvaluationSession;
+};
+
+type Recommend = (seeds: string[], k: number) => string[];
+
+const byScore = (a: [string, number], b: [string, number]) =>
+  b[1] - a[1] || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0);
+
+// Sums each candidate's neighbour scores over all seeds of the session
+function recommendFromRecos(recos: AnalyticsResponse["recos"]): Recommend {
+  return (seeds, k) => {
+    const exclude = new Set(seeds);
+    const scores = new Map<string, number>();
+    for (const seed of seeds) {
+      for (const { item, score } of recos[seed] ?? []) {
+        if (exclude.has(item)) continue;
+        scores.set(item, (scores.get(item) ?? 0) + score);
+      }
+    }
+    return [...scores.entries()]
+      .sort(byScore)
+      .slice(0, k)
+      .map(([item]) => item);
+  };
+}
 
-  for (const session of sessions) {
-    for (const view of session.views) {
-      const key = dayKey(view.ts);
-      const record = byDay.get(key) ?? { views: 0, carts: 0 };
-      record.views += 1;
-      byDay.set(key, record);
+function builtinScorers(opts: ResolvedAnalyticsOptions) {
+  const fit = <T>(
+    accumulator: SessionAccumulator<T, unknown>,
+    sessions: EvaluatedSession[]
+  ) => {
+    for (const { session, events } of sessions) {
+      accumulator.add(session, events);
     }
-    for (const cart of session.carts) {
-      if (cart.add) {
-        const key = dayKey(cart.ts);
-        const record = byDay.get(key) ?? { views: 0, carts: 0 };
-        record.carts += 1;
-        byDay.set(key, record);
+    return accumulator.result();
+  };
+  const scorers: Array<{
+    name: string;
+    train(sessions: EvaluatedSession[]): Recommend;
+  }> = [
+    {
+      name: "cooccurrence",
+      train: (sessions) =>
+        recommendFromRecos(fit(cooccurrenceRecos(), sessions).recos),
+    },
+  ];
+  for (const profile of opts.recoProfiles) {
+    scorers.push({
+      name: `weighted:${profile.name}`,
+      train: (sessions) =>
+        recommendFromRecos(
+          fit(weightedRecos([profile]), sessions).recos[profile.name] ?? {}
+        ),
+    });
+  }
+  scorers.push({
+    name: "popularity",
+    train(sessions) {
+      const counts = new Map<string, number>();
+      for (const { session } of sessions) {
+        for (const id of session.uniqueItems) {
+          counts.set(id, (counts.get(id) ?? 0) + 1);
+        }
       }
+      const ranked = [...counts.entries()].sort(byScore).map(([id]) => id);
+      return (seeds, k) => {
+        const exclude = new Set(seeds);
+        return ranked.filter((id) => !exclude.has(id)).slice(0, k);
+      };
+    },
+  });
+  return scorers;
+}
+
+// Hides the last `holdout` distinct items (by latest interaction); the rest
+// are the seeds. Removals are not interactions with an item.
+function evaluationCase(session: EvaluationSession, holdout: number) {
+  const lastSeen = new Map<string, number>();
+  session.events.forEach((event, index) => {
+    if (event.type === "cart_remove" || event.type === "wishlist_remove") {
+      return;
+    }
+    lastSeen.set(event.itemId, index);
+  });
+  const items = [...lastSeen.entries()]
+    .sort((a, b) => a[1] - b[1])
+    .map(([id]) => id);
+  if (items.length <= holdout) return null;
+  return {
+    seeds: items.slice(0, items.length - holdout),
+    hidden: new Set(items.slice(items.length - holdout)),
+  };
+}
+
+/**
+ * Offline evaluation of the recommenders: sessions are split by start time,
+ * every scorer is trained on the earlier ones, and for each later session
+ * it must recover the hidden last items from the others. All sessions in
+ * range are held in memory.
+ */
+export async function evaluateRecommendations(
+  trackingDocs: AsyncIterable<RawDoc> | Iterable<RawDoc>,
+  listings: Iterable<RawDoc>,
+  productCategories: Iterable<RawDoc>,
+  options: EvaluationOptions = {}
+): Promise<RecoEvaluation> {
+  const {
+    range = { from: null, to: null },
+    splitAt = null,
+    trainShare = 0.8,
+    ks = [5, 10],
+    holdout = 1,
+    scorers = [],
+    ...analyticsOptions
+  } = options;
+  const opts = resolveOptions(analyticsOptions);
+  const { itemMeta } = loadDocumentCatalogue(
+    { listings, productCategories },
+    opts
+  );
+  const hidden = Math.max(1, Math.floor(holdout));
+  const cutoffs = [...new Set(ks.map(Math.floor))]
+    .filter((k) => k >= 1)
+    .sort((a, b) => a - b);
+  const maxK = cutoffs[cutoffs.length - 1] ?? 0;
+
+  const sessions: EvaluatedSession[] = [];
+  const collect = (session: Session) => {
+    if (!isInRange(session.ts, range)) return;
+    const events = buildEventStreamForSession(session, itemMeta);
+    sessions.push({
+      session,
+      events,
+      evaluation: {
+        sessionId: session.sessionId,
+        visitorId: session.visitorId,
+        ts: session.ts,
+        events: events.map(({ type, itemId, ts }) => ({ type, itemId, ts })),
+      },
+    });
+  };
+  const sessionizer =
+    opts.sessionMode === "inactivity"
+      ? createSessionizer(
+          opts.sessionGapMinutes * 60 * 1000,
+          collect,
+          opts.trackingSortedByVisitor,
+          opts.maxBufferedDocuments
+        )
+      : null;
+  let scanned = 0;
+  for await (const doc of trackingDocs) {
+    if (opts.maxDocuments != null && scanned >= opts.maxDocuments) break;
+    scanned += 1;
+    const parsed = collectSessionEvents(doc);
+    if (sessionizer) {
+      sessionizer.add(parsed);
+    } else {
+      collect(parsed);
     }
   }
+  sessionizer?.flush();
+  sessions.sort((a, b) => a.session.ts.getTime() - b.session.ts.getTime());
 
-  const series = [...byDay.entries()]
-    .sort((a, b) => a[0].localeCompare(b[0]))
-    .map(([date, record]) => ({
-      date,
-      views: record.views,
-      carts: record.carts,
-    }));
+  // A fixed instant splits on it; otherwise the sort order decides ties
+  let train = sessions;
+  let test: EvaluatedSession[] = [];
+  if (splitAt) {
+    train = sessions.filter(({ session }) => session.ts < splitAt);
+    test = sessions.filter(({ session }) => session.ts >= splitAt);
+  } else {
+    const cut = Math.floor(sessions.length * clampValue(trainShare, 0, 1));
+    train = sessions.slice(0, cut);
+    test = sessions.slice(cut);
+  }
+  const at = splitAt ?? test[0]?.session.ts ?? null;
+  const cases = test.flatMap(({ evaluation }) => {
+    const found = evaluationCase(evaluation, hidden);
+    return found ? [found] : [];
+  });
+
+  let catalogueItems = Object.keys(itemMeta).length;
+  if (!catalogueItems) {
+    const seen = new Set<string>();
+    for (const { session } of sessions) {
+      for (const id of session.uniqueItems) seen.add(id);
+    }
+    catalogueItems = seen.size;
+  }
 
-  const cartCounts = series.map((row) => row.carts);
-  const avg = mean(cartCounts) ?? 0;
-  const std = deviation(cartCounts) ?? 0;
-  const lower = avg > 0 ? Math.max(0, avg - 2 * std) : 0;
-  const upper = avg + 2 * std;
-  const hasThresholds = cartCounts.length >= 3 && std > 0;
-  const outliers = hasThresholds
-    ? series
-        .filter((row) => row.carts < lower || row.carts > upper)
-        .map((row) => row.date)
-    : [];
+  const candidates = [
+    ...builtinScorers(opts),
+    ...scorers.map((scorer) => ({
+      name: scorer.name,
+      train: (fitOn: EvaluatedSession[]) =>
+        scorer.train(fitOn.map(({ evaluation }) => evaluation)),
+    })),
+  ];
+  const results = candidates.map((scorer) => {
+    const recommend = scorer.train(train);
+    const totals = cutoffs.map((k) => ({
+      k,
+      hits: 0,
+      precision: 0,
+      recall: 0,
+      mrr: 0,
+      ndcg: 0,
+      items: new Set<string>(),
+    }));
+    let coldStart = 0;
+    for (const { seeds, hidden: targets } of cases) {
+      const ranked = recommend(seeds, maxK).slice(0, maxK);
+      if (!ranked.length) coldStart += 1;
+      for (const total of totals) {
+        const top = ranked.slice(0, total.k);
+        let hits = 0;
+        let dcg = 0;
+        let firstHit: number | null = null;
+        top.forEach((item, index) => {
+          total.items.add(item);
+          if (!targets.has(item)) return;
+          hits += 1;
+          dcg += 1 / Math.log2(index + 2);
+          firstHit ??= index;
+        });
+        let ideal = 0;
+        for (let i = 0; i < Math.min(total.k, targets.size); i += 1) {
+          ideal += 1 / Math.log2(i + 2);
+        }
+        if (hits) total.hits += 1;
+        total.precision += hits / total.k;
+        total.recall += hits / targets.size;
+        total.mrr += firstHit == null ? 0 : 1 / (firstHit + 1);
+        total.ndcg += ideal ? dcg / ideal : 0;
+      }
+    }
+    const mean = (sum: number) => (cases.length ? sum / cases.length : 0);
+    return {
+      scorer: scorer.name,
+      metrics: totals.map((total) => ({
+        k: total.k,
+        hitRate: mean(total.hits),
+        precision: mean(total.precision),
+        recall: mean(total.recall),
+        mrr: mean(total.mrr),
+        ndcg: mean(total.ndcg),
+        coverage: catalogueItems ? total.items.size / catalogueItems : 0,
+      })),
+      coldStart,
+    };
+  });
 
   return {
-    series,
-    anomaly: { hasThresholds, lower, upper, outliers },
+    split: {
+      at: at ? at.toISOString() : null,
+      trainSessions: train.length,
+      testSessions: test.length,
+      cases: cases.length,
+    },
+    holdout: hidden,
+    catalogueItems,
+    results,
   };
 }
 
-function computeAnalyticsFromDocs(
-  trackingDocs: RawDoc[],
-  listings: RawDoc[],
-  productCategories: RawDoc[]
-): AnalyticsResponse {
-  const categoryMap = buildCategoryMap(productCategories);
-  const itemMeta = buildItemMeta(listings, categoryMap);
-  const sessions = (trackingDocs ?? []).map(collectSessionEvents);
-
-  const leak = leakAnalytics(sessions, itemMeta);
-  const { recos, bundles } = cooccurrenceRecos(sessions);
-  const markov = priceSegmentedMarkov(sessions, itemMeta);
-  const transitionInfo = transitionMatrixAndSankey(sessions, itemMeta);
-  const priceBands = priceBandsFromQuantiles(
+async function loadCatalogue(db: Db, opts: ResolvedAnalyticsOptions) {
+  const { collections } = opts;
+  const categories = await db
+    .collection(collections.productCategories)
+    .find({})
+    .limit(opts.maxCategories)
+    .toArray();
+  const quality = { listings: new Map(), productCategories: new Map() };
+  const categoryMap = buildCategoryMap(
+    categories as RawDoc[],
+    quality.productCategories
+  );
+
+  // Item metadata must be complete before sessions are priced and bucketed
+  const itemMeta: ItemMeta = {};
+  let listingDocuments = 0;
+  const listingCursor = db
+    .collection(collections.listings)
+    .find({}, { batchSize: opts.batchSize });
+  for await (const listing of listingCursor) {
+    addListingMeta(itemMeta, listing as RawDoc, categoryMap, quality.listings);
+    listingDocuments += 1;
+  }
+
+  return {
     itemMeta,
-    transitionInfo.allTransitions
+    categoryMap,
+    listingDocuments,
+    categoryDocuments: categories.length,
+    quality,
+  };
+}
+
+// Inactivity sessionization needs each visitor's documents together; sorting
+// by visitor lets the sessionizer flush one visitor at a time
+function findTracking(
+  db: Db,
+  range: DateRange,
+  opts: ResolvedAnalyticsOptions
+) {
+  const cursor = db
+    .collection(opts.collections.tracking)
+    .find(trackingFilter(range), { batchSize: opts.batchSize });
+  if (opts.sessionMode === "inactivity") {
+    cursor.sort({ visitorId: 1, createdAt: 1 }).allowDiskUse(true);
+  }
+  return cursor;
+}
+
+// A capped scan keeps the range's earliest documents. Limiting the visitor
+// sorted cursor instead would keep the first visitors by id and drop the
+// rest entirely, so the cap is applied before that sort
+function findEarliestTracking(
+  db: Db,
+  range: DateRange,
+  opts: ResolvedAnalyticsOptions,
+  limit: number
+) {
+  const collection = db.collection(opts.collections.tracking);
+  if (opts.sessionMode !== "inactivity") {
+    return collection
+      .find(trackingFilter(range), { batchSize: opts.batchSize })
+      .sort({ createdAt: 1 })
+      .limit(limit);
+  }
+  return collection.aggregate(
+    [
+      { $match: trackingFilter(range) },
+      { $sort: { createdAt: 1 } },
+      { $limit: limit },
+      { $sort: { visitorId: 1, createdAt: 1 } },
+    ],
+    { allowDiskUse: true, batchSize: opts.batchSize }
   );
-  const daily = dailyTrends(sessions);
-  const geoInsights = geoBehavioralInsights(sessions);
-  const priceRangeData = buildPriceRangeData(
-    sessions,
+}
+
+// ---------- Daily rollups ----------
+
+const ROLLUP_VERSION = 20;
+
+// Section states grow with the day's visitors, baskets and item pairs, so
+// they are stored as JSON split over chunk documents rather than inline,
+// keeping every document far below MongoDB's 16 MB limit
+const ROLLUP_CHUNK_CHARS = 2 * 1024 * 1024;
+
+// Inactivity sessions that are still open at midnight are followed this far
+// into the next day; longer ones lose the rest of their events
+const ROLLUP_SESSION_OVERLAP_MS = 6 * 60 * 60 * 1000;
+
+// MongoDB's E11000 duplicate key error
+const DUPLICATE_KEY = 11000;
+
+type RollupDocument = {
+  _id: string;
+  day: string;
+  /** False while the day is still in progress; such rollups are not reused. */
+  complete: boolean;
+  computedAt: Date;
+  version: number;
+  /** Category mapping and session settings the day was built with. */
+  signature: string;
+  trackingDocuments: number;
+  items: ActivityState["items"];
+  categories: ActivityState["categories"];
+  /** Chunk set holding the day's SectionStates; replaced on every run. */
+  generation: string;
+  chunks: number;
+};
+
+type RollupChunk = {
+  _id: string;
+  day: string;
+  generation: string;
+  /** When the run that wrote this chunk set read the day it replaces. */
+  startedAt: Date;
+  index: number;
+  data: string;
+};
+
+export type RollupRunResult = {
+  days: string[];
+  trackingDocuments: number;
+};
+
+// Stored days are only comparable while category names and the way sessions
+// are formed stay the same. Price tiers are not part of it: the sections that
+// split by tier store per-item counts and apply the current cut points when
+// read. A listing moved to another category keeps its old one in stored days
+// until they are rebuilt.
+function rollupSignature(
+  categoryMap: CategoryMap,
+  opts: ResolvedAnalyticsOptions
+) {
+  const categories = createHash("sha1")
+    .update(JSON.stringify([...categoryMap.entries()].sort()))
+    .digest("hex");
+  const gap = opts.sessionMode === "inactivity" ? opts.sessionGapMinutes : null;
+  return JSON.stringify([
+    categories,
+    opts.sessionMode,
+    gap,
+    opts.recoProfiles,
+    opts.timeZone,
+  ]);
+}
+
+function rollupChunkIds(
+  rollup: Pick<RollupDocument, "day" | "generation" | "chunks">
+) {
+  return Array.from(
+    { length: rollup.chunks },
+    (_, index) => `${rollup.day}:${rollup.generation}:${index}`
+  );
+}
+
+function rollupChunkCollection(db: Db, opts: ResolvedAnalyticsOptions) {
+  return db.collection<RollupChunk>(`${opts.collections.rollups}.chunks`);
+}
+
+async function readRollupSections(
+  db: Db,
+  rollup: RollupDocument,
+  opts: ResolvedAnalyticsOptions
+): Promise<SectionStates | null> {
+  const chunks = await rollupChunkCollection(db, opts)
+    .find({ _id: { $in: rollupChunkIds(rollup) } })
+    .toArray();
+  // A partly written or pruned chunk set is treated like a missing day
+  if (chunks.length !== rollup.chunks) return null;
+  chunks.sort((a, b) => a.index - b.index);
+  return JSON.parse(chunks.map((chunk) => chunk.data).join(""));
+}
+
+// Days of the reporting time zone that the range touches
+function daysInRange(range: { from: Date; to: Date }, timeZone: string) {
+  const days: string[] = [];
+  const last = zonedDay(range.to, timeZone);
+  const cursor = new Date(`${zonedDay(range.from, timeZone)}T00:00:00.000Z`);
+  while (cursor.toISOString().slice(0, 10) <= last) {
+    days.push(cursor.toISOString().slice(0, 10));
+    cursor.setTime(cursor.getTime() + DAY_MS);
+  }
+  return days;
+}
+
+async function computeDay(
+  db: Db,
+  day: string,
+  itemMeta: ItemMeta,
+  opts: ResolvedAnalyticsOptions
+) {
+  const range = zonedDayBounds(day, opts.timeZone);
+  const activity = itemActivity(itemMeta);
+  const accumulator = createAnalyticsAccumulator(
     itemMeta,
-    transitionInfo.allTransitions
+    range,
+    { ...opts, maxSessionRows: 0 },
+    { onSession: activity.add, sortedByVisitor: true }
   );
-  const catInteractions = categoryInteractions(sessions, itemMeta);
+  // Inactivity sessions are only counted on the day they start, as in a
+  // scan of the whole range: reading past both midnights lets a session
+  // from the previous day absorb its after-midnight documents, and lets
+  // this day's late sessions keep theirs
+  const gapMs = opts.sessionGapMinutes * 60 * 1000;
+  const scan =
+    opts.sessionMode === "inactivity"
+      ? {
+          from: new Date(range.from.getTime() - gapMs),
+          to: new Date(
+            range.to.getTime() + Math.max(gapMs, ROLLUP_SESSION_OVERLAP_MS)
+          ),
+        }
+      : range;
+  let trackingDocuments = 0;
+  // Rollups must cover the whole day, so maxDocuments does not apply here
+  for await (const doc of findTracking(db, scan, opts)) {
+    const createdAt = parseDate(safeGet(doc as RawDoc, "createdAt"));
+    if (createdAt && isInRange(createdAt, range)) trackingDocuments += 1;
+    accumulator.add(doc as RawDoc);
+  }
+  return {
+    sections: accumulator.state(),
+    activity: activity.state(),
+    trackingDocuments,
+  };
+}
+
+/**
+ * Computes one rollup document per day of the reporting time zone in the
+ * range (sessions are bucketed by their start time) and upserts it by day,
+ * so re-running a day replaces its rollup instead of double counting it.
+ */
+export async function runDailyRollups(
+  db: Db,
+  range: { from: Date; to: Date },
+  options: AnalyticsOptions = {}
+): Promise<RollupRunResult> {
+  const opts = resolveOptions(options);
+  const { itemMeta, categoryMap } = await loadCatalogue(db, opts);
+  const signature = rollupSignature(categoryMap, opts);
+  const collection = db.collection<RollupDocument>(opts.collections.rollups);
+  const chunkCollection = rollupChunkCollection(db, opts);
+
+  const days = daysInRange(range, opts.timeZone);
+  let trackingDocuments = 0;
+  for (const day of days) {
+    // Runs for the same day may overlap (a scheduled run and POST
+    // /api/rollups). The day is only switched to this run's chunks if it
+    // still points where it did when the run started; otherwise the other
+    // run's rollup stays
+    const startedAt = new Date();
+    const previous = await collection.findOne({ _id: day });
+    const computed = await computeDay(db, day, itemMeta, opts);
+    trackingDocuments += computed.trackingDocuments;
+
+    // New chunks are written before the day points at them, so readers
+    // always see one complete chunk set
+    const generation = randomUUID();
+    const json = JSON.stringify(computed.sections);
+    const chunks: RollupChunk[] = [];
+    for (let at = 0; at < json.length; at += ROLLUP_CHUNK_CHARS) {
+      const index = chunks.length;
+      chunks.push({
+        _id: `${day}:${generation}:${index}`,
+        day,
+        generation,
+        startedAt,
+        index,
+        data: json.slice(at, at + ROLLUP_CHUNK_CHARS),
+      });
+    }
+    await chunkCollection.insertMany(chunks);
+
+    const rollup: RollupDocument = {
+      _id: day,
+      day,
+      // Judged from the start: events may have arrived during the scan
+      complete:
+        zonedDayBounds(day, opts.timeZone).to.getTime() < startedAt.getTime(),
+      computedAt: new Date(),
+      version: ROLLUP_VERSION,
+      signature,
+      trackingDocuments: computed.trackingDocuments,
+      items: computed.activity.items,
+      categories: computed.activity.categories,
+      generation,
+      chunks: chunks.length,
+    };
+    let swapped = true;
+    try {
+      // A day replaced meanwhile no longer matches, and the upsert then
+      // fails on the existing _id
+      await collection.replaceOne(
+        { _id: day, generation: previous?.generation ?? { $exists: false } },
+        rollup,
+        { upsert: true }
+      );
+    } catch (error) {
+      if ((error as { code?: number }).code !== DUPLICATE_KEY) throw error;
+      swapped = false;
+    }
+    // The winner prunes every other chunk set of runs that started before
+    // it (replaced, or left behind by a failed run); later runs clean up
+    // after themselves
+    await chunkCollection.deleteMany(
+      swapped
+        ? {
+            day,
+            generation: { $ne: generation },
+            startedAt: { $lt: startedAt },
+          }
+        : { day, generation }
+    );
+  }
+
+  return { days, trackingDocuments };
+}
+
+async function computeAnalyticsFromRollups(
+  db: Db,
+  range: { from: Date; to: Date },
+  opts: ResolvedAnalyticsOptions,
+  catalogue: Awaited<ReturnType<typeof loadCatalogue>>
+): Promise<AnalyticsResponse> {
+  const { itemMeta, categoryMap } = catalogue;
+  const signature = rollupSignature(categoryMap, opts);
+  const days = daysInRange(range, opts.timeZone);
+  const stored = new Map<string, RollupDocument>();
+  const rollupCursor = db
+    .collection<RollupDocument>(opts.collections.rollups)
+    .find({ _id: { $in: days } });
+  for await (const rollup of rollupCursor) {
+    stored.set(rollup._id, rollup);
+  }
+
+  const accumulator = createAnalyticsAccumulator(itemMeta, range, {
+    ...opts,
+    maxSessionRows: 0,
+  });
+  let trackingDocuments = 0;
+  let rollupDays = 0;
+  for (const day of days) {
+    const rollup = stored.get(day);
+    const usable =
+      rollup?.complete &&
+      rollup.version === ROLLUP_VERSION &&
+      rollup.signature === signature;
+    const sections = usable ? await readRollupSections(db, rollup, opts) : null;
+    if (sections) {
+      accumulator.merge(sections);
+      rollupDays += 1;
+      continue;
+    }
+    // Missing, stale or in-progress days are computed from raw, not stored
+    const computed = await computeDay(db, day, itemMeta, opts);
+    trackingDocuments += computed.trackingDocuments;
+    accumulator.merge(computed.sections);
+  }
 
+  const result = accumulator.result(catalogue);
   return {
-    sessions: sessions.map((session) => ({
-      sessionId: session.sessionId,
-      visitorId: session.visitorId,
-      country: session.country,
-      ts: session.ts.toISOString(),
-      nView: session.nView,
-      nCartAdd: session.nCartAdd,
-      nCartRemove: session.nCartRemove,
-      nCheckout: session.nCheckout,
-    })),
-    leak,
-    recos,
-    frequentBundles: bundles,
-    priceMarkov: markov.model,
-    priceMarkovMeta: {
-      tLow: markov.tLow,
-      tHigh: markov.tHigh,
-      min: markov.min,
-      max: markov.max,
-    },
-    priceBands,
-    priceRangeData,
-    categoryInteractions: catInteractions,
-    transitions: {
-      states: transitionInfo.states,
-      counts: transitionInfo.counts,
-      probs: transitionInfo.probs,
-    },
-    sankey: transitionInfo.sankey,
-    daily,
-    geoInsights,
-    itemMeta,
-    __version: VERSION,
+    ...result,
+    ingestion: {
+      ...result.ingestion,
+      trackingDocuments,
+      sessionRowsTruncated: result.summary.sessions > 0,
+      documentCapReached: false,
+      source: "rollups",
+      rollupDays,
+    },
   };
 }
 
 export async function computeAnalyticsFromMongo(
-  db: Db
+  db: Db,
+  range: DateRange = { from: null, to: null },
+  options: AnalyticsOptions = {}
 ): Promise<AnalyticsResponse> {
-  const LISTINGS_COLLECTION = "listings";
-  const TRACKING_COLLECTION = "customervisits";
-  const PRODUCT_CATEGORIES_COLLECTION = "productcategories";
-
-  const [listings, tracking, categories] = await Promise.all([
-    db.collection(LISTINGS_COLLECTION).find({}).limit(5000).toArray(),
-    db.collection(TRACKING_COLLECTION).find({}).limit(20000).toArray(),
-    db
-      .collection(PRODUCT_CATEGORIES_COLLECTION)
-      .find({})
-      .limit(10000)
-      .toArray(),
-  ]);
+  const opts = resolveOptions(options);
+  const catalogue = await loadCatalogue(db, opts);
 
-  return computeAnalyticsFromDocs(
-    tracking as RawDoc[],
-    listings as RawDoc[],
-    categories as RawDoc[]
+  const { from, to } = range;
+  if (
+    from &&
+    to &&
+    opts.rollupMinDays != null &&
+    daysInRange({ from, to }, opts.timeZone).length >= opts.rollupMinDays
+  ) {
+    return computeAnalyticsFromRollups(db, { from, to }, opts, catalogue);
+  }
+
+  const accumulator = createAnalyticsAccumulator(
+    catalogue.itemMeta,
+    range,
+    opts,
+    { sortedByVisitor: true }
   );
+  const trackingCursor =
+    opts.maxDocuments != null
+      ? findEarliestTracking(db, range, opts, opts.maxDocuments)
+      : findTracking(db, range, opts);
+  for await (const doc of trackingCursor) {
+    accumulator.add(doc as RawDoc);
+  }
+
+  return accumulator.result(catalogue);
 }
 
-export type { ItemMeta };
+export type { ItemMeta, RawDoc };
@@ -0,0 +1,8 @@
+/**
+ * Admin endpoints are open when no token is configured; otherwise the
+ * request must carry it as `Authorization: Bearer <token>`.
+ */
+export function isAuthorized(request: Request, token: string | null) {
+  if (!token) return true;
+  return request.headers.get("authorization") === `Bearer ${token}`;
+}
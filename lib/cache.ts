@@ -0,0 +1,149 @@
+import {
+  computeAnalyticsFromMongo,
+  type AnalyticsResponse,
+  type DateRange,
+} from "@/lib/analytic.service";
+import { analyticsOptionsFromConfig, getConfig } from "@/lib/config";
+import { getDb } from "@/lib/mongo";
+
+type Entry = {
+  value: AnalyticsResponse;
+  generatedAt: number;
+};
+
+type CacheState = {
+  entries: Map<string, Entry>;
+  inflight: Map<string, Promise<AnalyticsResponse>>;
+};
+
+// Survives Next.js hot reloads, like the shared Mongo client
+const globalForCache = globalThis as typeof globalThis & {
+  __analyticsCache?: CacheState;
+};
+const state: CacheState = (globalForCache.__analyticsCache ??= {
+  entries: new Map(),
+  inflight: new Map(),
+});
+
+type CacheStatus = NonNullable<AnalyticsResponse["cache"]>["status"];
+
+// Configured options, with the reporting zone overridden per request
+function snapshotOptions(timeZone?: string) {
+  const options = analyticsOptionsFromConfig(getConfig());
+  return timeZone ? { ...options, timeZone } : options;
+}
+
+// Snapshots depend on the range and every option that changes the numbers
+function cacheKey(range: DateRange, timeZone?: string) {
+  return JSON.stringify({
+    from: range.from?.toISOString() ?? null,
+    to: range.to?.toISOString() ?? null,
+    options: snapshotOptions(timeZone),
+  });
+}
+
+function withCacheInfo(
+  value: AnalyticsResponse,
+  status: CacheStatus,
+  ageSeconds: number
+): AnalyticsResponse {
+  return {
+    ...value,
+    cache: {
+      status,
+      ageSeconds: Math.round(ageSeconds),
+      ttlSeconds: getConfig().cache.ttlSeconds,
+    },
+  };
+}
+
+function store(key: string, value: AnalyticsResponse) {
+  const { maxEntries } = getConfig().cache;
+  state.entries.delete(key);
+  state.entries.set(key, {
+    value,
+    generatedAt: Date.parse(value.generatedAt) || Date.now(),
+  });
+  // Map iteration is insertion ordered, so the first key is the oldest
+  while (state.entries.size > maxEntries) {
+    const oldest = state.entries.keys().next().value;
+    if (oldest === undefined) break;
+    state.entries.delete(oldest);
+  }
+}
+
+async function computeSnapshot(range: DateRange, timeZone?: string) {
+  const db = await getDb();
+  return computeAnalyticsFromMongo(db, range, snapshotOptions(timeZone));
+}
+
+// One computation per key at a time; concurrent callers share it
+function load(
+  key: string,
+  range: DateRange,
+  timeZone?: string
+): Promise<AnalyticsResponse> {
+  let pending = state.inflight.get(key);
+  if (!pending) {
+    pending = computeSnapshot(range, timeZone)
+      .then((value) => {
+        store(key, value);
+        return value;
+      })
+      .finally(() => {
+        state.inflight.delete(key);
+      });
+    state.inflight.set(key, pending);
+  }
+  return pending;
+}
+
+/**
+ * Returns the analytics snapshot for a range, reported in `timeZone` (the
+ * configured zone when omitted). Fresh snapshots are served from memory;
+ * stale ones are served while a background refresh runs; anything older
+ * (or missing) is recomputed before returning.
+ */
+export async function getAnalyticsSnapshot(
+  range: DateRange,
+  timeZone?: string
+): Promise<AnalyticsResponse> {
+  const { ttlSeconds, staleSeconds } = getConfig().cache;
+  if (ttlSeconds === 0) {
+    return withCacheInfo(await computeSnapshot(range, timeZone), "bypass", 0);
+  }
+
+  const key = cacheKey(range, timeZone);
+  const entry = state.entries.get(key);
+  if (entry) {
+    const ageSeconds = (Date.now() - entry.generatedAt) / 1000;
+    if (ageSeconds < ttlSeconds) {
+      return withCacheInfo(entry.value, "hit", ageSeconds);
+    }
+    if (ageSeconds < ttlSeconds + staleSeconds) {
+      load(key, range, timeZone).catch((error) => {
+        console.error("[cache] background refresh failed", error);
+      });
+      return withCacheInfo(entry.value, "stale", ageSeconds);
+    }
+  }
+
+  const value = await load(key, range, timeZone);
+  return withCacheInfo(value, "miss", 0);
+}
+
+/**
+ * Drops the cached snapshot for one range and time zone, or every snapshot
+ * when no range is given. Returns how many snapshots were removed.
+ */
+export function invalidateAnalyticsSnapshots(
+  range?: DateRange,
+  timeZone?: string
+): number {
+  if (!range) {
+    const removed = state.entries.size;
+    state.entries.clear();
+    return removed;
+  }
+  return state.entries.delete(cacheKey(range, timeZone)) ? 1 : 0;
+}
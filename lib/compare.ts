@@ -0,0 +1,63 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  format,
+  parseISO,
+  subYears,
+} from "date-fns";
+
+export type DayRange = { from: string; to: string };
+
+export type ComparisonMode = "previous" | "year" | "custom";
+
+export type Delta = {
+  current: number;
+  baseline: number;
+  change: number;
+  /** Change relative to the baseline; null when the baseline is zero. */
+  relative: number | null;
+};
+
+const day = (date: Date) => format(date, "yyyy-MM-dd");
+
+/**
+ * Baseline for a yyyy-MM-dd range: the same number of days immediately
+ * before it, or the same calendar dates one year earlier.
+ */
+export function baselineRange(
+  range: DayRange,
+  mode: Exclude<ComparisonMode, "custom">
+): DayRange {
+  const from = parseISO(range.from);
+  const to = parseISO(range.to);
+  if (mode === "year") {
+    return { from: day(subYears(from, 1)), to: day(subYears(to, 1)) };
+  }
+  const days = differenceInCalendarDays(to, from) + 1;
+  return { from: day(addDays(from, -days)), to: day(addDays(from, -1)) };
+}
+
+/**
+ * Moves a baseline date onto the current range by its offset from the
+ * baseline start, so day n of both ranges lines up.
+ */
+export function alignToRange(
+  date: string,
+  baseline: DayRange,
+  current: DayRange
+): string {
+  const offset = differenceInCalendarDays(
+    parseISO(date),
+    parseISO(baseline.from)
+  );
+  return day(addDays(parseISO(current.from), offset));
+}
+
+export function delta(current: number, baseline: number): Delta {
+  return {
+    current,
+    baseline,
+    change: current - baseline,
+    relative: baseline ? (current - baseline) / baseline : null,
+  };
+}
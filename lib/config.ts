@@ -0,0 +1,554 @@
+import {
+  ANOMALY_DETECTORS,
+  DEFAULT_ANALYTICS_OPTIONS,
+  type AnalyticsOptions,
+  type AnomalyDetectorName,
+  type CollectionNames,
+  type RecoProfile,
+  type SessionMode,
+} from "@/lib/analytic.service";
+import { isValidTimeZone } from "@/lib/timezone";
+
+export type AnalyticsConfig = {
+  mongoUri: string;
+  dbName: string;
+  maxPoolSize: number;
+  collections: CollectionNames;
+  limits: {
+    batchSize: number;
+    maxDocuments: number | null;
+    maxCategories: number;
+    maxSessionRows: number;
+  };
+  anomalySigma: number;
+  /** Daily anomaly detectors and the deviation they flag at. */
+  anomalies: {
+    detectors: AnomalyDetectorName[];
+    threshold: number;
+  };
+  /** Daily Holt-Winters forecast horizon and backtest window. */
+  forecast: {
+    days: number;
+    backtestWeeks: number;
+  };
+  /** IANA zone for day buckets, date ranges and the hourly heatmap. */
+  timeZone: string;
+  /** Minimum bounded range, in days, served from daily rollups; null = off. */
+  rollupMinDays: number | null;
+  sessions: {
+    mode: SessionMode;
+    /** Idle minutes that end a session in "inactivity" mode. */
+    gapMinutes: number;
+  };
+  /** Order of the absorbing Markov chain (1 or 2). */
+  markovOrder: 1 | 2;
+  /** Event weighting profiles for weightedRecos. */
+  recoProfiles: RecoProfile[];
+  /** Thresholds for the association-rule miner. */
+  rules: {
+    minSupport: number;
+    minConfidence: number;
+    minLift: number;
+    maxItems: number;
+  };
+  /** Bearer token required by the admin endpoints (cache, rollups), if set. */
+  adminToken: string | null;
+  cache: {
+    /** Seconds a snapshot is served as fresh; 0 disables caching. */
+    ttlSeconds: number;
+    /** Extra seconds a stale snapshot is served while it refreshes. */
+    staleSeconds: number;
+    maxEntries: number;
+  };
+};
+
+export type ConfigIssue = {
+  /** Environment variable the problem was found in. */
+  key: string;
+  problem: "missing" | "invalid";
+  message: string;
+};
+
+export class ConfigError extends Error {
+  readonly issues: ConfigIssue[];
+
+  constructor(issues: ConfigIssue[]) {
+    super(
+      `Invalid analytics configuration:\n${issues
+        .map((issue) => `  - ${issue.key} (${issue.problem}): ${issue.message}`)
+        .join("\n")}`
+    );
+    this.name = "ConfigError";
+    this.issues = issues;
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+function read(env: Env, key: string): string | undefined {
+  const value = env[key]?.trim();
+  return value ? value : undefined;
+}
+
+function readName(
+  env: Env,
+  key: string,
+  fallback: string,
+  kind: "database" | "collection",
+  issues: ConfigIssue[]
+): string {
+  const value = read(env, key) ?? fallback;
+  const invalid =
+    kind === "database"
+      ? /[\s$/\\."]/.test(value)
+      : value.includes("$") || value.startsWith("system.");
+  if (invalid) {
+    issues.push({
+      key,
+      problem: "invalid",
+      message: `"${value}" is not a valid ${kind} name`,
+    });
+  }
+  return value;
+}
+
+function readInteger(
+  env: Env,
+  key: string,
+  fallback: number,
+  min: number,
+  issues: ConfigIssue[]
+): number {
+  const raw = read(env, key);
+  if (raw == null) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min) {
+    issues.push({
+      key,
+      problem: "invalid",
+      message: `expected an integer >= ${min}, got "${raw}"`,
+    });
+    return fallback;
+  }
+  return value;
+}
+
+function readDecimal(
+  env: Env,
+  key: string,
+  fallback: number,
+  min: number,
+  max: number,
+  issues: ConfigIssue[]
+): number {
+  const raw = read(env, key);
+  if (raw == null) return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min || value > max) {
+    issues.push({
+      key,
+      problem: "invalid",
+      message: `expected a number between ${min} and ${max}, got "${raw}"`,
+    });
+    return fallback;
+  }
+  return value;
+}
+
+const PROFILE_WEIGHTS = ["view", "wishlist", "cart", "checkout"] as const;
+
+// JSON array of RecoProfile objects; halfLifeDays may be omitted or null
+function readRecoProfiles(
+  env: Env,
+  key: string,
+  fallback: RecoProfile[],
+  issues: ConfigIssue[]
+): RecoProfile[] {
+  const raw = read(env, key);
+  if (raw == null) return fallback;
+  const invalid = (message: string) => {
+    issues.push({ key, problem: "invalid", message });
+    return fallback;
+  };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return invalid("expected a JSON array of profiles");
+  }
+  if (!Array.isArray(parsed) || !parsed.length) {
+    return invalid("expected a non-empty JSON array of profiles");
+  }
+  const profiles: RecoProfile[] = [];
+  for (const [index, entry] of parsed.entries()) {
+    const name = entry?.name;
+    if (typeof name !== "string" || !name.trim()) {
+      return invalid(`profile ${index} needs a name`);
+    }
+    if (profiles.some((profile) => profile.name === name)) {
+      return invalid(`profile name "${name}" is used twice`);
+    }
+    const weights = PROFILE_WEIGHTS.map((field) => entry[field]);
+    if (weights.some((w) => typeof w !== "number" || !(w >= 0))) {
+      return invalid(
+        `profile "${name}" needs non-negative ${PROFILE_WEIGHTS.join(", ")}`
+      );
+    }
+    const cartRemoval = entry.cartRemoval ?? 1;
+    if (typeof cartRemoval !== "number" || cartRemoval < 0 || cartRemoval > 1) {
+      return invalid(`profile "${name}": cartRemoval must be between 0 and 1`);
+    }
+    const halfLifeDays = entry.halfLifeDays ?? null;
+    if (
+      halfLifeDays !== null &&
+      (typeof halfLifeDays !== "number" || !(halfLifeDays > 0))
+    ) {
+      return invalid(`profile "${name}": halfLifeDays must be positive`);
+    }
+    const [view, wishlist, cart, checkout] = weights as number[];
+    profiles.push({
+      name,
+      view,
+      wishlist,
+      cart,
+      checkout,
+      cartRemoval,
+      halfLifeDays,
+    });
+  }
+  return profiles;
+}
+
+/**
+ * Reads and validates every analytics setting from the environment,
+ * collecting all problems before throwing a single ConfigError.
+ *
+ * `MONGODB_URI` is the documented name; `MONGO_URI` is still accepted.
+ */
+export function loadConfig(env: Env = process.env): AnalyticsConfig {
+  const issues: ConfigIssue[] = [];
+  const defaults = DEFAULT_ANALYTICS_OPTIONS;
+
+  const mongoUri = read(env, "MONGODB_URI") ?? read(env, "MONGO_URI") ?? "";
+  if (!mongoUri) {
+    issues.push({
+      key: "MONGODB_URI",
+      problem: "missing",
+      message: "MongoDB connection string is required",
+    });
+  } else if (!/^mongodb(\+srv)?:\/\//.test(mongoUri)) {
+    issues.push({
+      key: read(env, "MONGODB_URI") ? "MONGODB_URI" : "MONGO_URI",
+      problem: "invalid",
+      message: "must start with mongodb:// or mongodb+srv://",
+    });
+  }
+
+  const dbName = readName(env, "DB_NAME", "BMR", "database", issues);
+  const maxPoolSize = readInteger(env, "MONGODB_MAX_POOL_SIZE", 5, 1, issues);
+  const collections: CollectionNames = {
+    tracking: readName(
+      env,
+      "TRACKING_COLLECTION",
+      defaults.collections.tracking,
+      "collection",
+      issues
+    ),
+    listings: readName(
+      env,
+      "LISTINGS_COLLECTION",
+      defaults.collections.listings,
+      "collection",
+      issues
+    ),
+    productCategories: readName(
+      env,
+      "PRODUCT_CATEGORIES_COLLECTION",
+      defaults.collections.productCategories,
+      "collection",
+      issues
+    ),
+    rollups: readName(
+      env,
+      "ROLLUPS_COLLECTION",
+      defaults.collections.rollups,
+      "collection",
+      issues
+    ),
+  };
+
+  const limits = {
+    batchSize: readInteger(
+      env,
+      "ANALYTICS_BATCH_SIZE",
+      defaults.batchSize,
+      1,
+      issues
+    ),
+    // Unset means no cap on the tracking scan
+    maxDocuments:
+      read(env, "ANALYTICS_MAX_DOCUMENTS") == null
+        ? defaults.maxDocuments
+        : readInteger(env, "ANALYTICS_MAX_DOCUMENTS", 1, 1, issues),
+    maxCategories: readInteger(
+      env,
+      "ANALYTICS_MAX_CATEGORIES",
+      defaults.maxCategories,
+      1,
+      issues
+    ),
+    maxSessionRows: readInteger(
+      env,
+      "ANALYTICS_MAX_SESSION_ROWS",
+      defaults.maxSessionRows,
+      0,
+      issues
+    ),
+  };
+
+  let anomalySigma = defaults.anomalySigma;
+  const rawSigma = read(env, "ANOMALY_SIGMA");
+  if (rawSigma != null) {
+    const value = Number(rawSigma);
+    if (!Number.isFinite(value) || value <= 0) {
+      issues.push({
+        key: "ANOMALY_SIGMA",
+        problem: "invalid",
+        message: `expected a positive number, got "${rawSigma}"`,
+      });
+    } else {
+      anomalySigma = value;
+    }
+  }
+
+  // Comma-separated detector names; "none" turns them all off
+  let detectors = defaults.anomalyDetectors;
+  const rawDetectors = read(env, "ANALYTICS_ANOMALY_DETECTORS");
+  if (rawDetectors === "none") {
+    detectors = [];
+  } else if (rawDetectors != null) {
+    const names = rawDetectors.split(",").map((name) => name.trim());
+    const unknown = names.filter(
+      (name) => !Object.keys(ANOMALY_DETECTORS).includes(name)
+    );
+    if (unknown.length) {
+      issues.push({
+        key: "ANALYTICS_ANOMALY_DETECTORS",
+        problem: "invalid",
+        message: `unknown detector(s) ${unknown
+          .map((name) => `"${name}"`)
+          .join(", ")}; expected ${Object.keys(ANOMALY_DETECTORS).join(
+          ", "
+        )} or "none"`,
+      });
+    } else {
+      detectors = [...new Set(names)] as AnomalyDetectorName[];
+    }
+  }
+  const anomalies = {
+    detectors,
+    threshold: readDecimal(
+      env,
+      "ANALYTICS_ANOMALY_THRESHOLD",
+      defaults.anomalyThreshold,
+      1,
+      20,
+      issues
+    ),
+  };
+
+  const forecast = {
+    days: readInteger(
+      env,
+      "ANALYTICS_FORECAST_DAYS",
+      defaults.forecastDays,
+      1,
+      issues
+    ),
+    backtestWeeks: readInteger(
+      env,
+      "ANALYTICS_FORECAST_BACKTEST_WEEKS",
+      defaults.forecastBacktestWeeks,
+      0,
+      issues
+    ),
+  };
+  if (forecast.days > 90) {
+    issues.push({
+      key: "ANALYTICS_FORECAST_DAYS",
+      problem: "invalid",
+      message: `expected at most 90 days, got ${forecast.days}`,
+    });
+  }
+
+  const timeZone = read(env, "ANALYTICS_TIMEZONE") ?? defaults.timeZone;
+  if (!isValidTimeZone(timeZone)) {
+    issues.push({
+      key: "ANALYTICS_TIMEZONE",
+      problem: "invalid",
+      message: `"${timeZone}" is not an IANA time zone such as "Europe/London"`,
+    });
+  }
+
+  // Unset keeps every request on the raw tracking scan
+  const rollupMinDays =
+    read(env, "ANALYTICS_ROLLUP_MIN_DAYS") == null
+      ? defaults.rollupMinDays
+      : readInteger(env, "ANALYTICS_ROLLUP_MIN_DAYS", 1, 1, issues);
+
+  const rawMode = read(env, "ANALYTICS_SESSION_MODE");
+  let sessionMode: SessionMode = defaults.sessionMode;
+  if (rawMode === "document" || rawMode === "inactivity") {
+    sessionMode = rawMode;
+  } else if (rawMode != null) {
+    issues.push({
+      key: "ANALYTICS_SESSION_MODE",
+      problem: "invalid",
+      message: `expected "document" or "inactivity", got "${rawMode}"`,
+    });
+  }
+  const sessions = {
+    mode: sessionMode,
+    gapMinutes: readInteger(
+      env,
+      "ANALYTICS_SESSION_GAP_MINUTES",
+      defaults.sessionGapMinutes,
+      1,
+      issues
+    ),
+  };
+
+  const rawOrder = read(env, "ANALYTICS_MARKOV_ORDER");
+  let markovOrder = defaults.markovOrder;
+  if (rawOrder === "1" || rawOrder === "2") {
+    markovOrder = Number(rawOrder) as 1 | 2;
+  } else if (rawOrder != null) {
+    issues.push({
+      key: "ANALYTICS_MARKOV_ORDER",
+      problem: "invalid",
+      message: `expected 1 or 2, got "${rawOrder}"`,
+    });
+  }
+
+  const recoProfiles = readRecoProfiles(
+    env,
+    "ANALYTICS_RECO_PROFILES",
+    defaults.recoProfiles,
+    issues
+  );
+
+  const rules = {
+    minSupport: readDecimal(
+      env,
+      "ANALYTICS_RULE_MIN_SUPPORT",
+      defaults.ruleMinSupport,
+      0,
+      1,
+      issues
+    ),
+    minConfidence: readDecimal(
+      env,
+      "ANALYTICS_RULE_MIN_CONFIDENCE",
+      defaults.ruleMinConfidence,
+      0,
+      1,
+      issues
+    ),
+    minLift: readDecimal(
+      env,
+      "ANALYTICS_RULE_MIN_LIFT",
+      defaults.ruleMinLift,
+      0,
+      Number.MAX_VALUE,
+      issues
+    ),
+    maxItems: readInteger(
+      env,
+      "ANALYTICS_RULE_MAX_ITEMS",
+      defaults.ruleMaxItems,
+      2,
+      issues
+    ),
+  };
+  if (rules.maxItems > 5) {
+    issues.push({
+      key: "ANALYTICS_RULE_MAX_ITEMS",
+      problem: "invalid",
+      message: `expected at most 5 items, got ${rules.maxItems}`,
+    });
+  }
+
+  // ANALYTICS_CACHE_TOKEN predates the rollup endpoint and is still accepted
+  const adminToken =
+    read(env, "ANALYTICS_ADMIN_TOKEN") ??
+    read(env, "ANALYTICS_CACHE_TOKEN") ??
+    null;
+
+  const cache = {
+    ttlSeconds: readInteger(env, "ANALYTICS_CACHE_TTL_SECONDS", 300, 0, issues),
+    staleSeconds: readInteger(
+      env,
+      "ANALYTICS_CACHE_STALE_SECONDS",
+      3600,
+      0,
+      issues
+    ),
+    maxEntries: readInteger(env, "ANALYTICS_CACHE_MAX_ENTRIES", 50, 1, issues),
+  };
+
+  if (issues.length) {
+    throw new ConfigError(issues);
+  }
+
+  return {
+    mongoUri,
+    dbName,
+    maxPoolSize,
+    collections,
+    limits,
+    anomalySigma,
+    anomalies,
+    forecast,
+    timeZone,
+    rollupMinDays,
+    sessions,
+    markovOrder,
+    recoProfiles,
+    rules,
+    adminToken,
+    cache,
+  };
+}
+
+let cached: AnalyticsConfig | null = null;
+
+/** Validated configuration for this process; throws ConfigError if invalid. */
+export function getConfig(): AnalyticsConfig {
+  cached ??= loadConfig();
+  return cached;
+}
+
+export function analyticsOptionsFromConfig(
+  config: AnalyticsConfig
+): AnalyticsOptions {
+  return {
+    collections: config.collections,
+    ...config.limits,
+    anomalySigma: config.anomalySigma,
+    anomalyDetectors: config.anomalies.detectors,
+    anomalyThreshold: config.anomalies.threshold,
+    forecastDays: config.forecast.days,
+    forecastBacktestWeeks: config.forecast.backtestWeeks,
+    timeZone: config.timeZone,
+    rollupMinDays: config.rollupMinDays,
+    sessionMode: config.sessions.mode,
+    sessionGapMinutes: config.sessions.gapMinutes,
+    markovOrder: config.markovOrder,
+    recoProfiles: config.recoProfiles,
+    ruleMinSupport: config.rules.minSupport,
+    ruleMinConfidence: config.rules.minConfidence,
+    ruleMinLift: config.rules.minLift,
+    ruleMaxItems: config.rules.maxItems,
+  };
+}
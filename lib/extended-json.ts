@@ -0,0 +1,119 @@
+import type { RawDoc } from "@/lib/analytic.service";
+
+const NUMBER_WRAPPERS = [
+  "$numberInt",
+  "$numberLong",
+  "$numberDouble",
+  "$numberDecimal",
+];
+
+export class ExportParseError extends Error {
+  /** 1-based line of the offending NDJSON record, when known. */
+  readonly line: number | null;
+
+  constructor(message: string, line: number | null = null) {
+    super(line == null ? message : `line ${line}: ${message}`);
+    this.name = "ExportParseError";
+    this.line = line;
+  }
+}
+
+/**
+ * JSON.parse reviver for Mongo Extended JSON (canonical or relaxed).
+ * Numeric wrappers become plain numbers; `$oid` and `$date` are kept as-is
+ * because strId and parseDate already understand them. Revivers run
+ * bottom-up, so `{ $date: { $numberLong } }` ends up as `{ $date: millis }`.
+ */
+export function reviveExtendedJson(_key: string, value: unknown): unknown {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return value;
+  }
+  const keys = Object.keys(value);
+  if (keys.length === 1 && NUMBER_WRAPPERS.includes(keys[0])) {
+    return Number((value as Record<string, unknown>)[keys[0]]);
+  }
+  return value;
+}
+
+function parseDocument(text: string, line: number | null): RawDoc {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text, reviveExtendedJson);
+  } catch (error) {
+    throw new ExportParseError((error as Error).message, line);
+  }
+  if (!doc || typeof doc !== "object" || Array.isArray(doc)) {
+    throw new ExportParseError("expected a JSON object", line);
+  }
+  return doc as RawDoc;
+}
+
+function parseArray(text: string): RawDoc[] {
+  let docs: unknown;
+  try {
+    docs = JSON.parse(text, reviveExtendedJson);
+  } catch (error) {
+    throw new ExportParseError((error as Error).message);
+  }
+  if (!Array.isArray(docs)) {
+    throw new ExportParseError("expected a JSON array of documents");
+  }
+  return docs as RawDoc[];
+}
+
+/**
+ * Parses a whole export: a JSON array (`mongoexport --jsonArray`) or
+ * NDJSON with one document per line (the `mongoexport` default).
+ */
+export function parseExtendedJson(text: string): RawDoc[] {
+  if (text.trimStart().startsWith("[")) return parseArray(text);
+  const docs: RawDoc[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim()) docs.push(parseDocument(line, index + 1));
+  });
+  return docs;
+}
+
+/**
+ * Streaming counterpart of parseExtendedJson. NDJSON input is yielded one
+ * document at a time; a JSON array has to be buffered and parsed whole.
+ * Buffer chunks are decoded as one UTF-8 stream, so characters split across
+ * chunk boundaries survive.
+ */
+export async function* readExtendedJson(
+  chunks: AsyncIterable<string | Buffer>
+): AsyncGenerator<RawDoc> {
+  const decoder = new TextDecoder("utf-8");
+  let buffer = "";
+  let mode: "unknown" | "array" | "lines" = "unknown";
+  let line = 0;
+
+  for await (const chunk of chunks) {
+    buffer +=
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+    if (mode === "unknown") {
+      const start = buffer.trimStart();
+      if (!start) continue;
+      mode = start.startsWith("[") ? "array" : "lines";
+    }
+    if (mode === "array") continue;
+
+    let newline = buffer.indexOf("\n");
+    while (newline !== -1) {
+      line += 1;
+      const text = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 1);
+      if (text.trim()) yield parseDocument(text, line);
+      newline = buffer.indexOf("\n");
+    }
+  }
+
+  buffer += decoder.decode();
+  if (mode === "array") {
+    yield* parseArray(buffer);
+  } else if (buffer.trim()) {
+    yield parseDocument(buffer, line + 1);
+  }
+}
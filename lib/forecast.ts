@@ -0,0 +1,175 @@
+export type ForecastPoint = {
+  value: number;
+  /** Prediction interval; counts are never projected below zero. */
+  lower: number;
+  upper: number;
+};
+
+export type HoltWintersParams = {
+  alpha: number;
+  beta: number;
+  gamma: number;
+  /** Trend damping, so long horizons level off instead of running away. */
+  phi: number;
+};
+
+export type SeriesForecast = {
+  points: ForecastPoint[];
+  params: HoltWintersParams;
+  /** Standard deviation of the in-sample one-step errors. */
+  sigma: number;
+  /**
+   * Refit without the trailing days and forecast them; mape is null when
+   * those days were all zero (or there was too little history to hold out).
+   */
+  backtest: { days: number; evaluatedDays: number; mape: number | null };
+};
+
+type ForecastOptions = {
+  horizon: number;
+  /** Season length in observations (7 for weekly seasonality on days). */
+  season?: number;
+  /** Trailing observations held out for the backtest; 0 skips it. */
+  backtestDays?: number;
+  /** z of the two-sided prediction interval (1.96 for 95%). */
+  z?: number;
+};
+
+const ALPHAS = [0.1, 0.2, 0.3, 0.5, 0.7];
+const BETAS = [0.01, 0.05, 0.1, 0.2];
+const GAMMAS = [0.05, 0.1, 0.2, 0.4];
+const PHI = 0.95;
+
+type FittedModel = {
+  params: HoltWintersParams;
+  level: number;
+  trend: number;
+  /** Seasonal terms of the last `season` observations, oldest first. */
+  seasonal: number[];
+  sse: number;
+  errors: number;
+};
+
+// Additive damped Holt-Winters, initialised from the first two seasons
+function fitModel(
+  values: number[],
+  season: number,
+  params: HoltWintersParams
+): FittedModel {
+  const { alpha, beta, gamma, phi } = params;
+  const first = values.slice(0, season);
+  const second = values.slice(season, 2 * season);
+  const meanOf = (list: number[]) =>
+    list.reduce((sum, value) => sum + value, 0) / list.length;
+  let level = meanOf(first);
+  let trend = (meanOf(second) - level) / season;
+  const seasonal = first.map((value) => value - level);
+
+  let sse = 0;
+  for (let t = season; t < values.length; t += 1) {
+    const prior = seasonal[t - season];
+    const error = values[t] - (level + phi * trend + prior);
+    sse += error * error;
+    const nextLevel =
+      alpha * (values[t] - prior) + (1 - alpha) * (level + phi * trend);
+    trend = beta * (nextLevel - level) + (1 - beta) * phi * trend;
+    level = nextLevel;
+    seasonal.push(gamma * (values[t] - level) + (1 - gamma) * prior);
+  }
+  return {
+    params,
+    level,
+    trend,
+    seasonal: seasonal.slice(-season),
+    sse,
+    errors: values.length - season,
+  };
+}
+
+// Grid search on the in-sample one-step squared error
+function bestModel(values: number[], season: number) {
+  let best: FittedModel | null = null;
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const gamma of GAMMAS) {
+        const model = fitModel(values, season, {
+          alpha,
+          beta,
+          gamma,
+          phi: PHI,
+        });
+        if (!best || model.sse < best.sse) best = model;
+      }
+    }
+  }
+  return best as FittedModel;
+}
+
+function project(model: FittedModel, horizon: number, z: number) {
+  const { alpha, beta, gamma, phi } = model.params;
+  const season = model.seasonal.length;
+  const sigma = model.errors > 0 ? Math.sqrt(model.sse / model.errors) : 0;
+  const points: ForecastPoint[] = [];
+  let damped = 0;
+  // Variance grows by c_j² per step (additive ETS with damped trend)
+  let varianceFactor = 1;
+  for (let h = 1; h <= horizon; h += 1) {
+    damped += Math.pow(phi, h);
+    const value = Math.max(
+      0,
+      model.level + damped * model.trend + model.seasonal[(h - 1) % season]
+    );
+    const half = z * sigma * Math.sqrt(varianceFactor);
+    points.push({
+      value,
+      lower: Math.max(0, value - half),
+      upper: value + half,
+    });
+    const c =
+      alpha * (1 + beta * damped) +
+      (h % season === 0 ? gamma * (1 - alpha) : 0);
+    varianceFactor += c * c;
+  }
+  return { points, sigma };
+}
+
+/**
+ * Holt-Winters projection of `values` (oldest first) with prediction
+ * intervals and a trailing backtest. Needs two full seasons of history;
+ * returns null otherwise.
+ */
+export function forecastSeries(
+  values: number[],
+  options: ForecastOptions
+): SeriesForecast | null {
+  const { horizon, season = 7, backtestDays = 0, z = 1.96 } = options;
+  if (values.length < 2 * season || horizon < 1) return null;
+
+  const model = bestModel(values, season);
+  const { points, sigma } = project(model, horizon, z);
+
+  const backtest: SeriesForecast["backtest"] = {
+    days: backtestDays,
+    evaluatedDays: 0,
+    mape: null,
+  };
+  const training = values.slice(0, values.length - backtestDays);
+  if (backtestDays > 0 && training.length >= 2 * season) {
+    const held = values.slice(-backtestDays);
+    const predicted = project(
+      bestModel(training, season),
+      backtestDays,
+      z
+    ).points;
+    let total = 0;
+    held.forEach((actual, index) => {
+      // Percentage errors are undefined on zero days
+      if (actual <= 0) return;
+      total += Math.abs(actual - predicted[index].value) / actual;
+      backtest.evaluatedDays += 1;
+    });
+    if (backtest.evaluatedDays) backtest.mape = total / backtest.evaluatedDays;
+  }
+
+  return { points, params: model.params, sigma, backtest };
+}
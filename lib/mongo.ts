@@ -0,0 +1,122 @@
+import { MongoClient, type Db } from "mongodb";
+import { getConfig } from "@/lib/config";
+
+type MongoState = {
+  client: MongoClient | null;
+  connecting: Promise<MongoClient> | null;
+  shutdownHooked: boolean;
+};
+
+// Kept on globalThis so Next.js hot reloads reuse the pool instead of
+// leaking a new client every time this module is re-evaluated.
+const globalForMongo = globalThis as typeof globalThis & {
+  __analyticsMongo?: MongoState;
+};
+const state: MongoState = (globalForMongo.__analyticsMongo ??= {
+  client: null,
+  connecting: null,
+  shutdownHooked: false,
+});
+
+const CONNECT_ATTEMPTS = 5;
+const BASE_DELAY_MS = 250;
+const MAX_DELAY_MS = 5000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function connectWithBackoff(): Promise<MongoClient> {
+  const config = getConfig();
+  let lastError: unknown;
+  for (let attempt = 0; attempt < CONNECT_ATTEMPTS; attempt += 1) {
+    const client = new MongoClient(config.mongoUri, {
+      maxPoolSize: config.maxPoolSize,
+    });
+    try {
+      await client.connect();
+      return client;
+    } catch (error) {
+      lastError = error;
+      await client.close().catch(() => undefined);
+      if (attempt < CONNECT_ATTEMPTS - 1) {
+        const delay = Math.min(BASE_DELAY_MS * 2 ** attempt, MAX_DELAY_MS);
+        const tries = `${attempt + 1}/${CONNECT_ATTEMPTS}`;
+        console.warn(`[mongo] connect ${tries} failed, retry in ${delay}ms`);
+        await sleep(delay);
+      }
+    }
+  }
+  throw lastError;
+}
+
+function hookShutdown() {
+  if (state.shutdownHooked) return;
+  state.shutdownHooked = true;
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.once(signal, () => {
+      // `next start` has its own handler: it lets in-flight requests finish
+      // on the pool and then exits, which drops the connections anyway
+      if (process.listenerCount(signal) > 0) return;
+      // Alone (scripts, NEXT_MANUAL_SIG_HANDLE, custom servers) this listener
+      // replaced Node's exit on the signal, so raise it again once closed
+      void closeMongoClient().finally(() => process.kill(process.pid, signal));
+    });
+  }
+}
+
+/**
+ * Returns the shared client, connecting lazily on first use. Concurrent
+ * callers share one in-flight connection attempt.
+ */
+export async function getMongoClient(): Promise<MongoClient> {
+  if (state.client) return state.client;
+  state.connecting ??= connectWithBackoff()
+    .then((client) => {
+      state.client = client;
+      hookShutdown();
+      return client;
+    })
+    .finally(() => {
+      state.connecting = null;
+    });
+  return state.connecting;
+}
+
+export async function getDb(): Promise<Db> {
+  const client = await getMongoClient();
+  return client.db(getConfig().dbName);
+}
+
+export type MongoHealth = {
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+};
+
+/**
+ * Pings the server over the shared client. A failed ping only reports the
+ * outage: the client stays open for requests already using it, the driver
+ * reconnects to the server on its own, and a client that never connected is
+ * retried with backoff by the next getMongoClient() call.
+ */
+export async function checkMongoHealth(): Promise<MongoHealth> {
+  const started = Date.now();
+  try {
+    const db = await getDb();
+    await db.command({ ping: 1 });
+    return { ok: true, latencyMs: Date.now() - started };
+  } catch (error) {
+    return {
+      ok: false,
+      latencyMs: Date.now() - started,
+      error: String((error as Error)?.message ?? error),
+    };
+  }
+}
+
+export async function closeMongoClient(): Promise<void> {
+  const client = state.client;
+  state.client = null;
+  if (client) {
+    await client.close().catch(() => undefined);
+  }
+}
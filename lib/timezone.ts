@@ -0,0 +1,121 @@
+export type ZonedParts = {
+  /** Calendar day in the zone, yyyy-MM-dd. */
+  day: string;
+  hour: number;
+  /** 0 = Monday … 6 = Sunday. */
+  weekday: number;
+};
+
+export const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Zone offsets are whole quarter hours, so parts are constant within one
+const QUARTER_HOUR_MS = 15 * 60 * 1000;
+const MAX_CACHED = 20000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const partsCache = new Map<string, Map<number, ZonedParts>>();
+
+function formatter(timeZone: string) {
+  let format = formatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      weekday: "short",
+    });
+    formatters.set(timeZone, format);
+  }
+  return format;
+}
+
+function wallClock(date: Date, timeZone: string) {
+  const parts: Record<string, string> = {};
+  for (const part of formatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return parts;
+}
+
+/** True for IANA zone names (and "UTC") that this runtime knows. */
+export function isValidTimeZone(timeZone: string) {
+  try {
+    formatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Day, hour and weekday of an instant as seen in `timeZone`. */
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+  let cache = partsCache.get(timeZone);
+  if (!cache) {
+    cache = new Map();
+    partsCache.set(timeZone, cache);
+  }
+  const bucket = Math.floor(date.getTime() / QUARTER_HOUR_MS);
+  let parts = cache.get(bucket);
+  if (!parts) {
+    const wall = wallClock(new Date(bucket * QUARTER_HOUR_MS), timeZone);
+    parts = {
+      day: `${wall.year}-${wall.month}-${wall.day}`,
+      hour: Number(wall.hour),
+      weekday: WEEKDAYS.indexOf(wall.weekday),
+    };
+    if (cache.size >= MAX_CACHED) cache.clear();
+    cache.set(bucket, parts);
+  }
+  return parts;
+}
+
+export function zonedDay(date: Date, timeZone: string) {
+  return zonedParts(date, timeZone).day;
+}
+
+// Wall-clock time minus UTC at an instant, in milliseconds
+function offsetAt(ms: number, timeZone: string) {
+  const wall = wallClock(new Date(ms), timeZone);
+  const asUtc = Date.UTC(
+    Number(wall.year),
+    Number(wall.month) - 1,
+    Number(wall.day),
+    Number(wall.hour),
+    Number(wall.minute),
+    Number(wall.second)
+  );
+  return asUtc - Math.floor(ms / 1000) * 1000;
+}
+
+/**
+ * First instant of a yyyy-MM-dd day in `timeZone`. On days where clocks
+ * skip midnight this is the first wall-clock time that exists.
+ */
+export function startOfZonedDay(day: string, timeZone: string): Date {
+  const midnight = Date.parse(`${day}T00:00:00.000Z`);
+  const guess = midnight - offsetAt(midnight, timeZone);
+  // Second pass picks up a DST change between UTC and local midnight
+  let start = midnight - offsetAt(guess, timeZone);
+  // Midnight fell in a gap: the day begins when the clocks jump
+  while (zonedParts(new Date(start), timeZone).day < day) {
+    start += QUARTER_HOUR_MS;
+  }
+  return new Date(start);
+}
+
+/** First and last millisecond of a yyyy-MM-dd day in `timeZone`. */
+export function zonedDayBounds(day: string, timeZone: string) {
+  const next = new Date(Date.parse(`${day}T00:00:00.000Z`) + DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+  return {
+    from: startOfZonedDay(day, timeZone),
+    to: new Date(startOfZonedDay(next, timeZone).getTime() - 1),
+  };
+}
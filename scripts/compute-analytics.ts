@@ -0,0 +1,196 @@
+import { createReadStream, readFileSync, writeFileSync } from "fs";
+import { parseArgs } from "util";
+import {
+  ANOMALY_DETECTORS,
+  computeAnalyticsFromDocStream,
+  parseDateRange,
+  SessionBufferError,
+  type AnalyticsOptions,
+  type AnomalyDetectorName,
+} from "@/lib/analytic.service";
+import {
+  ExportParseError,
+  parseExtendedJson,
+  readExtendedJson,
+} from "@/lib/extended-json";
+import { isValidTimeZone } from "@/lib/timezone";
+
+const USAGE = `Usage: npm run analytics -- [options]
+
+Computes the AnalyticsResponse offline from mongoexport dumps
+(NDJSON or --jsonArray, canonical or relaxed Extended JSON).
+
+  --tracking <file>       customervisits export; "-" or omitted reads stdin
+  --listings <file>       listings export
+  --categories <file>     productcategories export
+  --from <YYYY-MM-DD>     first day to include
+  --to <YYYY-MM-DD>       last day to include
+  --timezone <zone>       IANA zone for days, hours and --from/--to
+                          (default UTC)
+  --max-session-rows <n>  compact session rows to keep (default 20000)
+  --anomaly-sigma <n>     daily cart band in σ (default 2)
+  --anomaly-detectors <list>
+                          comma-separated mad,stl,ewma or "none"
+                          (default: all three)
+  --anomaly-threshold <n> deviation the detectors flag at (default 3.5)
+  --forecast-days <n>     days projected by the daily forecast (default 14)
+  --session-gap <min>     sessionize per visitor after <min> idle minutes
+                          (default: one session per tracking document)
+  --sorted-by-visitor     the tracking export is sorted by visitor
+                          (mongoexport --sort '{visitorId: 1, createdAt: 1}');
+                          --session-gap then holds one visitor at a time
+                          instead of at most 250000 documents
+  --markov-order <1|2>    order of the absorbing conversion chain (default 1)
+  --min-support <share>   association rules: minimum itemset support
+  --min-confidence <p>    association rules: minimum confidence
+  --out <file>            write the JSON here instead of stdout
+  --pretty                indent the JSON output
+  --help                  show this message`;
+
+function fail(message: string): never {
+  console.error(`error: ${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function readDocuments(path: string | undefined) {
+  if (!path) return [];
+  return parseExtendedJson(readFileSync(path, "utf8"));
+}
+
+function readNumber(name: string, raw: string | undefined, min: number) {
+  if (raw == null) return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min) {
+    fail(`--${name} expects a number >= ${min}, got "${raw}"`);
+  }
+  return value;
+}
+
+async function main() {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      options: {
+        tracking: { type: "string" },
+        listings: { type: "string" },
+        categories: { type: "string" },
+        from: { type: "string" },
+        to: { type: "string" },
+        timezone: { type: "string" },
+        "max-session-rows": { type: "string" },
+        "anomaly-sigma": { type: "string" },
+        "anomaly-detectors": { type: "string" },
+        "anomaly-threshold": { type: "string" },
+        "forecast-days": { type: "string" },
+        "session-gap": { type: "string" },
+        "sorted-by-visitor": { type: "boolean", default: false },
+        "markov-order": { type: "string" },
+        "min-support": { type: "string" },
+        "min-confidence": { type: "string" },
+        out: { type: "string" },
+        pretty: { type: "boolean", default: false },
+        help: { type: "boolean", default: false },
+      },
+    });
+  } catch (error) {
+    fail((error as Error).message);
+  }
+  const args = parsed.values;
+  if (args.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const timeZone = args.timezone;
+  if (timeZone != null && !isValidTimeZone(timeZone)) {
+    fail(
+      `--timezone expects an IANA zone such as Europe/London, got "${timeZone}"`
+    );
+  }
+  const range = parseDateRange(args.from, args.to, timeZone);
+  if (!range.ok) fail(range.error);
+
+  const options: AnalyticsOptions = {
+    maxSessionRows: readNumber("max-session-rows", args["max-session-rows"], 0),
+    anomalySigma: readNumber("anomaly-sigma", args["anomaly-sigma"], 0),
+    anomalyThreshold: readNumber(
+      "anomaly-threshold",
+      args["anomaly-threshold"],
+      1
+    ),
+    forecastDays: readNumber("forecast-days", args["forecast-days"], 1),
+    sessionGapMinutes: readNumber("session-gap", args["session-gap"], 1),
+    trackingSortedByVisitor: args["sorted-by-visitor"] || undefined,
+    ruleMinSupport: readNumber("min-support", args["min-support"], 0),
+    ruleMinConfidence: readNumber("min-confidence", args["min-confidence"], 0),
+    timeZone,
+  };
+  if (
+    options.forecastDays !== undefined &&
+    (!Number.isInteger(options.forecastDays) || options.forecastDays > 90)
+  ) {
+    fail(
+      `--forecast-days expects a whole number up to 90, got "${args["forecast-days"]}"`
+    );
+  }
+  if (options.sessionGapMinutes !== undefined) {
+    options.sessionMode = "inactivity";
+  }
+  const order = args["markov-order"];
+  if (order != null) {
+    if (order !== "1" && order !== "2") {
+      fail(`--markov-order expects 1 or 2, got "${order}"`);
+    }
+    options.markovOrder = order === "2" ? 2 : 1;
+  }
+  const detectors = args["anomaly-detectors"];
+  if (detectors != null) {
+    const names = detectors === "none" ? [] : detectors.split(",");
+    const unknown = names.filter(
+      (name) => !Object.keys(ANOMALY_DETECTORS).includes(name)
+    );
+    if (unknown.length) {
+      fail(`--anomaly-detectors: unknown detector(s) ${unknown.join(", ")}`);
+    }
+    options.anomalyDetectors = names as AnomalyDetectorName[];
+  }
+  for (const key of Object.keys(options) as Array<keyof AnalyticsOptions>) {
+    if (options[key] === undefined) delete options[key];
+  }
+
+  if (!args.listings) {
+    console.warn("warning: no --listings given; items will have no metadata");
+  }
+  const listings = readDocuments(args.listings);
+  const categories = readDocuments(args.categories);
+  const tracking =
+    !args.tracking || args.tracking === "-"
+      ? process.stdin
+      : createReadStream(args.tracking);
+
+  const analytics = await computeAnalyticsFromDocStream(
+    readExtendedJson(tracking),
+    listings,
+    categories,
+    range.range,
+    options
+  );
+
+  const json = JSON.stringify(analytics, null, args.pretty ? 2 : undefined);
+  if (args.out) {
+    writeFileSync(args.out, `${json}\n`);
+  } else {
+    process.stdout.write(`${json}\n`);
+  }
+}
+
+main().catch((error) => {
+  if (error instanceof ExportParseError) {
+    console.error(`error: could not parse export (${error.message})`);
+  } else if (error instanceof SessionBufferError) {
+    console.error(`error: ${error.message}`);
+  } else {
+    console.error(error);
+  }
+  process.exit(1);
+});
@@ -0,0 +1,186 @@
+import { createReadStream, readFileSync, writeFileSync } from "fs";
+import { parseArgs } from "util";
+import {
+  evaluateRecommendations,
+  parseDateRange,
+  SessionBufferError,
+  type EvaluationOptions,
+} from "@/lib/analytic.service";
+import {
+  ExportParseError,
+  parseExtendedJson,
+  readExtendedJson,
+} from "@/lib/extended-json";
+
+const USAGE = `Usage: npm run evaluate-recos -- [options]
+
+Evaluates the item recommenders offline on mongoexport dumps: sessions are
+split by start time, scorers are trained on the earlier ones and must
+recover the last item(s) of each later session from the others.
+
+  --tracking <file>       customervisits export; "-" or omitted reads stdin
+  --listings <file>       listings export
+  --categories <file>     productcategories export
+  --from <YYYY-MM-DD>     first UTC day to include
+  --to <YYYY-MM-DD>       last UTC day to include
+  --split-at <date>       sessions starting from this ISO date are tested
+  --train-share <share>   without --split-at, earliest share used for
+                          training (default 0.8)
+  --k <list>              comma-separated cutoffs (default 5,10)
+  --holdout <n>           distinct items hidden per test session (default 1)
+  --session-gap <min>     sessionize per visitor after <min> idle minutes
+                          (default: one session per tracking document)
+  --sorted-by-visitor     the tracking export is sorted by visitor
+                          (mongoexport --sort '{visitorId: 1, createdAt: 1}');
+                          --session-gap then holds one visitor at a time
+                          instead of at most 250000 documents
+  --json                  print the full result as JSON instead of a table
+  --out <file>            write the JSON here (implies --json)
+  --help                  show this message`;
+
+function fail(message: string): never {
+  console.error(`error: ${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function readDocuments(path: string | undefined) {
+  if (!path) return [];
+  return parseExtendedJson(readFileSync(path, "utf8"));
+}
+
+function readNumber(name: string, raw: string | undefined, min: number) {
+  if (raw == null) return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min) {
+    fail(`--${name} expects a number >= ${min}, got "${raw}"`);
+  }
+  return value;
+}
+
+async function main() {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      options: {
+        tracking: { type: "string" },
+        listings: { type: "string" },
+        categories: { type: "string" },
+        from: { type: "string" },
+        to: { type: "string" },
+        "split-at": { type: "string" },
+        "train-share": { type: "string" },
+        k: { type: "string" },
+        holdout: { type: "string" },
+        "session-gap": { type: "string" },
+        "sorted-by-visitor": { type: "boolean", default: false },
+        json: { type: "boolean", default: false },
+        out: { type: "string" },
+        help: { type: "boolean", default: false },
+      },
+    });
+  } catch (error) {
+    fail((error as Error).message);
+  }
+  const args = parsed.values;
+  if (args.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const range = parseDateRange(args.from, args.to);
+  if (!range.ok) fail(range.error);
+
+  const options: EvaluationOptions = {
+    range: range.range,
+    trainShare: readNumber("train-share", args["train-share"], 0),
+    holdout: readNumber("holdout", args.holdout, 1),
+    sessionGapMinutes: readNumber("session-gap", args["session-gap"], 1),
+    trackingSortedByVisitor: args["sorted-by-visitor"] || undefined,
+  };
+  if (options.trainShare !== undefined && options.trainShare >= 1) {
+    fail(`--train-share expects a share below 1, got "${args["train-share"]}"`);
+  }
+  if (options.holdout !== undefined && !Number.isInteger(options.holdout)) {
+    fail(`--holdout expects a whole number, got "${args.holdout}"`);
+  }
+  if (options.sessionGapMinutes !== undefined) {
+    options.sessionMode = "inactivity";
+  }
+  if (args["split-at"] != null) {
+    const at = new Date(args["split-at"]);
+    if (Number.isNaN(at.getTime())) {
+      fail(`--split-at expects an ISO date, got "${args["split-at"]}"`);
+    }
+    options.splitAt = at;
+  }
+  if (args.k != null) {
+    const ks = args.k.split(",").map(Number);
+    if (!ks.every((k) => Number.isInteger(k) && k >= 1)) {
+      fail(`--k expects comma-separated whole numbers >= 1, got "${args.k}"`);
+    }
+    options.ks = ks;
+  }
+  for (const key of Object.keys(options) as Array<keyof EvaluationOptions>) {
+    if (options[key] === undefined) delete options[key];
+  }
+
+  if (!args.listings) {
+    console.warn("warning: no --listings given; coverage uses seen items");
+  }
+  const listings = readDocuments(args.listings);
+  const categories = readDocuments(args.categories);
+  const tracking =
+    !args.tracking || args.tracking === "-"
+      ? process.stdin
+      : createReadStream(args.tracking);
+
+  const evaluation = await evaluateRecommendations(
+    readExtendedJson(tracking),
+    listings,
+    categories,
+    options
+  );
+
+  if (args.json || args.out) {
+    const json = JSON.stringify(evaluation, null, 2);
+    if (args.out) {
+      writeFileSync(args.out, `${json}\n`);
+    } else {
+      process.stdout.write(`${json}\n`);
+    }
+    return;
+  }
+
+  const { split } = evaluation;
+  console.log(
+    `split at ${split.at ?? "-"}: ${split.trainSessions} train / ` +
+      `${split.testSessions} test sessions, ${split.cases} cases ` +
+      `(holdout ${evaluation.holdout}, catalogue ${evaluation.catalogueItems})`
+  );
+  console.table(
+    evaluation.results.flatMap((result) =>
+      result.metrics.map((metric) => ({
+        scorer: result.scorer,
+        k: metric.k,
+        "hit rate": metric.hitRate.toFixed(4),
+        precision: metric.precision.toFixed(4),
+        recall: metric.recall.toFixed(4),
+        mrr: metric.mrr.toFixed(4),
+        ndcg: metric.ndcg.toFixed(4),
+        coverage: metric.coverage.toFixed(4),
+        "cold start": result.coldStart,
+      }))
+    )
+  );
+}
+
+main().catch((error) => {
+  if (error instanceof ExportParseError) {
+    console.error(`error: could not parse export (${error.message})`);
+  } else if (error instanceof SessionBufferError) {
+    console.error(`error: ${error.message}`);
+  } else {
+    console.error(error);
+  }
+  process.exit(1);
+});